@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `twoFactorEnabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `twoFactorRequired` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `twoFactorSecret` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `TwoFactorBackupCode` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `codeHash` VARCHAR(191) NOT NULL,
+    `usedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `TwoFactorBackupCode_codeHash_key`(`codeHash`),
+    INDEX `TwoFactorBackupCode_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `TwoFactorBackupCode` ADD CONSTRAINT `TwoFactorBackupCode_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
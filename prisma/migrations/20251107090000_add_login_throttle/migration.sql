@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `LoginThrottle` (
+    `id` VARCHAR(191) NOT NULL,
+    `scope` ENUM('ACCOUNT', 'IP') NOT NULL,
+    `identifier` VARCHAR(191) NOT NULL,
+    `failedAttempts` INTEGER NOT NULL DEFAULT 0,
+    `lastFailedAt` DATETIME(3) NULL,
+    `blockedUntil` DATETIME(3) NULL,
+    `lockedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `LoginThrottle_blockedUntil_idx`(`blockedUntil`),
+    UNIQUE INDEX `LoginThrottle_scope_identifier_key`(`scope`, `identifier`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
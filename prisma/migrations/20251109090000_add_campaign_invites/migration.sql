@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE `CampaignInvite` (
+    `id` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `email` VARCHAR(191) NOT NULL,
+    `role` ENUM('ADMIN', 'VIEWER') NOT NULL DEFAULT 'VIEWER',
+    `invitedById` VARCHAR(191) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `acceptedAt` DATETIME(3) NULL,
+    `acceptedById` VARCHAR(191) NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `CampaignInvite_campaignId_idx`(`campaignId`),
+    INDEX `CampaignInvite_email_idx`(`email`),
+    INDEX `CampaignInvite_invitedById_idx`(`invitedById`),
+    INDEX `CampaignInvite_acceptedById_idx`(`acceptedById`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CampaignInvite` ADD CONSTRAINT `CampaignInvite_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `Campaign`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CampaignInvite` ADD CONSTRAINT `CampaignInvite_invitedById_fkey` FOREIGN KEY (`invitedById`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CampaignInvite` ADD CONSTRAINT `CampaignInvite_acceptedById_fkey` FOREIGN KEY (`acceptedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE `ApiKey` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `keyPrefix` VARCHAR(191) NOT NULL,
+    `keyHash` VARCHAR(191) NOT NULL,
+    `scope` ENUM('READ', 'WRITE') NOT NULL DEFAULT 'READ',
+    `lastUsedAt` DATETIME(3) NULL,
+    `expiresAt` DATETIME(3) NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ApiKey_keyHash_key`(`keyHash`),
+    INDEX `ApiKey_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ApiKeyCampaign` (
+    `id` VARCHAR(191) NOT NULL,
+    `apiKeyId` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+
+    INDEX `ApiKeyCampaign_campaignId_idx`(`campaignId`),
+    UNIQUE INDEX `ApiKeyCampaign_apiKeyId_campaignId_key`(`apiKeyId`, `campaignId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ApiKey` ADD CONSTRAINT `ApiKey_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApiKeyCampaign` ADD CONSTRAINT `ApiKeyCampaign_apiKeyId_fkey` FOREIGN KEY (`apiKeyId`) REFERENCES `ApiKey`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApiKeyCampaign` ADD CONSTRAINT `ApiKeyCampaign_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `Campaign`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE `AuditLog` (
+    `id` VARCHAR(191) NOT NULL,
+    `actorId` VARCHAR(191) NULL,
+    `actorEmail` VARCHAR(191) NULL,
+    `apiKeyId` VARCHAR(191) NULL,
+    `procedure` VARCHAR(191) NOT NULL,
+    `targetIds` JSON NOT NULL,
+    `input` JSON NULL,
+    `changes` JSON NULL,
+    `status` ENUM('SUCCESS', 'FAILURE') NOT NULL,
+    `errorCode` VARCHAR(191) NULL,
+    `ipAddress` VARCHAR(191) NULL,
+    `userAgent` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `AuditLog_actorId_idx`(`actorId`),
+    INDEX `AuditLog_procedure_idx`(`procedure`),
+    INDEX `AuditLog_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Audit entries are append-only
+CREATE TRIGGER `AuditLog_prevent_update` BEFORE UPDATE ON `AuditLog`
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'AuditLog is append-only';
+
+CREATE TRIGGER `AuditLog_prevent_delete` BEFORE DELETE ON `AuditLog`
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'AuditLog is append-only';
@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE `Workspace` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `slug` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Workspace_slug_key`(`slug`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `WorkspaceMember` (
+    `id` VARCHAR(191) NOT NULL,
+    `workspaceId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `role` ENUM('ADMIN', 'MEMBER') NOT NULL DEFAULT 'MEMBER',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `WorkspaceMember_userId_idx`(`userId`),
+    UNIQUE INDEX `WorkspaceMember_workspaceId_userId_key`(`workspaceId`, `userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Existing records move into a default workspace
+INSERT INTO `Workspace` (`id`, `name`, `slug`, `createdAt`, `updatedAt`)
+VALUES ('default', 'Default', 'default', CURRENT_TIMESTAMP(3), CURRENT_TIMESTAMP(3));
+
+-- AlterTable
+ALTER TABLE `GoogleAccount` ADD COLUMN `workspaceId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `GoogleAccount` ALTER COLUMN `workspaceId` DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX `GoogleAccount_workspaceId_idx` ON `GoogleAccount`(`workspaceId`);
+
+-- AlterTable
+ALTER TABLE `Campaign` ADD COLUMN `workspaceId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `Campaign` ALTER COLUMN `workspaceId` DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX `Campaign_workspaceId_idx` ON `Campaign`(`workspaceId`);
+
+-- AlterTable
+ALTER TABLE `KeywordAnalysis` ADD COLUMN `workspaceId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `KeywordAnalysis` ALTER COLUMN `workspaceId` DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX `KeywordAnalysis_workspaceId_idx` ON `KeywordAnalysis`(`workspaceId`);
+
+-- AlterTable
+ALTER TABLE `WhatsAppGroup` ADD COLUMN `workspaceId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `WhatsAppGroup` ALTER COLUMN `workspaceId` DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX `WhatsAppGroup_workspaceId_idx` ON `WhatsAppGroup`(`workspaceId`);
+
+-- AlterTable
+ALTER TABLE `BrandProfile` ADD COLUMN `workspaceId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `BrandProfile` ALTER COLUMN `workspaceId` DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX `BrandProfile_workspaceId_idx` ON `BrandProfile`(`workspaceId`);
+
+-- AddForeignKey
+ALTER TABLE `WorkspaceMember` ADD CONSTRAINT `WorkspaceMember_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WorkspaceMember` ADD CONSTRAINT `WorkspaceMember_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoogleAccount` ADD CONSTRAINT `GoogleAccount_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Campaign` ADD CONSTRAINT `Campaign_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `KeywordAnalysis` ADD CONSTRAINT `KeywordAnalysis_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WhatsAppGroup` ADD CONSTRAINT `WhatsAppGroup_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `BrandProfile` ADD CONSTRAINT `BrandProfile_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `GoogleAccount` ADD COLUMN `lastSuccessAt` DATETIME(3) NULL,
+    ADD COLUMN `lastErrorAt` DATETIME(3) NULL,
+    ADD COLUMN `lastError` TEXT NULL,
+    ADD COLUMN `errorClass` ENUM('REVOKED', 'INSUFFICIENT_SCOPE', 'QUOTA', 'OTHER') NULL,
+    ADD COLUMN `alertSentAt` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `Campaign` ADD COLUMN `googleAccountError` ENUM('REVOKED', 'INSUFFICIENT_SCOPE', 'QUOTA', 'OTHER') NULL;
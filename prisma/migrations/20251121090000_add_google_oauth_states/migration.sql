@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `GoogleOAuthState` (
+    `id` VARCHAR(191) NOT NULL,
+    `stateHash` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `workspaceId` VARCHAR(191) NOT NULL,
+    `codeVerifier` TEXT NOT NULL,
+    `authCode` TEXT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `callbackAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `GoogleOAuthState_stateHash_key`(`stateHash`),
+    INDEX `GoogleOAuthState_userId_idx`(`userId`),
+    INDEX `GoogleOAuthState_workspaceId_idx`(`workspaceId`),
+    INDEX `GoogleOAuthState_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `GoogleOAuthState` ADD CONSTRAINT `GoogleOAuthState_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoogleOAuthState` ADD CONSTRAINT `GoogleOAuthState_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `GoogleAccount` ADD COLUMN `credentialType` ENUM('OAUTH', 'SERVICE_ACCOUNT') NOT NULL DEFAULT 'OAUTH',
+    ADD COLUMN `serviceAccountKey` TEXT NULL,
+    MODIFY `refreshToken` TEXT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Campaign` ADD COLUMN `searchConsolePermission` VARCHAR(191) NULL;
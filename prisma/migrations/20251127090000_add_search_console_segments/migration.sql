@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE `Campaign` ADD COLUMN `segmentConfig` JSON NULL;
+
+-- CreateTable
+CREATE TABLE `SearchConsoleKeywordSegmentDailyStat` (
+    `id` VARCHAR(191) NOT NULL,
+    `keywordId` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `searchType` ENUM('WEB', 'IMAGE', 'VIDEO', 'NEWS', 'DISCOVER') NOT NULL,
+    `device` VARCHAR(191) NOT NULL,
+    `country` VARCHAR(191) NOT NULL,
+    `averageRank` DOUBLE NULL,
+    `searchVolume` INTEGER NOT NULL,
+    `clicks` INTEGER NOT NULL,
+    `topRankingPageUrl` TEXT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SearchConsoleKeywordSegmentDailyStat_date_idx`(`date`),
+    UNIQUE INDEX `SearchConsoleKeywordSegmentDailyStat_segment_date_key`(`keywordId`, `searchType`, `device`, `country`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SearchConsoleTrafficSegmentDaily` (
+    `id` VARCHAR(191) NOT NULL,
+    `analyticsId` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `searchType` ENUM('WEB', 'IMAGE', 'VIDEO', 'NEWS', 'DISCOVER') NOT NULL,
+    `device` VARCHAR(191) NOT NULL,
+    `country` VARCHAR(191) NOT NULL,
+    `clicks` INTEGER NOT NULL,
+    `impressions` INTEGER NOT NULL,
+    `ctr` DOUBLE NOT NULL,
+    `position` DOUBLE NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SearchConsoleTrafficSegmentDaily_date_idx`(`date`),
+    UNIQUE INDEX `SearchConsoleTrafficSegmentDaily_segment_date_key`(`analyticsId`, `searchType`, `device`, `country`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SearchConsoleKeywordSegmentDailyStat` ADD CONSTRAINT `SearchConsoleKeywordSegmentDailyStat_keywordId_fkey` FOREIGN KEY (`keywordId`) REFERENCES `SearchConsoleKeyword`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SearchConsoleTrafficSegmentDaily` ADD CONSTRAINT `SearchConsoleTrafficSegmentDaily_analyticsId_fkey` FOREIGN KEY (`analyticsId`) REFERENCES `SearchConsoleTrafficAnalytics`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
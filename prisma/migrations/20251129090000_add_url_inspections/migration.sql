@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE `UrlInspection` (
+    `id` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `url` TEXT NOT NULL,
+    `urlHash` VARCHAR(191) NOT NULL,
+    `verdict` VARCHAR(191) NULL,
+    `coverageState` VARCHAR(191) NULL,
+    `indexingState` VARCHAR(191) NULL,
+    `robotsTxtState` VARCHAR(191) NULL,
+    `pageFetchState` VARCHAR(191) NULL,
+    `googleCanonical` TEXT NULL,
+    `userCanonical` TEXT NULL,
+    `lastCrawlTime` DATETIME(3) NULL,
+    `inspectedAt` DATETIME(3) NULL,
+    `statusChangedAt` DATETIME(3) NULL,
+    `lastError` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `UrlInspection_statusChangedAt_idx`(`statusChangedAt`),
+    UNIQUE INDEX `UrlInspection_campaignId_urlHash_key`(`campaignId`, `urlHash`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `UrlInspectionChange` (
+    `id` VARCHAR(191) NOT NULL,
+    `inspectionId` VARCHAR(191) NOT NULL,
+    `field` VARCHAR(191) NOT NULL,
+    `fromValue` TEXT NULL,
+    `toValue` TEXT NULL,
+    `detectedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `UrlInspectionChange_inspectionId_detectedAt_idx`(`inspectionId`, `detectedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `UrlInspection` ADD CONSTRAINT `UrlInspection_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `Campaign`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `UrlInspectionChange` ADD CONSTRAINT `UrlInspectionChange_inspectionId_fkey` FOREIGN KEY (`inspectionId`) REFERENCES `UrlInspection`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
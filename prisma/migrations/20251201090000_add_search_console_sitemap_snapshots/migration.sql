@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `SearchConsoleSitemapSnapshot` (
+    `id` VARCHAR(191) NOT NULL,
+    `siteUrl` VARCHAR(191) NOT NULL,
+    `path` TEXT NOT NULL,
+    `pathHash` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `isPending` BOOLEAN NOT NULL DEFAULT false,
+    `isSitemapsIndex` BOOLEAN NOT NULL DEFAULT false,
+    `lastSubmitted` DATETIME(3) NULL,
+    `lastDownloaded` DATETIME(3) NULL,
+    `submitted` INTEGER NOT NULL DEFAULT 0,
+    `indexed` INTEGER NOT NULL DEFAULT 0,
+    `errors` INTEGER NOT NULL DEFAULT 0,
+    `warnings` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SearchConsoleSitemapSnapshot_siteUrl_date_idx`(`siteUrl`, `date`),
+    UNIQUE INDEX `SearchConsoleSitemapSnapshot_siteUrl_pathHash_date_key`(`siteUrl`, `pathHash`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,66 @@
+/*
+  Warnings:
+
+  - The column `keywords` on the `Campaign` table is renamed to `legacyKeywords` and made nullable. Its keywords are copied to `CampaignKeyword` first; run `npm run keywords:normalize` afterwards to apply the full normalization and clear it.
+  - `SearchConsoleKeyword.keyword` and `CampaignKeyword.keyword` use a binary collation, so keywords only match when they are identical after normalization.
+
+*/
+-- CreateTable
+CREATE TABLE `CampaignKeyword` (
+    `id` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `keyword` VARCHAR(191) COLLATE utf8mb4_bin NOT NULL,
+    `targetUrl` TEXT NULL,
+    `addedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `removedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `CampaignKeyword_campaignId_removedAt_idx`(`campaignId`, `removedAt`),
+    UNIQUE INDEX `CampaignKeyword_campaignId_keyword_key`(`campaignId`, `keyword`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CampaignKeyword` ADD CONSTRAINT `CampaignKeyword_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `Campaign`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+-- A binary collation is stricter than the previous one, so existing rows
+-- stay unique
+ALTER TABLE `SearchConsoleKeyword` MODIFY `keyword` VARCHAR(191) COLLATE utf8mb4_bin NOT NULL;
+
+-- Copy each campaign's keywords, one per line, lowercased with whitespace
+-- collapsed, skipping blank lines and duplicates. MySQL has no NFKC, so
+-- `npm run keywords:normalize` finishes the job with normalizeKeyword.
+-- Keywords longer than the column are left out here and reported by it.
+-- Keywords are dated from the campaign's creation.
+SET SESSION cte_max_recursion_depth = 100000;
+
+INSERT INTO `CampaignKeyword` (`id`, `campaignId`, `keyword`, `addedAt`, `createdAt`, `updatedAt`)
+WITH RECURSIVE `KeywordLine` AS (
+    SELECT `id` AS `campaignId`,
+           `createdAt`,
+           SUBSTRING_INDEX(`keywords`, '\n', 1) AS `line`,
+           IF(LOCATE('\n', `keywords`) > 0, SUBSTRING(`keywords`, LOCATE('\n', `keywords`) + 1), NULL) AS `rest`
+    FROM `Campaign`
+    UNION ALL
+    SELECT `campaignId`,
+           `createdAt`,
+           SUBSTRING_INDEX(`rest`, '\n', 1),
+           IF(LOCATE('\n', `rest`) > 0, SUBSTRING(`rest`, LOCATE('\n', `rest`) + 1), NULL)
+    FROM `KeywordLine`
+    WHERE `rest` IS NOT NULL
+)
+SELECT UUID(), `campaignId`, `keyword`, MIN(`createdAt`), CURRENT_TIMESTAMP(3), CURRENT_TIMESTAMP(3)
+FROM (
+    SELECT `campaignId`,
+           `createdAt`,
+           LOWER(TRIM(REGEXP_REPLACE(`line`, '[[:space:]]+', ' '))) COLLATE utf8mb4_bin AS `keyword`
+    FROM `KeywordLine`
+) AS `NormalizedKeyword`
+WHERE `keyword` <> '' AND CHAR_LENGTH(`keyword`) <= 191
+GROUP BY `campaignId`, `keyword`;
+
+-- AlterTable
+-- Kept until `npm run keywords:normalize` has copied every keyword
+ALTER TABLE `Campaign` CHANGE `keywords` `legacyKeywords` TEXT NULL;
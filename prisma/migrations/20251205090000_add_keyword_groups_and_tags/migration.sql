@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE `CampaignKeywordTag` (
+    `id` VARCHAR(191) NOT NULL,
+    `keywordId` VARCHAR(191) NOT NULL,
+    `tag` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `CampaignKeywordTag_tag_idx`(`tag`),
+    UNIQUE INDEX `CampaignKeywordTag_keywordId_tag_key`(`keywordId`, `tag`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `KeywordGroup` (
+    `id` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `color` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `KeywordGroup_campaignId_name_key`(`campaignId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `KeywordGroupMember` (
+    `id` VARCHAR(191) NOT NULL,
+    `groupId` VARCHAR(191) NOT NULL,
+    `keywordId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `KeywordGroupMember_keywordId_idx`(`keywordId`),
+    UNIQUE INDEX `KeywordGroupMember_groupId_keywordId_key`(`groupId`, `keywordId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CampaignKeywordTag` ADD CONSTRAINT `CampaignKeywordTag_keywordId_fkey` FOREIGN KEY (`keywordId`) REFERENCES `CampaignKeyword`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `KeywordGroup` ADD CONSTRAINT `KeywordGroup_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `Campaign`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `KeywordGroupMember` ADD CONSTRAINT `KeywordGroupMember_groupId_fkey` FOREIGN KEY (`groupId`) REFERENCES `KeywordGroup`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `KeywordGroupMember` ADD CONSTRAINT `KeywordGroupMember_keywordId_fkey` FOREIGN KEY (`keywordId`) REFERENCES `CampaignKeyword`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
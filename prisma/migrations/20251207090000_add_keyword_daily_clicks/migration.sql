@@ -0,0 +1,14 @@
+-- searchVolume always held impressions; renamed in place to keep the data
+ALTER TABLE `SearchConsoleKeywordDailyStat` RENAME COLUMN `searchVolume` TO `impressions`,
+    ADD COLUMN `clicks` INTEGER NULL,
+    ADD COLUMN `ctr` DOUBLE NULL;
+
+-- AlterTable
+ALTER TABLE `SearchConsoleKeywordSegmentDailyStat` RENAME COLUMN `searchVolume` TO `impressions`,
+    ADD COLUMN `ctr` DOUBLE NOT NULL DEFAULT 0;
+
+-- Segment rows already have clicks. CTR is a percentage, like the traffic
+-- tables
+UPDATE `SearchConsoleKeywordSegmentDailyStat` SET `ctr` = ROUND(`clicks` / `impressions` * 100, 2) WHERE `impressions` > 0;
+
+ALTER TABLE `SearchConsoleKeywordSegmentDailyStat` ALTER COLUMN `ctr` DROP DEFAULT;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `SearchConsoleKeywordPageDailyStat` (
+    `id` VARCHAR(191) NOT NULL,
+    `keywordId` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `page` TEXT NOT NULL,
+    `pageHash` VARCHAR(191) NOT NULL,
+    `impressions` INTEGER NOT NULL,
+    `clicks` INTEGER NOT NULL,
+    `ctr` DOUBLE NOT NULL,
+    `position` DOUBLE NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SearchConsoleKeywordPageDailyStat_keywordId_date_idx`(`keywordId`, `date`),
+    UNIQUE INDEX `SearchConsoleKeywordPageDailyStat_keywordId_pageHash_date_key`(`keywordId`, `pageHash`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SearchConsoleKeywordPageDailyStat` ADD CONSTRAINT `SearchConsoleKeywordPageDailyStat_keywordId_fkey` FOREIGN KEY (`keywordId`) REFERENCES `SearchConsoleKeyword`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE `BackfillJob` (
+    `id` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `startDate` DATETIME(3) NOT NULL,
+    `endDate` DATETIME(3) NOT NULL,
+    `status` ENUM('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED') NOT NULL DEFAULT 'PENDING',
+    `totalDays` INTEGER NOT NULL,
+    `cancelRequestedAt` DATETIME(3) NULL,
+    `heartbeatAt` DATETIME(3) NULL,
+    `lastError` TEXT NULL,
+    `startedAt` DATETIME(3) NULL,
+    `finishedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `BackfillJob_campaignId_idx`(`campaignId`),
+    INDEX `BackfillJob_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `BackfillJobDay` (
+    `id` VARCHAR(191) NOT NULL,
+    `jobId` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `status` ENUM('PENDING', 'COMPLETED', 'FAILED') NOT NULL DEFAULT 'PENDING',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `lastError` TEXT NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `BackfillJobDay_jobId_status_idx`(`jobId`, `status`),
+    UNIQUE INDEX `BackfillJobDay_jobId_date_key`(`jobId`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `BackfillJob` ADD CONSTRAINT `BackfillJob_campaignId_fkey` FOREIGN KEY (`campaignId`) REFERENCES `Campaign`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `BackfillJobDay` ADD CONSTRAINT `BackfillJobDay_jobId_fkey` FOREIGN KEY (`jobId`) REFERENCES `BackfillJob`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
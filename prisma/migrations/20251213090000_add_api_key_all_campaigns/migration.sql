@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `ApiKey` ADD COLUMN `allCampaigns` BOOLEAN NOT NULL DEFAULT true;
+
+-- Keys with campaign rows were created limited to them. Limited keys whose
+-- campaigns were all deleted before this migration have no rows left and
+-- can't be told apart from unrestricted ones.
+UPDATE `ApiKey` SET `allCampaigns` = false
+WHERE `id` IN (SELECT DISTINCT `apiKeyId` FROM `ApiKeyCampaign`);
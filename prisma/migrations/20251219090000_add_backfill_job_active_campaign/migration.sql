@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `BackfillJob` ADD COLUMN `activeCampaignId` VARCHAR(191) NULL;
+
+-- Mark each campaign's latest pending or running job as its active one.
+-- Older active jobs of the same campaign, if any, are left without it and
+-- finish as before.
+UPDATE `BackfillJob` AS `job`
+LEFT JOIN `BackfillJob` AS `newer`
+    ON `newer`.`campaignId` = `job`.`campaignId`
+    AND `newer`.`status` IN ('PENDING', 'RUNNING')
+    AND `newer`.`createdAt` > `job`.`createdAt`
+SET `job`.`activeCampaignId` = `job`.`campaignId`
+WHERE `job`.`status` IN ('PENDING', 'RUNNING') AND `newer`.`id` IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `BackfillJob_activeCampaignId_key` ON `BackfillJob`(`activeCampaignId`);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `MilestoneType` MODIFY `type` ENUM('POSITION', 'CLICKS', 'KEYWORD_CLICKS') NOT NULL;
@@ -0,0 +1,56 @@
+import { prisma } from '../src/utils/prisma';
+import { AnalyticsService } from '../src/services/analytics';
+
+/**
+ * Fill in clicks and CTR on daily keyword stats stored before they were
+ * captured. Refetches the affected days from Search Console, so it can be
+ * stopped and run again. Rows older than Search Console's 16 months of data
+ * keep null clicks.
+ *
+ * Usage: npx ts-node scripts/backfillKeywordClicks.ts [campaignId]
+ */
+async function backfillKeywordClicks() {
+  const campaignId = process.argv[2];
+  const analyticsService = new AnalyticsService();
+
+  try {
+    const campaigns = await prisma.campaign.findMany({
+      where: campaignId ? { id: campaignId } : { status: 'ACTIVE' },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+    if (campaignId && campaigns.length === 0) {
+      console.error(`❌ Campaign ${campaignId} not found`);
+      process.exitCode = 1;
+      return;
+    }
+
+    let errorCount = 0;
+    for (const campaign of campaigns) {
+      try {
+        const { months, remaining } = await analyticsService.backfillDailyClicks({
+          campaignId: campaign.id,
+          waitForAllData: false,
+        });
+        console.log(
+          `✓ ${campaign.name}: refetched ${months} months, ${remaining} rows still without clicks`
+        );
+      } catch (error) {
+        console.error(`✗ Error backfilling clicks for ${campaign.name}:`, error);
+        errorCount++;
+      }
+    }
+
+    console.log(`\nBackfilled ${campaigns.length - errorCount} of ${campaigns.length} campaigns`);
+    if (errorCount > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Fatal error during clicks backfill:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillKeywordClicks();
@@ -0,0 +1,54 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const FAKE_ACCOUNT_EMAIL = 'fake-search-console@example.com';
+
+/**
+ * Create a Google account for local development with the fake Search
+ * Console backend (SEARCH_CONSOLE_FAKE_DATA). Its tokens are placeholders
+ * that are never sent to Google.
+ *
+ * Usage: npx ts-node scripts/createFakeGoogleAccount.ts [workspaceSlug]
+ */
+async function createFakeGoogleAccount() {
+  const slug = process.argv[2] || 'default';
+
+  try {
+    const workspace = await prisma.workspace.findUnique({ where: { slug } });
+    if (!workspace) {
+      console.error(`❌ Workspace "${slug}" not found`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const data = {
+      accountName: 'Fake Search Console',
+      accessToken: 'fake-access-token',
+      refreshToken: 'fake-refresh-token',
+      // Far in the future so the token is never refreshed
+      expiresAt: new Date('2099-12-31T00:00:00Z'),
+      isActive: true,
+      workspaceId: workspace.id,
+    };
+
+    const account = await prisma.googleAccount.upsert({
+      where: { email: FAKE_ACCOUNT_EMAIL },
+      update: data,
+      create: { email: FAKE_ACCOUNT_EMAIL, ...data },
+    });
+
+    console.log(`✅ Fake Google account ${account.email} is ready in workspace "${slug}" (id: ${account.id})`);
+    if (!process.env.SEARCH_CONSOLE_FAKE_DATA) {
+      console.log('⚠️  Set SEARCH_CONSOLE_FAKE_DATA (e.g. scripts/fixtures/searchConsole.json) before starting the server');
+    }
+  } catch (error) {
+    console.error('❌ Error creating fake Google account:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+createFakeGoogleAccount();
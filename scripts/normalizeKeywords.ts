@@ -0,0 +1,51 @@
+import { prisma } from '../src/utils/prisma';
+import { keywordNormalizationService } from '../src/services/keywordNormalization';
+
+/**
+ * Normalize stored campaign and Search Console keywords with
+ * normalizeKeyword (NFKC, lowercase, collapsed whitespace) after the
+ * campaign keyword migration, which can't apply NFKC in SQL. Copies the
+ * keywords the migration left out and clears each campaign's legacy
+ * keyword list once all of it is stored. Safe to run again.
+ *
+ * Usage: npx ts-node scripts/normalizeKeywords.ts
+ */
+async function normalizeKeywords() {
+  console.log('Starting keyword normalization...');
+
+  try {
+    const campaignResult = await keywordNormalizationService.normalizeCampaignKeywords();
+    const siteResult = await keywordNormalizationService.normalizeSiteKeywords();
+
+    console.log('\n=== Campaign keywords ===');
+    console.log(`Renamed: ${campaignResult.renamed}`);
+    console.log(`Merged: ${campaignResult.merged}`);
+    console.log(`Deleted (blank): ${campaignResult.deleted}`);
+    console.log(`Imported from legacy lists: ${campaignResult.imported}`);
+    console.log(`Legacy lists cleared: ${campaignResult.legacyListsCleared}`);
+
+    console.log('\n=== Search Console keywords ===');
+    console.log(`Renamed: ${siteResult.renamed}`);
+    console.log(`Merged: ${siteResult.merged}`);
+    if (siteResult.refetchSites.length > 0) {
+      console.log('Refetch the campaigns on these sites to rebuild page, segment and monthly stats:');
+      siteResult.refetchSites.forEach((site) => console.log(`- ${site}`));
+    }
+
+    if (campaignResult.tooLong.length > 0) {
+      console.error('\n❌ Keywords longer than the keyword column, left in the legacy lists:');
+      campaignResult.tooLong.forEach(({ campaignId, keyword }) =>
+        console.error(`- ${campaignId}: ${keyword}`)
+      );
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Fatal error during keyword normalization:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+normalizeKeywords();
@@ -0,0 +1,96 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  decryptSecret,
+  encryptSecret,
+  needsReencryption,
+} from '../src/utils/tokenEncryption';
+
+const prisma = new PrismaClient();
+
+// Re-encrypt a stored secret; missing secrets stay missing
+const reencrypt = (value: string | null) =>
+  value === null ? null : encryptSecret(decryptSecret(value));
+
+/**
+ * Re-encrypt Google account tokens and service account keys with the current
+ * (first) key in TOKEN_ENCRYPTION_KEYS. Encrypts tokens stored before
+ * encryption was introduced and moves tokens off retired keys. Keep the old key in the list
+ * until this has run, then remove it.
+ */
+async function reencryptGoogleTokens() {
+  console.log('Starting Google token re-encryption...');
+
+  try {
+    const accounts = await prisma.googleAccount.findMany({
+      select: {
+        id: true,
+        email: true,
+        accessToken: true,
+        refreshToken: true,
+        serviceAccountKey: true,
+      },
+    });
+
+    console.log(`Found ${accounts.length} Google accounts`);
+
+    let updatedCount = 0;
+    let errorCount = 0;
+
+    for (const account of accounts) {
+      const secrets = [
+        account.accessToken,
+        account.refreshToken,
+        account.serviceAccountKey,
+      ].filter((value): value is string => value !== null);
+      if (!secrets.some(needsReencryption)) {
+        continue;
+      }
+
+      try {
+        // Only write if the row still holds the values we read, so a token
+        // refreshed meanwhile is not overwritten with a stale one
+        const result = await prisma.googleAccount.updateMany({
+          where: {
+            id: account.id,
+            accessToken: account.accessToken,
+            refreshToken: account.refreshToken,
+            serviceAccountKey: account.serviceAccountKey,
+          },
+          data: {
+            accessToken: encryptSecret(decryptSecret(account.accessToken)),
+            refreshToken: reencrypt(account.refreshToken),
+            serviceAccountKey: reencrypt(account.serviceAccountKey),
+          },
+        });
+
+        if (result.count === 0) {
+          console.log(`- Skipped ${account.email}: tokens changed, run again`);
+          continue;
+        }
+
+        console.log(`✓ Re-encrypted tokens for ${account.email}`);
+        updatedCount++;
+      } catch (error) {
+        console.error(`✗ Error re-encrypting tokens for ${account.email}:`, error);
+        errorCount++;
+      }
+    }
+
+    console.log('\n=== Summary ===');
+    console.log(`Total accounts: ${accounts.length}`);
+    console.log(`Re-encrypted: ${updatedCount}`);
+    console.log(`Errors: ${errorCount}`);
+
+    if (errorCount > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Fatal error during token re-encryption:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+reencryptGoogleTokens();
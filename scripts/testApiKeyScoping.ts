@@ -0,0 +1,77 @@
+import assert from 'assert';
+import { PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { createApiKey } from '../src/utils/auth';
+import { createContext } from '../src/trpc/trpc-context';
+import { appRouter } from '../src/trpc/router';
+import { createTestCampaigns } from './testHelpers';
+
+const prisma = new PrismaClient();
+
+const callerFor = async (key: string) =>
+  appRouter.createCaller(
+    await createContext({ req: { headers: { authorization: `Bearer ${key}` } }, res: {} })
+  );
+
+const expectForbidden = async (call: Promise<unknown>, message: string) => {
+  await assert.rejects(
+    call,
+    (error) => error instanceof TRPCError && error.code === 'FORBIDDEN',
+    message
+  );
+};
+
+/**
+ * Check that campaign-limited API keys stay limited: to their campaigns
+ * while those exist, and to nothing once all of them were deleted.
+ * Creates and deletes its own workspace.
+ *
+ * Usage: npx ts-node scripts/testApiKeyScoping.ts
+ */
+async function testApiKeyScoping() {
+  const fixture = await createTestCampaigns(prisma, 'api-key', [
+    'https://scoped-a.example.com/',
+    'https://scoped-b.example.com/',
+  ]);
+  const [scoped, other] = fixture.campaigns;
+
+  try {
+    const { key } = await createApiKey(fixture.user.id, {
+      name: 'scoped',
+      scope: 'READ',
+      campaignIds: [scoped.id],
+    });
+    const { key: unrestrictedKey } = await createApiKey(fixture.user.id, {
+      name: 'unrestricted',
+      scope: 'READ',
+    });
+
+    let caller = await callerFor(key);
+    await caller.campaigns.getCampaign({ id: scoped.id });
+    await expectForbidden(
+      caller.campaigns.getCampaign({ id: other.id }),
+      'a limited key should not reach other campaigns'
+    );
+    console.log('✓ limited key reaches only its campaign');
+
+    await prisma.campaign.delete({ where: { id: scoped.id } });
+    caller = await callerFor(key);
+    await expectForbidden(
+      caller.campaigns.getCampaign({ id: other.id }),
+      'a limited key should reach nothing once its campaigns are deleted'
+    );
+    console.log('✓ limited key reaches nothing after its campaigns are deleted');
+
+    const unrestricted = await callerFor(unrestrictedKey);
+    await unrestricted.campaigns.getCampaign({ id: other.id });
+    console.log('✓ unrestricted key reaches every campaign of its owner');
+  } catch (error) {
+    console.error('❌ API key scoping test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await fixture.cleanup();
+    await prisma.$disconnect();
+  }
+}
+
+testApiKeyScoping();
@@ -0,0 +1,174 @@
+import assert from 'assert';
+import path from 'path';
+import moment from 'moment';
+import { prisma } from '../src/utils/prisma';
+import {
+  BackfillJobConflictError,
+  backfillJobService,
+} from '../src/services/backfillJobs';
+import { campaignKeywordService } from '../src/services/campaignKeywords';
+import { createTestCampaigns } from './testHelpers';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'searchConsole.json');
+const SITE = 'sc-domain:example.com';
+const KEYWORDS = ['running shoes', 'trail running shoes'];
+
+// UTC midnight `days` days ago, like the dates the backfill days are keyed by
+const daysAgo = (days: number) =>
+  moment.utc().startOf('day').subtract(days, 'days').toDate();
+
+const countDays = async (jobId: string) => {
+  const counts = await prisma.backfillJobDay.groupBy({
+    by: ['status'],
+    where: { jobId },
+    _count: { _all: true },
+  });
+  const countOf = (status: string) =>
+    counts.find((count) => count.status === status)?._count._all || 0;
+  return {
+    completed: countOf('COMPLETED'),
+    pending: countOf('PENDING'),
+    failed: countOf('FAILED'),
+  };
+};
+
+/**
+ * Run backfill jobs against the fake Search Console client: a job left
+ * running by a restart is resumed from its unfinished days only once its
+ * heartbeat is stale, a campaign can't get a second active job,
+ * cancelling keeps the saved days and can be resumed with a retry, and
+ * finished jobs can't be retried or cancelled again.
+ * Creates and deletes its own workspace; use a database where no real
+ * campaign tracks the fixture's sites.
+ *
+ * Usage: npx ts-node scripts/testBackfillJobs.ts
+ */
+async function testBackfillJobs() {
+  process.env.SEARCH_CONSOLE_FAKE_DATA = FIXTURE;
+
+  const { campaigns, cleanup } = await createTestCampaigns(
+    prisma,
+    'backfill',
+    [SITE],
+    daysAgo(40)
+  );
+  const [campaign] = campaigns;
+  await campaignKeywordService.syncKeywords(campaign.id, KEYWORDS);
+
+  try {
+    // A job interrupted after its first week, as a restart leaves it
+    const job = await backfillJobService.createJob(campaign);
+    assert.strictEqual(job.activeCampaignId, campaign.id);
+    const firstWeek = await prisma.backfillJobDay.findMany({
+      where: { jobId: job.id },
+      orderBy: { date: 'asc' },
+      take: 7,
+    });
+    await prisma.backfillJobDay.updateMany({
+      where: { id: { in: firstWeek.map((day) => day.id) } },
+      data: { status: 'COMPLETED', attempts: 1, completedAt: new Date() },
+    });
+    await prisma.backfillJob.update({
+      where: { id: job.id },
+      data: { status: 'RUNNING', startedAt: new Date(), heartbeatAt: new Date() },
+    });
+
+    await assert.rejects(
+      backfillJobService.createJob(campaign),
+      BackfillJobConflictError,
+      'a campaign should only have one active job'
+    );
+    console.log('✓ a second job for the campaign is refused');
+
+    // Another process is still running it
+    assert.strictEqual(await backfillJobService.resumeJobs(), 0);
+    assert.strictEqual((await countDays(job.id)).pending, job.totalDays - 7);
+    console.log('✓ jobs with a fresh heartbeat are left to their runner');
+
+    await prisma.backfillJob.update({
+      where: { id: job.id },
+      data: { heartbeatAt: moment().subtract(30, 'minutes').toDate() },
+    });
+    assert.strictEqual(await backfillJobService.resumeJobs(), 1);
+    const resumed = await prisma.backfillJob.findUniqueOrThrow({ where: { id: job.id } });
+    assert.strictEqual(resumed.status, 'COMPLETED');
+    assert.strictEqual(resumed.activeCampaignId, null);
+    assert.deepStrictEqual(await countDays(job.id), {
+      completed: job.totalDays,
+      pending: 0,
+      failed: 0,
+    });
+    const refetched = await prisma.backfillJobDay.count({
+      where: { id: { in: firstWeek.map((day) => day.id) }, attempts: { gt: 1 } },
+    });
+    assert.strictEqual(
+      refetched,
+      0,
+      'days completed before the restart should not be fetched again'
+    );
+    const trafficDays = await prisma.searchConsoleTrafficDaily.count({
+      where: {
+        analytics: { siteUrl: SITE },
+        date: { gt: firstWeek[firstWeek.length - 1].date },
+      },
+    });
+    assert.ok(trafficDays > 0, 'the resumed days should be saved');
+    console.log('✓ stale jobs resume from their unfinished days');
+
+    // Cancel a running job once its first days are saved
+    const cancelled = await backfillJobService.createJob(campaign);
+    let finished = false;
+    const run = backfillJobService.runJob(cancelled.id).finally(() => {
+      finished = true;
+    });
+    while (!finished && (await countDays(cancelled.id)).completed === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    await backfillJobService.cancelJob(cancelled.id);
+    await run;
+    const afterCancel = await prisma.backfillJob.findUniqueOrThrow({
+      where: { id: cancelled.id },
+    });
+    assert.strictEqual(afterCancel.status, 'CANCELLED');
+    assert.strictEqual(afterCancel.activeCampaignId, null);
+    const cancelledDays = await countDays(cancelled.id);
+    assert.ok(cancelledDays.completed > 0, 'days saved before the cancel should be kept');
+    console.log(
+      `✓ cancelling stops the job with ${cancelledDays.completed} of ${cancelled.totalDays} days saved`
+    );
+
+    // A retry resumes the cancelled job where it stopped
+    const retried = await backfillJobService.retryJob(afterCancel);
+    assert.strictEqual(retried.status, 'PENDING');
+    assert.strictEqual(retried.activeCampaignId, campaign.id);
+    await backfillJobService.runJob(cancelled.id);
+    const afterRetry = await prisma.backfillJob.findUniqueOrThrow({
+      where: { id: cancelled.id },
+    });
+    assert.strictEqual(afterRetry.status, 'COMPLETED');
+    assert.strictEqual((await countDays(cancelled.id)).completed, cancelled.totalDays);
+    console.log('✓ retrying a cancelled job finishes its remaining days');
+
+    // Retrying or cancelling a job that finished in the meantime is refused
+    await assert.rejects(
+      backfillJobService.retryJob(afterCancel),
+      BackfillJobConflictError,
+      'a stale retry should not reset a finished job'
+    );
+    assert.strictEqual(await backfillJobService.cancelJob(cancelled.id), false);
+    const afterStaleRequests = await prisma.backfillJob.findUniqueOrThrow({
+      where: { id: cancelled.id },
+    });
+    assert.strictEqual(afterStaleRequests.status, 'COMPLETED');
+    assert.strictEqual(afterStaleRequests.cancelRequestedAt, null);
+    console.log('✓ finished jobs are not retried or cancelled again');
+  } catch (error) {
+    console.error('❌ Backfill job test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await cleanup();
+    await prisma.$disconnect();
+  }
+}
+
+testBackfillJobs();
@@ -0,0 +1,194 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import moment from 'moment';
+import { prisma } from '../src/utils/prisma';
+import { AnalyticsService } from '../src/services/analytics';
+import { campaignKeywordService } from '../src/services/campaignKeywords';
+import { keywordCannibalizationService } from '../src/services/keywordCannibalization';
+import { MilestoneService } from '../src/services/milestoneService';
+import { searchConsoleService } from '../src/services/searchConsole';
+import { createTestCampaigns } from './testHelpers';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'searchConsole.json');
+const SITE = 'sc-domain:example.com';
+const KEYWORDS = ['running shoes', 'trail running shoes', 'marathon training plan'];
+
+// UTC midnight `days` days ago, like the dates the daily rows are keyed by
+const daysAgo = (days: number) => moment.utc().startOf('day').subtract(days, 'days').toDate();
+
+/**
+ * Run the analytics ingestion, the cannibalization audit and the milestone
+ * check against the fake Search Console client and the fixture in
+ * scripts/fixtures, then check that quota errors end reads early without
+ * storing anything. Creates and deletes its own workspace; use a database
+ * where no real campaign tracks the fixture's sites.
+ *
+ * Usage: npx ts-node scripts/testFakeSearchConsole.ts
+ */
+async function testFakeSearchConsole() {
+  process.env.SEARCH_CONSOLE_FAKE_DATA = FIXTURE;
+  const analyticsService = new AnalyticsService();
+  const milestoneService = new MilestoneService();
+
+  const { campaigns, googleAccount, cleanup } = await createTestCampaigns(
+    prisma,
+    'fake-gsc',
+    [SITE],
+    daysAgo(30)
+  );
+  const [campaign] = campaigns;
+  await campaignKeywordService.syncKeywords(campaign.id, KEYWORDS);
+  const milestoneTypes = [];
+  const quotaFixture = path.join(os.tmpdir(), `searchConsole-quota-${Date.now()}.json`);
+
+  try {
+    // Ingestion stores the site's traffic and the campaign's keywords per day
+    const savedDays: Date[] = [];
+    await analyticsService.fetchAndSaveDays({
+      campaign,
+      googleAccount,
+      startDate: daysAgo(10),
+      endDate: daysAgo(4),
+      waitForAllData: true,
+      onDaySaved: async (date) => {
+        savedDays.push(date);
+      },
+    });
+    assert.strictEqual(savedDays.length, 7, 'every day of the range should be checkpointed');
+    const trafficDays = await prisma.searchConsoleTrafficDaily.count({
+      where: {
+        analytics: { siteUrl: SITE },
+        date: { gte: daysAgo(10), lte: daysAgo(4) },
+      },
+    });
+    assert.strictEqual(trafficDays, 7, 'every fetched day should have site traffic');
+    const keywordStats = await prisma.searchConsoleKeywordDailyStat.findMany({
+      where: { keyword: { analytics: { siteUrl: SITE } } },
+      include: { keyword: true },
+    });
+    assert.deepStrictEqual(
+      [...new Set(keywordStats.map((stat) => stat.keyword.keyword))].sort(),
+      [...KEYWORDS].sort(),
+      'only the campaign keywords should be stored'
+    );
+    assert.ok(
+      keywordStats.every((stat) => stat.impressions > 0 && (stat.averageRank ?? 0) >= 1),
+      'keyword stats should carry the fixture numbers'
+    );
+    console.log(`✓ ingestion stored 7 days of traffic and ${keywordStats.length} keyword stats`);
+
+    // "running shoes" ranks with a blog post at over a quarter of the top
+    // page's impressions; the stored rows and the API should agree
+    for (const [label, startDays, endDays] of [
+      ['stored rows', 10, 4],
+      ['the API', 25, 15],
+    ] as const) {
+      const auditId = await keywordCannibalizationService.runAudit(
+        campaign.id,
+        daysAgo(startDays),
+        daysAgo(endDays)
+      );
+      const results = await prisma.keywordCannibalizationResult.findMany({
+        where: { auditId },
+        include: { competingPages: true },
+      });
+      assert.deepStrictEqual(
+        results.map((result) => result.keyword),
+        ['running shoes'],
+        `the audit from ${label} should only flag "running shoes"`
+      );
+      assert.strictEqual(results[0].topPageUrl, 'https://example.com/shoes');
+      assert.ok(
+        results[0].competingPages.some(
+          (page) => page.pageUrl === 'https://example.com/blog/best-running-shoes'
+        ),
+        'the blog post should compete with the top page'
+      );
+      console.log(`✓ cannibalization audit from ${label} flags the competing blog post`);
+    }
+
+    // Click, position and keyword click milestones reached by the stored
+    // days. The test
+    // database has no notification settings, so nothing is sent.
+    const suffix = Date.now();
+    milestoneTypes.push(
+      await prisma.milestoneType.create({
+        data: {
+          name: `test-clicks-${suffix}`,
+          displayName: 'Test clicks',
+          type: 'CLICKS',
+          threshold: 1,
+        },
+      }),
+      await prisma.milestoneType.create({
+        data: {
+          name: `test-position-${suffix}`,
+          displayName: 'Test position',
+          type: 'POSITION',
+          position: 10,
+        },
+      }),
+      await prisma.milestoneType.create({
+        data: {
+          name: `test-keyword-clicks-${suffix}`,
+          displayName: 'Test keyword clicks',
+          type: 'KEYWORD_CLICKS',
+          threshold: 1,
+        },
+      })
+    );
+    await prisma.milestonePreference.createMany({
+      data: milestoneTypes.map((type) => ({
+        campaignId: campaign.id,
+        milestoneTypeId: type.id,
+      })),
+    });
+    const milestones = await milestoneService.checkCampaignMilestones(campaign.id);
+    // The click milestone plus each keyword twice, as all of them have
+    // climbed into the top 10 and have clicks by now
+    assert.strictEqual(milestones.milestonesAchieved, 1 + 2 * KEYWORDS.length);
+    console.log('✓ milestone check finds the click, position and keyword click milestones');
+
+    // A property out of quota: interactive reads return what they have
+    // instead of waiting, and nothing is stored for the day
+    const fixture = JSON.parse(fs.readFileSync(FIXTURE, 'utf8'));
+    fixture.quota = { sites: [SITE] };
+    fs.writeFileSync(quotaFixture, JSON.stringify(fixture));
+    process.env.SEARCH_CONSOLE_FAKE_DATA = quotaFixture;
+
+    const rows = await searchConsoleService.getAnalytics({
+      campaign,
+      googleAccount,
+      startAt: moment(daysAgo(20)),
+      endAt: moment(daysAgo(20)),
+      dimensions: ['query'],
+    });
+    assert.deepStrictEqual(rows, [], 'a quota error should end the read without rows');
+    await analyticsService.fetchAndSaveDays({
+      campaign,
+      googleAccount,
+      startDate: daysAgo(20),
+      endDate: daysAgo(20),
+      waitForAllData: false,
+    });
+    const quotaDay = await prisma.searchConsoleTrafficDaily.count({
+      where: { analytics: { siteUrl: SITE }, date: daysAgo(20) },
+    });
+    assert.strictEqual(quotaDay, 0, 'nothing should be stored for a day that hit the quota');
+    console.log('✓ quota errors end reads early without storing anything');
+  } catch (error) {
+    console.error('❌ Fake Search Console test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(quotaFixture, { force: true });
+    await prisma.milestoneType.deleteMany({
+      where: { id: { in: milestoneTypes.map((type) => type.id) } },
+    });
+    await cleanup();
+    await prisma.$disconnect();
+  }
+}
+
+testFakeSearchConsole();
@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../src/utils/auth';
+
+/**
+ * Create a throwaway workspace with an owner, a Google account and one
+ * campaign per site for the test scripts. Use sites no real campaign
+ * tracks: `cleanup` deletes all of it, including the sites' stats.
+ */
+export async function createTestCampaigns(
+  prisma: PrismaClient,
+  label: string,
+  sites: string[],
+  startingDate = new Date(Date.UTC(2025, 0, 1))
+) {
+  const suffix = `${label}-${Date.now()}`;
+  const workspace = await prisma.workspace.create({
+    data: { name: `Test ${suffix}`, slug: `test-${suffix}` },
+  });
+  const user = await prisma.user.create({
+    data: {
+      email: `${suffix}@example.com`,
+      password: await hashPassword(suffix),
+      status: 'ACTIVE',
+      workspaceMemberships: { create: { workspaceId: workspace.id, role: 'ADMIN' } },
+    },
+  });
+  const googleAccount = await prisma.googleAccount.create({
+    data: {
+      email: `${suffix}-gsc@example.com`,
+      accountName: `Test ${suffix}`,
+      accessToken: 'fake-access-token',
+      refreshToken: 'fake-refresh-token',
+      expiresAt: new Date('2099-12-31T00:00:00Z'),
+      workspaceId: workspace.id,
+    },
+  });
+
+  const campaigns = [];
+  for (const site of sites) {
+    campaigns.push(
+      await prisma.campaign.create({
+        data: {
+          name: `${site} ${suffix}`,
+          startingDate,
+          searchConsoleAccount: googleAccount.email,
+          searchConsoleSite: site,
+          userId: user.id,
+          googleAccountId: googleAccount.id,
+          workspaceId: workspace.id,
+        },
+      })
+    );
+  }
+
+  // Stats are stored per site rather than per campaign
+  const cleanup = async () => {
+    await prisma.searchConsoleKeywordAnalytics.deleteMany({ where: { siteUrl: { in: sites } } });
+    await prisma.searchConsoleTrafficAnalytics.deleteMany({ where: { siteUrl: { in: sites } } });
+    await prisma.workspace.delete({ where: { id: workspace.id } });
+    await prisma.user.delete({ where: { id: user.id } });
+  };
+
+  return { workspace, user, googleAccount, campaigns, cleanup };
+}
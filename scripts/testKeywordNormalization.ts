@@ -0,0 +1,142 @@
+import assert from 'assert';
+import { PrismaClient } from '@prisma/client';
+import { campaignKeywordService } from '../src/services/campaignKeywords';
+import { keywordNormalizationService } from '../src/services/keywordNormalization';
+import { createTestCampaigns } from './testHelpers';
+
+const prisma = new PrismaClient();
+
+const SITE = 'sc-domain:keyword-normalization.test';
+const FULLWIDTH = 'ｒｕｎｎｉｎｇ shoes';
+const TOO_LONG = 'x'.repeat(200);
+
+/**
+ * Check the keyword normalization that follows the campaign keyword
+ * migration, and keyword sync against the binary keyword collation:
+ * keywords only MySQL could lowercase are finished with NFKC and merged,
+ * over-long legacy keywords are reported, site keyword rows are merged
+ * without losing days, and keywords that differ only by accents are kept
+ * apart. Creates and deletes its own workspace.
+ *
+ * Usage: npx ts-node scripts/testKeywordNormalization.ts
+ */
+async function testKeywordNormalization() {
+  const { campaigns, cleanup } = await createTestCampaigns(prisma, 'keywords', [SITE]);
+  const [campaign] = campaigns;
+
+  try {
+    // The state the migration leaves: a legacy list and its keywords as
+    // SQL normalizes them
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { legacyKeywords: `Running  Shoes\n${FULLWIDTH}\nCafé\n${TOO_LONG}\n` },
+    });
+    await prisma.campaignKeyword.createMany({
+      data: ['running shoes', FULLWIDTH, 'café'].map((keyword) => ({
+        campaignId: campaign.id,
+        keyword,
+        addedAt: campaign.createdAt,
+      })),
+    });
+
+    // Stats stored under both spellings, on different days
+    const analytics = await prisma.searchConsoleKeywordAnalytics.create({
+      data: { siteUrl: SITE },
+    });
+    const days = [new Date(Date.UTC(2025, 0, 1)), new Date(Date.UTC(2025, 0, 2))];
+    for (const [index, keyword] of ['running shoes', FULLWIDTH].entries()) {
+      await prisma.searchConsoleKeyword.create({
+        data: {
+          analyticsId: analytics.id,
+          keyword,
+          initialPosition: 0,
+          dailyStats: {
+            create: {
+              date: days[index],
+              averageRank: 5,
+              impressions: 100,
+              clicks: 10,
+              ctr: 10,
+              topRankingPageUrl: 'https://keyword-normalization.test/shoes',
+            },
+          },
+        },
+      });
+    }
+
+    const campaignResult = await keywordNormalizationService.normalizeCampaignKeywords([
+      campaign.id,
+    ]);
+    assert.deepStrictEqual(
+      (await campaignKeywordService.getActiveKeywords(campaign.id)).sort(),
+      ['café', 'running shoes'],
+      'NFKC should merge the full-width keyword into its ASCII spelling'
+    );
+    assert.strictEqual(campaignResult.merged, 1);
+    assert.deepStrictEqual(campaignResult.tooLong, [
+      { campaignId: campaign.id, keyword: TOO_LONG },
+    ]);
+    const { legacyKeywords } = await prisma.campaign.findUniqueOrThrow({
+      where: { id: campaign.id },
+    });
+    assert.ok(legacyKeywords, 'a list with an over-long keyword should be kept');
+    console.log('✓ campaign keywords are merged and over-long keywords reported');
+
+    const siteResult = await keywordNormalizationService.normalizeSiteKeywords([SITE]);
+    assert.strictEqual(siteResult.merged, 1);
+    const siteKeywords = await prisma.searchConsoleKeyword.findMany({
+      where: { analyticsId: analytics.id },
+      include: { dailyStats: true },
+    });
+    assert.deepStrictEqual(
+      siteKeywords.map((keyword) => keyword.keyword),
+      ['running shoes']
+    );
+    assert.strictEqual(
+      siteKeywords[0].dailyStats.length,
+      2,
+      'the merged keyword should keep the days of both rows'
+    );
+    console.log('✓ site keyword rows are merged without losing days');
+
+    // Running again changes nothing
+    const again = await keywordNormalizationService.normalizeCampaignKeywords([campaign.id]);
+    assert.strictEqual(again.renamed + again.merged + again.imported, 0);
+    console.log('✓ normalization can run again');
+
+    // Accents are significant under the binary collation, so both spellings
+    // are separate keywords instead of a unique constraint error
+    const sync = await campaignKeywordService.syncKeywords(campaign.id, [
+      'Cafe',
+      'café',
+      'CAFÉ',
+    ]);
+    assert.deepStrictEqual(sync, { added: ['cafe'], removed: ['running shoes'] });
+    assert.deepStrictEqual(
+      (await campaignKeywordService.getActiveKeywords(campaign.id)).sort(),
+      ['cafe', 'café']
+    );
+    console.log('✓ sync keeps keywords that differ by accents apart');
+
+    // Removing a keyword keeps it, so it can be restored
+    const restore = await campaignKeywordService.syncKeywords(campaign.id, [
+      'cafe',
+      'café',
+      ' Running Shoes ',
+    ]);
+    assert.deepStrictEqual(restore, { added: ['running shoes'], removed: [] });
+    const restored = await prisma.campaignKeyword.findFirstOrThrow({
+      where: { campaignId: campaign.id, keyword: 'running shoes' },
+    });
+    assert.strictEqual(restored.removedAt, null);
+    console.log('✓ removed keywords are restored when listed again');
+  } catch (error) {
+    console.error('❌ Keyword normalization test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await cleanup();
+    await prisma.$disconnect();
+  }
+}
+
+testKeywordNormalization();
@@ -0,0 +1,83 @@
+import assert from 'assert';
+import { PrismaClient } from '@prisma/client';
+import { createSession, hashPassword, rotateRefreshToken } from '../src/utils/auth';
+
+const prisma = new PrismaClient();
+
+/**
+ * Check refresh token rotation against the database: a token can be used
+ * once, concurrent refreshes with one token yield a single new pair, and
+ * presenting any retired token, however many rotations old, revokes the
+ * session. Creates and deletes its own user.
+ *
+ * Usage: npx ts-node scripts/testRefreshTokenRotation.ts
+ */
+async function testRefreshTokenRotation() {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+  const user = await prisma.user.create({
+    data: {
+      email: `refresh-test-${Date.now()}@example.com`,
+      password: await hashPassword('refresh-test'),
+      status: 'ACTIVE',
+    },
+  });
+
+  try {
+    // Rotation retires the presented token
+    const first = await createSession(user.id);
+    const second = await rotateRefreshToken(first.refreshToken);
+    assert.ok(second, 'first refresh should succeed');
+    assert.strictEqual(second.sessionId, first.sessionId);
+    console.log('✓ refresh issues a new pair for the same session');
+
+    // Concurrent refreshes with the same token: only one may win
+    const results = await Promise.all([
+      rotateRefreshToken(second.refreshToken),
+      rotateRefreshToken(second.refreshToken),
+    ]);
+    assert.strictEqual(
+      results.filter(Boolean).length,
+      1,
+      'exactly one concurrent refresh should succeed'
+    );
+    const session = await prisma.userSession.findUniqueOrThrow({
+      where: { id: first.sessionId },
+    });
+    assert.ok(session.revokedAt, 'the losing refresh should revoke the session');
+    console.log('✓ concurrent refreshes yield one pair and revoke the session');
+
+    // Reusing a retired token revokes the session
+    const other = await createSession(user.id);
+    const rotated = await rotateRefreshToken(other.refreshToken);
+    assert.ok(rotated);
+    assert.strictEqual(await rotateRefreshToken(other.refreshToken), null);
+    assert.strictEqual(
+      await rotateRefreshToken(rotated.refreshToken),
+      null,
+      'the current token should stop working once reuse is detected'
+    );
+    console.log('✓ reusing a retired token revokes the session');
+
+    // Tokens retired several rotations ago are still recognised
+    const older = await createSession(user.id);
+    const newer = await rotateRefreshToken(older.refreshToken);
+    assert.ok(newer);
+    const newest = await rotateRefreshToken(newer.refreshToken);
+    assert.ok(newest);
+    assert.strictEqual(await rotateRefreshToken(older.refreshToken), null);
+    const revoked = await prisma.userSession.findUniqueOrThrow({
+      where: { id: older.sessionId },
+    });
+    assert.ok(revoked.revokedAt, 'an old retired token should revoke the session');
+    assert.strictEqual(await rotateRefreshToken(newest.refreshToken), null);
+    console.log('✓ reusing a token retired two rotations ago revokes the session');
+  } catch (error) {
+    console.error('❌ Refresh token rotation test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.user.delete({ where: { id: user.id } });
+    await prisma.$disconnect();
+  }
+}
+
+testRefreshTokenRotation();
@@ -1,7 +1,16 @@
 import express from 'express';
-import { google } from 'googleapis';
-import { PrismaClient } from '@prisma/client';
-import jwt from 'jsonwebtoken';
+import { PrismaClient, User } from '@prisma/client';
+import { getUserFromToken } from '../utils/auth';
+import { resolveWorkspaceRole } from '../trpc/trpc-context';
+import {
+  createGoogleOAuthUrl,
+  createGoogleOAuthClient,
+  recordGoogleOAuthCallback,
+  GoogleOAuthFlowError,
+  GoogleOAuthErrorCode,
+} from '../utils/googleOAuthState';
+import { decryptSecret, encryptSecret } from '../utils/tokenEncryption';
+import { googleAccountHealthService } from '../services/googleAccountHealth';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -13,24 +22,13 @@ if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
   );
 }
 
-// Google OAuth configuration
-const oauth2Client = new google.auth.OAuth2(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  process.env.GOOGLE_REDIRECT_URI ||
-    'http://localhost:3001/auth/google/callback'
-);
-
-// Scopes needed for Google Search Console API
-const SCOPES = [
-  'https://www.googleapis.com/auth/webmasters',
-  'https://www.googleapis.com/auth/webmasters.readonly',
-  'https://www.googleapis.com/auth/userinfo.email',
-  'https://www.googleapis.com/auth/userinfo.profile',
-];
-
-// Middleware to verify admin token
-const verifyAdminToken = async (
+// Request that passed verifyUserToken, with the account fields it loads
+interface AuthenticatedRequest extends express.Request {
+  user: Pick<User, 'id' | 'email' | 'role' | 'status'>;
+}
+
+// Middleware to verify the caller's token
+const verifyUserToken = async (
   req: express.Request,
   res: express.Response,
   next: express.NextFunction
@@ -41,25 +39,39 @@ const verifyAdminToken = async (
       return res.status(401).json({ error: 'No token provided' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-    });
-
-    if (!user || user.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Admin access required' });
+    const user = await getUserFromToken(token);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid token' });
     }
 
-    (req as any).user = user;
+    (req as AuthenticatedRequest).user = user;
     next();
   } catch (error) {
     return res.status(401).json({ error: 'Invalid token' });
   }
 };
 
-// Generate OAuth URL
-router.get('/google/url', verifyAdminToken, (req, res) => {
+// Google accounts belong to a workspace; only its admins may manage them
+const isWorkspaceAdmin = async (
+  user: AuthenticatedRequest['user'],
+  workspaceId: string
+) =>
+  (await resolveWorkspaceRole(user, workspaceId)) === 'ADMIN';
+
+// Generate OAuth URL for connecting an account to a workspace
+router.get('/google/url', verifyUserToken, async (req, res) => {
   try {
+    const workspaceId =
+      (req.query.workspaceId as string | undefined) ||
+      (req.headers['x-workspace-id'] as string | undefined);
+    if (!workspaceId) {
+      return res.status(400).json({ error: 'Workspace is required' });
+    }
+    const { user } = req as AuthenticatedRequest;
+    if (!(await isWorkspaceAdmin(user, workspaceId))) {
+      return res.status(403).json({ error: 'Workspace admin access required' });
+    }
+
     if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
       return res.status(500).json({
         error:
@@ -67,11 +79,7 @@ router.get('/google/url', verifyAdminToken, (req, res) => {
       });
     }
 
-    const authUrl = oauth2Client.generateAuthUrl({
-      access_type: 'offline',
-      scope: SCOPES,
-      prompt: 'consent', // Force consent to get refresh token
-    });
+    const authUrl = await createGoogleOAuthUrl(workspaceId, user.id);
 
     res.json({ authUrl });
   } catch (error) {
@@ -80,105 +88,90 @@ router.get('/google/url', verifyAdminToken, (req, res) => {
   }
 });
 
-// OAuth callback
+const frontendGoogleAccountsUrl = () =>
+  `${process.env.FRONTEND_URL || 'http://localhost:3000'}/google-accounts`;
+
+// OAuth callback. Google's redirect carries no session, so the code is only
+// stored against the state here; the frontend then finishes the flow with
+// googleAccounts.completeOAuth as the admin who started it.
 router.get('/google/callback', async (req, res) => {
+  const redirectWithError = (code: GoogleOAuthErrorCode) =>
+    res.redirect(`${frontendGoogleAccountsUrl()}?error=${code}`);
+
   try {
-    const { code, state } = req.query;
+    const { code, state, error } = req.query;
 
-    if (!code) {
-      return res.status(400).json({ error: 'Missing authorization code' });
+    if (error) {
+      return redirectWithError('oauth_denied');
     }
-
-    // State is optional for security, but we can use it if provided
-    // For now, we'll proceed without requiring state validation
-
-    // Exchange code for tokens
-    const { tokens } = await oauth2Client.getToken(code as string);
-
-    if (!tokens.access_token || !tokens.refresh_token) {
-      return res
-        .status(400)
-        .json({ error: 'Failed to get access and refresh tokens' });
+    if (typeof state !== 'string' || !state) {
+      return redirectWithError('invalid_state');
     }
-
-    // Get user info from Google
-    oauth2Client.setCredentials(tokens);
-    const oauth2 = google.oauth2({ version: 'v2', auth: oauth2Client });
-    const userInfo = await oauth2.userinfo.get();
-
-    // Check if account already exists
-    const existingAccount = await prisma.googleAccount.findUnique({
-      where: { email: userInfo.data.email! },
-    });
-
-    if (existingAccount) {
-      // Update existing account with new tokens
-      await prisma.googleAccount.update({
-        where: { id: existingAccount.id },
-        data: {
-          accessToken: tokens.access_token,
-          refreshToken: tokens.refresh_token,
-          expiresAt: new Date(tokens.expiry_date!),
-          isActive: true,
-        },
-      });
-    } else {
-      // Create new account
-      await prisma.googleAccount.create({
-        data: {
-          email: userInfo.data.email!,
-          accountName: userInfo.data.name || userInfo.data.email!,
-          accessToken: tokens.access_token,
-          refreshToken: tokens.refresh_token,
-          expiresAt: new Date(tokens.expiry_date!),
-          isActive: true,
-        },
-      });
+    if (typeof code !== 'string' || !code) {
+      return redirectWithError('missing_code');
     }
 
-    // Redirect to frontend with success
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    await recordGoogleOAuthCallback(state, code);
+
     res.redirect(
-      `${frontendUrl}/google-accounts?success=true&email=${userInfo.data.email}`
+      `${frontendGoogleAccountsUrl()}?oauth_state=${encodeURIComponent(state)}`
     );
   } catch (error) {
+    if (error instanceof GoogleOAuthFlowError) {
+      return redirectWithError(error.code);
+    }
     console.error('OAuth callback error:', error);
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    res.redirect(`${frontendUrl}/google-accounts?error=oauth_failed`);
+    redirectWithError('oauth_failed');
   }
 });
 
 // Refresh token endpoint
-router.post('/google/refresh', verifyAdminToken, async (req, res) => {
+router.post('/google/refresh', verifyUserToken, async (req, res) => {
   try {
+    const { user } = req as AuthenticatedRequest;
     const { accountId } = req.body;
 
     const account = await prisma.googleAccount.findUnique({
       where: { id: accountId },
     });
 
-    if (!account) {
+    if (!account || !(await isWorkspaceAdmin(user, account.workspaceId))) {
       return res.status(404).json({ error: 'Account not found' });
     }
+    if (!account.refreshToken) {
+      return res
+        .status(400)
+        .json({ error: 'Service accounts have no refresh token' });
+    }
 
     // Set credentials with refresh token
+    const oauth2Client = createGoogleOAuthClient();
     oauth2Client.setCredentials({
-      refresh_token: account.refreshToken,
+      refresh_token: decryptSecret(account.refreshToken),
     });
 
     // Refresh the token
-    const { credentials } = await oauth2Client.refreshAccessToken();
+    let credentials;
+    try {
+      ({ credentials } = await oauth2Client.refreshAccessToken());
+    } catch (error) {
+      await googleAccountHealthService.recordFailure(account, error);
+      throw error;
+    }
 
     // Update account with new tokens
     await prisma.googleAccount.update({
       where: { id: accountId },
       data: {
-        accessToken: credentials.access_token!,
-        refreshToken: credentials.refresh_token || account.refreshToken,
+        accessToken: encryptSecret(credentials.access_token!),
+        refreshToken: credentials.refresh_token
+          ? encryptSecret(credentials.refresh_token)
+          : account.refreshToken,
         expiresAt: new Date(credentials.expiry_date!),
         isActive: true,
       },
     });
+    await googleAccountHealthService.recordSuccess(account.id);
 
     res.json({ success: true, message: 'Token refreshed successfully' });
   } catch (error) {
@@ -1,11 +1,21 @@
 import { PrismaClient } from '@prisma/client';
-import moment from 'moment';
+import moment from 'moment-timezone';
 import { Campaign, GoogleAccount } from '@prisma/client';
-import { SearchConsoleService } from './searchConsole';
+import { searchConsoleService } from './searchConsole';
 import { webmasters_v3 } from 'googleapis';
+import {
+  SearchConsoleSegment,
+  describeSegment,
+  getCampaignSegments,
+  isDefaultSegment,
+  segmentQuery,
+  segmentSupportsKeywords,
+  segmentColumns,
+} from './searchConsoleSegments';
+import { campaignKeywordService, normalizeKeyword } from './campaignKeywords';
+import { hashPage } from './keywordPageHistory';
 
 const prisma = new PrismaClient();
-const searchConsoleService = new SearchConsoleService();
 
 const debugLog = (message: string) => {
   const timestamp = new Date().toISOString();
@@ -29,6 +39,13 @@ const analyticsLogger = (level: LogLevel, message: string) => {
   console.log(`[${timestamp}] [${level}] ${message}`);
 };
 
+/**
+ * Search Console's CTR (a fraction) as the percentage stored everywhere,
+ * rounded like the traffic tables
+ */
+const ctrPercentage = (ctr: number | null | undefined): number =>
+  parseFloat(((ctr || 0) * 100).toFixed(2));
+
 export class AnalyticsService {
   /**
    * Log a summary of all keyword metrics for the current month
@@ -103,60 +120,143 @@ export class AnalyticsService {
   }
 
   /**
-   * Fetch and save historical daily data for a campaign
-   * This is used when creating a new campaign or updating keywords
+   * Fetch and save the site traffic and keyword data (every ranking page)
+   * of a range of days for a campaign, overwriting what is stored for them.
+   * Each request covers the whole range; the days are then saved one by
+   * one and onDaySaved is called after each, also for days without rows.
+   * Backfill jobs checkpoint each day with this, so unlike the other fetch
+   * methods errors are thrown instead of logged.
    */
-  async fetchHistoricalDailyData({
-    campaignId,
+  async fetchAndSaveDays({
+    campaign,
+    googleAccount,
+    startDate,
+    endDate,
     waitForAllData,
+    onDaySaved,
   }: {
-    campaignId: string;
+    campaign: Campaign;
+    googleAccount: GoogleAccount;
+    startDate: Date;
+    endDate: Date;
     waitForAllData: boolean;
-  }): Promise<boolean> {
-    try {
-      const campaign = await prisma.campaign.findUnique({
-        where: { id: campaignId },
-      });
-
-      if (!campaign) {
-        throw new Error('Campaign not found');
-      }
-
-      const googleAccount = await prisma.googleAccount.findUnique({
-        where: { id: campaign.googleAccountId },
-      });
-      if (!googleAccount) {
-        throw new Error('Google account not found');
-      }
+    onDaySaved?: (date: Date) => Promise<void>;
+  }): Promise<void> {
+    // Search Console days are Pacific time, so the range is too
+    const startAt = moment.tz(
+      moment.utc(startDate).format('YYYY-MM-DD'),
+      'America/Los_Angeles'
+    );
+    const endAt = moment
+      .tz(moment.utc(endDate).format('YYYY-MM-DD'), 'America/Los_Angeles')
+      .endOf('day');
+
+    const siteRows = await searchConsoleService.getAnalytics({
+      campaign,
+      googleAccount,
+      waitForAllData,
+      startAt,
+      endAt,
+      dimensions: ['date'],
+      exactUrlMatch: false,
+      topRankingPageUrl: undefined,
+      priority: 'background',
+    });
 
-      // Calculate date range for historical data
-      // Start from campaign starting date, end at 3 days ago (respecting delay)
-      const campaignStartDate = moment(campaign.startingDate);
-      const threeDaysAgo = moment().subtract(3, 'days');
+    const keywords = await this.getCampaignKeywords(campaign);
+    const keywordRows =
+      keywords.length > 0
+        ? await searchConsoleService.getAnalytics({
+          campaign,
+          googleAccount,
+          waitForAllData,
+          startAt,
+          endAt,
+          dimensions: ['date', 'query', 'page'],
+          exactUrlMatch: false,
+          topRankingPageUrl: undefined,
+          priority: 'background',
+        })
+        : [];
+    const filteredRows = this.filterKeywordRows(
+      (keywordRows || []).filter((row) => row.keys && row.keys.length >= 3),
+      keywords,
+      1
+    );
 
-      // Don't fetch data beyond 3 days ago
-      const endDate = threeDaysAgo.isBefore(campaignStartDate)
-        ? campaignStartDate
-        : threeDaysAgo;
+    const siteUrl = campaign.searchConsoleSite;
+    const trafficAnalytics =
+      (await prisma.searchConsoleTrafficAnalytics.findFirst({
+        where: { siteUrl },
+      })) ||
+      (await prisma.searchConsoleTrafficAnalytics.create({
+        data: { siteUrl },
+      }));
+
+    for (
+      const day = moment.utc(startDate).startOf('day');
+      day.isSameOrBefore(moment.utc(endDate), 'day');
+      day.add(1, 'day')
+    ) {
+      const dateKey = day.format('YYYY-MM-DD');
+      const rowDate = day.toDate();
+
+      for (const row of (siteRows || []).filter((row) => row.keys?.[0] === dateKey)) {
+        const clicks = row.clicks || 0;
+        const impressions = row.impressions || 0;
+        const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
+        const data = {
+          clicks,
+          impressions,
+          ctr: parseFloat(ctr.toFixed(2)),
+          position: row.position || 0,
+        };
 
-      // Fetch historical daily data month by month to avoid API limits
-      let currentDate = campaignStartDate.clone();
+        await prisma.searchConsoleTrafficDaily.upsert({
+          where: {
+            analyticsId_date: { analyticsId: trafficAnalytics.id, date: rowDate },
+          },
+          update: data,
+          create: { analyticsId: trafficAnalytics.id, date: rowDate, ...data },
+        });
+      }
 
-      while (currentDate.isSameOrBefore(endDate)) {
-        const monthStart = currentDate.clone().startOf('month');
-        const monthEnd = currentDate.clone().endOf('month');
+      const dayRows = filteredRows.filter((row) => row.keys?.[0] === dateKey);
+      if (dayRows.length > 0) {
+        await this.upsertDailyKeywordRows(dayRows, campaign);
+      }
 
-        // Don't go beyond the end date
-        const actualEnd = monthEnd.isAfter(endDate) ? endDate : monthEnd;
+      await onDaySaved?.(rowDate);
+    }
+  }
 
-        // Move to next month
-        currentDate.add(1, 'month').startOf('month');
-      }
+  /**
+   * Fetch the 7 days before the campaign's starting date and save each
+   * keyword's initial position
+   */
+  async fetchInitialPositions({
+    campaign,
+    googleAccount,
+    waitForAllData,
+  }: {
+    campaign: Campaign;
+    googleAccount: GoogleAccount;
+    waitForAllData: boolean;
+  }): Promise<void> {
+    const campaignStartDate = moment(campaign.startingDate);
+    const initialPositionData = await this.fetchDailyKeywordDataWithDimensions({
+      campaign,
+      googleAccount,
+      startAt: campaignStartDate.clone().subtract(7, 'days'),
+      endAt: campaignStartDate.clone().subtract(1, 'day'),
+      waitForAllData,
+    });
 
-      return true;
-    } catch (error) {
-      console.error('Error fetching and saving historical daily data:', error);
-      throw new Error(`Failed to fetch historical daily data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (initialPositionData) {
+      await this.saveInitialPositionData(
+        this.aggregateDataByDateAndQuery(initialPositionData),
+        campaign
+      );
     }
   }
 
@@ -315,7 +415,7 @@ export class AnalyticsService {
         const hasCompleteMonthData = await this.checkIfMonthHasCompleteData(
           monthStart,
           actualEnd,
-          this.parseCampaignKeywords(campaign),
+          await this.getCampaignKeywords(campaign),
           campaign.searchConsoleSite
         );
 
@@ -347,33 +447,412 @@ export class AnalyticsService {
       }
 
       // Also fetch 7 days before campaign start date for initial positions
-      const initialPositionStartDate = campaignStartDate
-        .clone()
-        .subtract(7, 'days');
-      const initialPositionEndDate = campaignStartDate
-        .clone()
-        .subtract(1, 'day');
+      await this.fetchInitialPositions({
+        campaign,
+        googleAccount,
+        waitForAllData,
+      });
 
-      const initialPositionData =
-        await this.fetchDailyKeywordDataWithDimensions({
+      // Compute monthly metrics for all months that have daily data
+      await this.computeMonthlyMetricsForCampaign(campaignId);
+
+      return true;
+    } catch (error) {
+      console.error('Error fetching daily keyword data:', error);
+      throw new Error(`Failed to fetch daily keyword data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fill in clicks and CTR on the campaign's daily keyword stats stored
+   * before they were captured, by fetching those days again. Search Console
+   * keeps 16 months of data, so older rows keep null clicks. Returns how
+   * many rows still have no clicks.
+   */
+  async backfillDailyClicks({
+    campaignId,
+    waitForAllData,
+  }: {
+    campaignId: string;
+    waitForAllData: boolean;
+  }): Promise<{ months: number; remaining: number }> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: { googleAccount: true },
+    });
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+    if (!campaign.googleAccount) {
+      throw new Error('Google account not found');
+    }
+
+    const keywords = await this.getCampaignKeywords(campaign);
+    const missingWhere = {
+      clicks: null,
+      keyword: {
+        analytics: { siteUrl: campaign.searchConsoleSite },
+        keyword: { in: keywords },
+      },
+    };
+    const missing = await prisma.searchConsoleKeywordDailyStat.findMany({
+      where: missingWhere,
+      select: { date: true },
+      distinct: ['date'],
+      orderBy: { date: 'asc' },
+    });
+
+    // Refetch each month with missing days from its first to its last one
+    const ranges = new Map<string, { startAt: moment.Moment; endAt: moment.Moment }>();
+    for (const { date } of missing) {
+      const day = moment.utc(date);
+      const monthKey = day.format('YYYY-MM');
+      const range = ranges.get(monthKey);
+      if (range) {
+        range.endAt = day.clone().endOf('day');
+      } else {
+        ranges.set(monthKey, { startAt: day.clone(), endAt: day.clone().endOf('day') });
+      }
+    }
+
+    for (const { startAt, endAt } of ranges.values()) {
+      const rows = await this.fetchDailyKeywordDataWithDimensions({
+        campaign,
+        googleAccount: campaign.googleAccount,
+        startAt,
+        endAt,
+        waitForAllData,
+      });
+      if (rows) {
+        await this.saveDailyKeywordDataWithDimensions(rows, campaign);
+      }
+    }
+
+    const remaining = await prisma.searchConsoleKeywordDailyStat.count({
+      where: missingWhere,
+    });
+    return { months: ranges.size, remaining };
+  }
+
+  /**
+   * Fetch and save daily site traffic and keyword stats for each of the
+   * campaign's configured segments (search type, device, country). The
+   * default segment is stored by fetchDailySiteTraffic/fetchDailyKeywordData
+   * and skipped here. Site traffic continues from the segment's last stored
+   * day and keyword stats from each keyword's.
+   */
+  async fetchSegmentedDailyData({
+    campaignId,
+    waitForAllData,
+  }: {
+    campaignId: string;
+    waitForAllData: boolean;
+  }): Promise<boolean> {
+    try {
+      const campaign = await prisma.campaign.findUnique({
+        where: { id: campaignId },
+      });
+
+      if (!campaign) {
+        throw new Error('Campaign not found');
+      }
+
+      const segments = getCampaignSegments(campaign).filter(
+        (segment) => !isDefaultSegment(segment)
+      );
+      if (segments.length === 0) {
+        return true;
+      }
+
+      const googleAccount = await prisma.googleAccount.findUnique({
+        where: { id: campaign.googleAccountId },
+      });
+      if (!googleAccount) {
+        throw new Error('Google account not found');
+      }
+
+      const campaignStartDate = moment(campaign.startingDate);
+      const threeDaysAgo = moment().subtract(3, 'days');
+      const endDate = threeDaysAgo.isBefore(campaignStartDate)
+        ? campaignStartDate
+        : threeDaysAgo;
+
+      for (const segment of segments) {
+        debugLog(
+          `Fetching segment ${describeSegment(segment)} for campaign ${campaign.id}`
+        );
+
+        await this.fetchSegmentSiteTraffic({
           campaign,
           googleAccount,
-          startAt: initialPositionStartDate,
-          endAt: initialPositionEndDate,
+          segment,
+          startAt: campaignStartDate,
+          endAt: endDate,
           waitForAllData,
         });
 
-      if (initialPositionData) {
-        await this.saveInitialPositionData(initialPositionData, campaign);
+        if (segmentSupportsKeywords(segment)) {
+          await this.fetchSegmentKeywordData({
+            campaign,
+            googleAccount,
+            segment,
+            startAt: campaignStartDate,
+            endAt: endDate,
+            waitForAllData,
+          });
+        }
       }
 
-      // Compute monthly metrics for all months that have daily data
-      await this.computeMonthlyMetricsForCampaign(campaignId);
-
       return true;
     } catch (error) {
-      console.error('Error fetching daily keyword data:', error);
-      throw new Error(`Failed to fetch daily keyword data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error fetching segmented daily data:', error);
+      throw new Error(`Failed to fetch segmented daily data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fetch and save daily site traffic (dimensions: ['date']) for one segment
+   */
+  private async fetchSegmentSiteTraffic({
+    campaign,
+    googleAccount,
+    segment,
+    startAt,
+    endAt,
+    waitForAllData,
+  }: {
+    campaign: Campaign;
+    googleAccount: GoogleAccount;
+    segment: SearchConsoleSegment;
+    startAt: moment.Moment;
+    endAt: moment.Moment;
+    waitForAllData: boolean;
+  }): Promise<void> {
+    const siteUrl = campaign.searchConsoleSite;
+
+    let trafficAnalytics = await prisma.searchConsoleTrafficAnalytics.findFirst(
+      { where: { siteUrl } }
+    );
+    if (!trafficAnalytics) {
+      trafficAnalytics = await prisma.searchConsoleTrafficAnalytics.create({
+        data: { siteUrl },
+      });
+    }
+
+    const lastRecord = await prisma.searchConsoleTrafficSegmentDaily.findFirst({
+      where: { analyticsId: trafficAnalytics.id, ...segmentColumns(segment) },
+      orderBy: { date: 'desc' },
+      select: { date: true },
+    });
+    const fetchFrom = lastRecord
+      ? moment.max(startAt, moment.utc(lastRecord.date).add(1, 'day'))
+      : startAt;
+    if (fetchFrom.isAfter(endAt, 'day')) {
+      return;
+    }
+
+    const analytics = await searchConsoleService.getAnalytics({
+      campaign,
+      googleAccount,
+      waitForAllData,
+      startAt: fetchFrom,
+      endAt,
+      dimensions: ['date'],
+      priority: 'background',
+      ...segmentQuery(segment),
+    });
+
+    for (const row of analytics || []) {
+      const dateKey = row.keys?.[0];
+      if (!dateKey) continue;
+
+      const clicks = row.clicks || 0;
+      const impressions = row.impressions || 0;
+      const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
+      const date = moment.utc(dateKey, 'YYYY-MM-DD').startOf('day').toDate();
+      const data = {
+        clicks,
+        impressions,
+        ctr: parseFloat(ctr.toFixed(2)),
+        position: row.position || 0,
+      };
+
+      await prisma.searchConsoleTrafficSegmentDaily.upsert({
+        where: {
+          analyticsId_searchType_device_country_date: {
+            analyticsId: trafficAnalytics.id,
+            ...segmentColumns(segment),
+            date,
+          },
+        },
+        update: data,
+        create: {
+          analyticsId: trafficAnalytics.id,
+          ...segmentColumns(segment),
+          date,
+          ...data,
+        },
+      });
+    }
+  }
+
+  /**
+   * Fetch and save daily keyword stats (dimensions: ['date', 'query',
+   * 'page']) for one segment, a month at a time. Like the default keyword
+   * stats, each day keeps the metrics of the keyword's top page by
+   * impressions.
+   */
+  private async fetchSegmentKeywordData({
+    campaign,
+    googleAccount,
+    segment,
+    startAt,
+    endAt,
+    waitForAllData,
+  }: {
+    campaign: Campaign;
+    googleAccount: GoogleAccount;
+    segment: SearchConsoleSegment;
+    startAt: moment.Moment;
+    endAt: moment.Moment;
+    waitForAllData: boolean;
+  }): Promise<void> {
+    const keywords = await this.getCampaignKeywords(campaign);
+    if (keywords.length === 0) {
+      return;
+    }
+
+    const siteUrl = campaign.searchConsoleSite;
+    let analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
+      where: { siteUrl },
+    });
+    if (!analytics) {
+      analytics = await prisma.searchConsoleKeywordAnalytics.create({
+        data: { siteUrl },
+      });
+    }
+
+    // Each keyword continues from its own last stored day, so keywords
+    // added since the last run are fetched from the campaign start. A
+    // keyword without rows that was already tracked during an earlier run
+    // didn't rank, and continues with the others.
+    const keywordRecords = await prisma.searchConsoleKeyword.findMany({
+      where: { analyticsId: analytics.id, keyword: { in: keywords } },
+      select: { id: true, keyword: true },
+    });
+    const lastDates = await prisma.searchConsoleKeywordSegmentDailyStat.groupBy({
+      by: ['keywordId'],
+      where: {
+        keywordId: { in: keywordRecords.map((record) => record.id) },
+        ...segmentColumns(segment),
+      },
+      _max: { date: true },
+    });
+    const lastRun = await prisma.searchConsoleKeywordSegmentDailyStat.aggregate({
+      where: { keyword: { analyticsId: analytics.id }, ...segmentColumns(segment) },
+      _max: { date: true, updatedAt: true },
+    });
+    const addedAt = new Map(
+      (
+        await prisma.campaignKeyword.findMany({
+          where: { campaignId: campaign.id, removedAt: null },
+          select: { keyword: true, addedAt: true },
+        })
+      ).map((record) => [record.keyword, record.addedAt])
+    );
+
+    const keywordIds = new Map(keywordRecords.map((record) => [record.keyword, record.id]));
+    const lastDateById = new Map(
+      lastDates.map((lastDate) => [lastDate.keywordId, lastDate._max.date])
+    );
+    const resumeFrom = new Map<string, moment.Moment>();
+    for (const keyword of keywords) {
+      const keywordId = keywordIds.get(keyword);
+      const lastDate = keywordId ? lastDateById.get(keywordId) : null;
+      const trackedInLastRun =
+        lastRun._max.updatedAt &&
+        (addedAt.get(keyword) || new Date()) < lastRun._max.updatedAt;
+      if (lastDate) {
+        resumeFrom.set(keyword, moment.max(startAt, moment.utc(lastDate).add(1, 'day')));
+      } else if (trackedInLastRun && lastRun._max.date) {
+        resumeFrom.set(
+          keyword,
+          moment.max(startAt, moment.utc(lastRun._max.date).add(1, 'day'))
+        );
+      } else {
+        resumeFrom.set(keyword, startAt);
+      }
+    }
+    const fetchFrom = moment.min([...resumeFrom.values()]);
+
+    const getKeywordId = async (keyword: string) => {
+      let keywordId = keywordIds.get(keyword);
+      if (!keywordId) {
+        const keywordRecord = await prisma.searchConsoleKeyword.upsert({
+          where: {
+            analyticsId_keyword: { analyticsId: analytics.id, keyword },
+          },
+          update: {},
+          create: { analyticsId: analytics.id, keyword, initialPosition: 0 },
+        });
+        keywordId = keywordRecord.id;
+        keywordIds.set(keyword, keywordId);
+      }
+      return keywordId;
+    };
+
+    const currentDate = fetchFrom.clone();
+    while (currentDate.isSameOrBefore(endAt, 'day')) {
+      const monthEnd = moment.min(currentDate.clone().endOf('month'), endAt);
+
+      const rows = await searchConsoleService.getAnalytics({
+        campaign,
+        googleAccount,
+        waitForAllData,
+        startAt: currentDate.clone(),
+        endAt: monthEnd,
+        dimensions: ['date', 'query', 'page'],
+        priority: 'background',
+        ...segmentQuery(segment),
+      });
+
+      const campaignRows = this.filterKeywordRows(
+        (rows || []).filter((row) => row.keys && row.keys.length >= 3),
+        keywords,
+        1
+      );
+
+      for (const row of this.aggregateDataByDateAndQuery(campaignRows)) {
+        const [dateKey, query, page] = row.keys!;
+        // Days the keyword already has are kept as stored
+        const day = moment.utc(dateKey, 'YYYY-MM-DD').startOf('day');
+        if (day.isBefore(resumeFrom.get(query) || fetchFrom, 'day')) {
+          continue;
+        }
+        const keywordId = await getKeywordId(query);
+        const date = day.toDate();
+        const data = {
+          averageRank: row.position || 0,
+          impressions: row.impressions || 0,
+          clicks: row.clicks || 0,
+          ctr: ctrPercentage(row.ctr),
+          topRankingPageUrl: page || '',
+        };
+
+        await prisma.searchConsoleKeywordSegmentDailyStat.upsert({
+          where: {
+            keywordId_searchType_device_country_date: {
+              keywordId,
+              ...segmentColumns(segment),
+              date,
+            },
+          },
+          update: data,
+          create: { keywordId, ...segmentColumns(segment), date, ...data },
+        });
+      }
+
+      currentDate.add(1, 'month').startOf('month');
     }
   }
 
@@ -493,7 +972,7 @@ export class AnalyticsService {
       }
 
       // Get all keywords from the campaign
-      const keywords = this.parseCampaignKeywords(campaign);
+      const keywords = await this.getCampaignKeywords(campaign);
 
       // Process each keyword for this month
       for (const keyword of keywords) {
@@ -583,7 +1062,7 @@ export class AnalyticsService {
       }
 
       // Get all keywords from the campaign
-      const keywords = this.parseCampaignKeywords(campaign);
+      const keywords = await this.getCampaignKeywords(campaign);
 
       // Process each keyword for initial positions
       for (const keyword of keywords) {
@@ -655,15 +1134,17 @@ export class AnalyticsService {
         dimensions: ['date', 'query', 'page'],
         exactUrlMatch: false, // Don't filter by exact URL match
         topRankingPageUrl: undefined, // No specific top ranking page URL
+        priority: 'background',
       });
       if (!topRankingPageAnalytics) {
         return null;
       }
 
       // Filter to only include our target keywords
-      const filteredAnalytics = topRankingPageAnalytics.filter(
-        ({ keys }) =>
-          keys && keys.length >= 3 && keywords.includes(keys[1] as string)
+      const filteredAnalytics = this.filterKeywordRows(
+        topRankingPageAnalytics.filter(({ keys }) => keys && keys.length >= 3),
+        keywords,
+        1
       );
 
       // Group by keyword and aggregate impressions by page across all dates
@@ -746,11 +1227,11 @@ export class AnalyticsService {
         dimensions: ['query'],
         exactUrlMatch: false, // Don't filter by exact URL match
         topRankingPageUrl: undefined, // No specific top ranking page URL
+        priority: 'background',
       });
 
-      const filteredAnalytics = analytics?.filter(({ keys }) =>
-        keywords.includes(keys?.[0] as string)
-      );
+      const filteredAnalytics =
+        analytics && this.filterKeywordRows(analytics, keywords, 0);
 
       if (!filteredAnalytics) {
         return null;
@@ -1095,7 +1576,7 @@ export class AnalyticsService {
       }
 
       // Get all keywords from the campaign
-      const keywords = this.parseCampaignKeywords(campaign);
+      const keywords = await this.getCampaignKeywords(campaign);
 
       // Process each keyword
       for (const keyword of keywords) {
@@ -1280,6 +1761,7 @@ export class AnalyticsService {
         dimensions: [], // No dimensions for overall site traffic
         exactUrlMatch: false, // Don't filter by exact URL match
         topRankingPageUrl: undefined, // No specific top ranking page URL
+        priority: 'background',
       });
 
       if (!analytics || analytics.length === 0) {
@@ -1346,6 +1828,7 @@ export class AnalyticsService {
         dimensions: ['date'], // Include date dimension for daily breakdown
         exactUrlMatch: false, // Don't filter by exact URL match
         topRankingPageUrl: undefined, // No specific top ranking page URL
+        priority: 'background',
       });
 
       if (!analytics || analytics.length === 0) {
@@ -1409,6 +1892,7 @@ export class AnalyticsService {
         dimensions: ['date'], // Site-wide traffic by date
         exactUrlMatch: false, // Don't filter by exact URL match
         topRankingPageUrl: undefined, // No specific top ranking page URL
+        priority: 'background',
       });
 
       if (!analytics || analytics.length === 0) {
@@ -1446,6 +1930,7 @@ export class AnalyticsService {
   /**
    * Fetch daily keyword data with dimensions (date, query, page)
    * This method respects Google Search Console's dimensions and aggregation methodology
+   * Returns a row per page; aggregateDataByDateAndQuery picks each day's top page
    *
    * Date range logic:
    * - Current month: Fetch data from the first day of the current month up to today
@@ -1469,7 +1954,7 @@ export class AnalyticsService {
     waitForAllData: boolean;
   }): Promise<webmasters_v3.Schema$ApiDataRow[] | null> {
     try {
-      const keywords = this.parseCampaignKeywords(campaign);
+      const keywords = await this.getCampaignKeywords(campaign);
 
       if (keywords.length === 0) {
         return null;
@@ -1503,6 +1988,7 @@ export class AnalyticsService {
         waitForAllData,
         exactUrlMatch: false,
         topRankingPageUrl: undefined, // No specific top ranking page URL
+        priority: 'background',
       });
 
       if (keywordAnalytics && keywordAnalytics.length > 0) {
@@ -1514,32 +2000,13 @@ export class AnalyticsService {
       }
 
       // Filter to only include our target keywords (should already be filtered by the API calls)
-      const filteredAnalytics = allAnalytics.filter((row) => {
-        if (row.keys && row.keys.length >= 3) {
-          const query = row.keys[1];
-          return keywords.includes(query);
-        }
-        return false;
-      });
-
-      // Group by date and query, then aggregate to get the page with most impressions
-      // This follows GSC's methodology for selecting top pages by impressions
-      const aggregatedData =
-        this.aggregateDataByDateAndQuery(filteredAnalytics);
-
-      // Store the top ranking pages for future reference in memory
-      // This will be used for exact URL matching in the UI
-      // We don't need to store this persistently as it's recalculated each time
-      const topRankingPageUrls: Record<string, string> = {};
-      aggregatedData.forEach((row) => {
-        if (row.keys && row.keys.length >= 3) {
-          const query = row.keys[1];
-          const page = row.keys[2];
-          topRankingPageUrls[query] = page;
-        }
-      });
+      const filteredAnalytics = this.filterKeywordRows(
+        allAnalytics.filter((row) => row.keys && row.keys.length >= 3),
+        keywords,
+        1
+      );
 
-      return aggregatedData;
+      return filteredAnalytics;
     } catch (error) {
       console.error(
         'Error fetching daily keyword data with dimensions:',
@@ -1767,91 +2234,155 @@ export class AnalyticsService {
   /**
    * Save daily keyword data with dimensions to database
    * This method saves data following Google Search Console's aggregation methodology
-   * and selects the top page by impressions for each keyword
+   * and selects the top page by impressions for each keyword. Every page's
+   * row is kept as well (saveKeywordPageDailyStats).
    */
   private async saveDailyKeywordDataWithDimensions(
     dailyKeywordData: webmasters_v3.Schema$ApiDataRow[],
     campaign: Campaign
   ): Promise<void> {
     try {
-      const siteUrl = campaign.searchConsoleSite;
+      await this.upsertDailyKeywordRows(dailyKeywordData, campaign);
+    } catch (error) {
+      console.error('Error saving daily keyword data with dimensions:', error);
+    }
+  }
 
-      // Find existing analytics record or create a new one
-      let analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
-        where: { siteUrl },
+  /**
+   * Upsert the daily keyword stats and page rows of per-page rows; errors
+   * are left to the caller
+   */
+  private async upsertDailyKeywordRows(
+    dailyKeywordData: webmasters_v3.Schema$ApiDataRow[],
+    campaign: Campaign
+  ): Promise<void> {
+    const siteUrl = campaign.searchConsoleSite;
+
+    // Find existing analytics record or create a new one
+    let analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
+      where: { siteUrl },
+    });
+
+    if (!analytics) {
+      analytics = await prisma.searchConsoleKeywordAnalytics.create({
+        data: { siteUrl },
       });
+    }
 
-      if (!analytics) {
-        analytics = await prisma.searchConsoleKeywordAnalytics.create({
-          data: { siteUrl },
-        });
-      }
+    // Get all keywords from the campaign
+    const keywords = await this.getCampaignKeywords(campaign);
 
-      // Get all keywords from the campaign
-      const keywords = this.parseCampaignKeywords(campaign);
+    // Process each row of data
+    for (const row of this.aggregateDataByDateAndQuery(dailyKeywordData)) {
+      if (!row.keys || row.keys.length < 3) continue; // Must have date, query, and page
 
-      // Process each row of data
-      for (const row of dailyKeywordData) {
-        if (!row.keys || row.keys.length < 3) continue; // Must have date, query, and page
+      const dateString = row.keys[0];
+      const query = normalizeKeyword(row.keys[1]);
+      const topPageUrl = row.keys[2]; // This is now the top page by impressions from aggregateDataByDateAndQuery
 
-        const dateString = row.keys[0];
-        const query = row.keys[1];
-        const topPageUrl = row.keys[2]; // This is now the top page by impressions from aggregateDataByDateAndQuery
+      // Only process data for our target keywords
+      if (!keywords.includes(query)) continue;
 
-        // Only process data for our target keywords
-        if (!keywords.includes(query)) continue;
+      // Find the keyword record or create it if it doesn't exist
+      let keywordRecord = await prisma.searchConsoleKeyword.findUnique({
+        where: {
+          analyticsId_keyword: {
+            analyticsId: analytics.id,
+            keyword: query,
+          },
+        },
+      });
 
-        // Find the keyword record or create it if it doesn't exist
-        let keywordRecord = await prisma.searchConsoleKeyword.findUnique({
-          where: {
-            analyticsId_keyword: {
-              analyticsId: analytics.id,
-              keyword: query,
-            },
+      if (!keywordRecord) {
+        keywordRecord = await prisma.searchConsoleKeyword.create({
+          data: {
+            analyticsId: analytics.id,
+            keyword: query,
+            initialPosition: 0,
           },
         });
+      }
 
-        if (!keywordRecord) {
-          keywordRecord = await prisma.searchConsoleKeyword.create({
-            data: {
-              analyticsId: analytics.id,
-              keyword: query,
-              initialPosition: 0,
-            },
-          });
-        }
-
-        const date = moment
-          .utc(dateString, 'YYYY-MM-DD')
-          .startOf('day')
-          .toDate();
+      const date = moment
+        .utc(dateString, 'YYYY-MM-DD')
+        .startOf('day')
+        .toDate();
 
-        // Upsert daily keyword stat with both averageRank and topRankingPageUrl
-        // The position value is now calculated using GSC's weighted average methodology
-        await prisma.searchConsoleKeywordDailyStat.upsert({
-          where: {
-            keywordId_date: {
-              keywordId: keywordRecord.id,
-              date: date,
-            },
-          },
-          update: {
-            searchVolume: row.impressions || 0, // Total impressions across all pages
-            averageRank: row.position || 0, // Weighted average position across all pages
-            topRankingPageUrl: topPageUrl || '', // Top page by impressions
-            updatedAt: new Date(),
-          },
-          create: {
+      // Upsert daily keyword stat with both averageRank and topRankingPageUrl
+      // The position value is now calculated using GSC's weighted average methodology
+      await prisma.searchConsoleKeywordDailyStat.upsert({
+        where: {
+          keywordId_date: {
             keywordId: keywordRecord.id,
             date: date,
-            searchVolume: row.impressions || 0, // Total impressions across all pages
-            averageRank: row.position || 0, // Weighted average position across all pages
-            topRankingPageUrl: topPageUrl || '', // Top page by impressions
           },
+        },
+        update: {
+          impressions: row.impressions || 0, // Total impressions across all pages
+          clicks: row.clicks || 0,
+          ctr: ctrPercentage(row.ctr),
+          averageRank: row.position || 0, // Weighted average position across all pages
+          topRankingPageUrl: topPageUrl || '', // Top page by impressions
+          updatedAt: new Date(),
+        },
+        create: {
+          keywordId: keywordRecord.id,
+          date: date,
+          impressions: row.impressions || 0, // Total impressions across all pages
+          clicks: row.clicks || 0,
+          ctr: ctrPercentage(row.ctr),
+          averageRank: row.position || 0, // Weighted average position across all pages
+          topRankingPageUrl: topPageUrl || '', // Top page by impressions
+        },
+      });
+    }
+
+    await this.saveKeywordPageDailyStats(dailyKeywordData, keywords, analytics.id);
+  }
+
+  /**
+   * Save the row of every page a keyword ranked with on each day, so page
+   * history survives the top page changing
+   */
+  private async saveKeywordPageDailyStats(
+    rows: webmasters_v3.Schema$ApiDataRow[],
+    keywords: string[],
+    analyticsId: string
+  ): Promise<void> {
+    const keywordIds = new Map<string, string>();
+
+    for (const row of rows) {
+      if (!row.keys || row.keys.length < 3) continue;
+
+      const [dateString, rawQuery, page] = row.keys;
+      const query = normalizeKeyword(rawQuery);
+      if (!page || !keywords.includes(query)) continue;
+
+      let keywordId = keywordIds.get(query);
+      if (!keywordId) {
+        const keywordRecord = await prisma.searchConsoleKeyword.upsert({
+          where: { analyticsId_keyword: { analyticsId, keyword: query } },
+          update: {},
+          create: { analyticsId, keyword: query, initialPosition: 0 },
         });
+        keywordId = keywordRecord.id;
+        keywordIds.set(query, keywordId);
       }
-    } catch (error) {
-      console.error('Error saving daily keyword data with dimensions:', error);
+
+      const date = moment.utc(dateString, 'YYYY-MM-DD').startOf('day').toDate();
+      const pageHash = hashPage(page);
+      const data = {
+        impressions: row.impressions || 0,
+        clicks: row.clicks || 0,
+        ctr: ctrPercentage(row.ctr),
+        position: row.position || 0,
+      };
+
+      await prisma.searchConsoleKeywordPageDailyStat.upsert({
+        where: { keywordId_pageHash_date: { keywordId, pageHash, date } },
+        update: data,
+        create: { keywordId, date, page, pageHash, ...data },
+      });
     }
   }
 
@@ -1890,7 +2421,7 @@ export class AnalyticsService {
       }
 
       // Get all keywords from the campaign
-      const keywords = this.parseCampaignKeywords(campaign);
+      const keywords = await this.getCampaignKeywords(campaign);
 
       // Build structures per keyword and page across the 7-day window
       type PageAgg = {
@@ -1904,7 +2435,7 @@ export class AnalyticsService {
       for (const row of initialPositionData) {
         if (!row.keys || row.keys.length < 3) continue;
 
-        const query = row.keys[1];
+        const query = normalizeKeyword(row.keys[1]);
         const pageUrl = row.keys[2];
 
         if (!keywords.includes(query)) continue;
@@ -1994,7 +2525,7 @@ export class AnalyticsService {
       > = {};
       for (const row of initialPositionData) {
         if (!row.keys || row.keys.length < 3) continue;
-        const query = row.keys[1];
+        const query = normalizeKeyword(row.keys[1]);
         const pageUrl = row.keys[2];
         if (!keywords.includes(query)) continue;
         if (topPageByKeyword[query] !== pageUrl) continue;
@@ -2054,7 +2585,7 @@ export class AnalyticsService {
         if (!row.keys || row.keys.length < 2) continue;
 
         const dateString = row.keys[0];
-        const query = row.keys[1];
+        const query = normalizeKeyword(row.keys[1]);
 
         // Only process data for our target keywords
         if (!keywords.includes(query)) continue;
@@ -2100,7 +2631,9 @@ export class AnalyticsService {
               keywordId: keywordRecord.id,
               date: date,
               averageRank: row.position || 0,
-              searchVolume: row.impressions || 0,
+              impressions: row.impressions || 0,
+              clicks: row.clicks || 0,
+              ctr: ctrPercentage(row.ctr),
               topRankingPageUrl: '', // We don't have this in daily data
             },
           });
@@ -2201,10 +2734,29 @@ export class AnalyticsService {
   }
 
   /**
-   * Parse campaign keywords from the keywords string
+   * Rows of the campaign's keywords, with the query key normalized like
+   * campaign keywords
+   */
+  private filterKeywordRows(
+    rows: webmasters_v3.Schema$ApiDataRow[],
+    keywords: string[],
+    queryIndex: number
+  ): webmasters_v3.Schema$ApiDataRow[] {
+    return rows
+      .map((row) => ({
+        ...row,
+        keys: row.keys?.map((key, index) =>
+          index === queryIndex ? normalizeKeyword(key) : key
+        ),
+      }))
+      .filter((row) => keywords.includes(row.keys?.[queryIndex] ?? ''));
+  }
+
+  /**
+   * Get the campaign's active keywords
    */
-  private parseCampaignKeywords(campaign: Campaign): string[] {
-    return campaign.keywords.split('\n').filter((k) => k.trim());
+  private getCampaignKeywords(campaign: Campaign): Promise<string[]> {
+    return campaignKeywordService.getActiveKeywords(campaign.id);
   }
 
   /**
@@ -2288,10 +2840,12 @@ export class AnalyticsService {
       const siteTrafficCount = trafficAnalytics?.daily.length || 0;
 
       // Check keyword data
+      const keywords = await this.getCampaignKeywords(campaign);
       const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
         where: { siteUrl: campaign.searchConsoleSite },
         include: {
           keywords: {
+            where: { keyword: { in: keywords } },
             include: {
               dailyStats: true,
             },
@@ -2343,6 +2897,7 @@ export class AnalyticsService {
         where: { siteUrl },
         include: {
           keywords: {
+            where: { keyword: { in: keywords } },
             include: {
               dailyStats: {
                 where: {
@@ -2363,7 +2918,7 @@ export class AnalyticsService {
       const daysInMonth = monthEnd.diff(monthStart, 'days') + 1;
 
       for (const keyword of analytics.keywords) {
-        if (!keywords.includes(keyword.keyword)) continue;
+        if (!keywords.includes(normalizeKeyword(keyword.keyword))) continue;
 
         // Check if we have daily records for all days in this month
         if (keyword.dailyStats.length < daysInMonth) {
@@ -2405,10 +2960,12 @@ export class AnalyticsService {
       }
 
       // Get all keywords for this campaign
+      const keywords = await this.getCampaignKeywords(campaign);
       const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
         where: { siteUrl: campaign.searchConsoleSite },
         include: {
           keywords: {
+            where: { keyword: { in: keywords } },
             include: {
               dailyStats: {
                 orderBy: { date: 'asc' },
@@ -2499,10 +3056,11 @@ export class AnalyticsService {
       const endDateStr = endDate.toISOString().split('T')[0];
 
       // Get all keywords for this campaign
+      const keywords = await this.getCampaignKeywords(campaign);
       const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
         where: { siteUrl: campaign.searchConsoleSite },
         include: {
-          keywords: true,
+          keywords: { where: { keyword: { in: keywords } } },
         },
       });
 
@@ -2524,6 +3082,7 @@ export class AnalyticsService {
             waitForAllData: true,
             exactUrlMatch: false,
             topRankingPageUrl: undefined,
+            priority: 'background',
           });
 
           // Filter for this specific keyword
@@ -2532,7 +3091,7 @@ export class AnalyticsService {
               return (
                 row.keys &&
                 row.keys.length >= 3 &&
-                row.keys[1] === keyword.keyword
+                normalizeKeyword(row.keys[1]) === normalizeKeyword(keyword.keyword)
               );
             }) || [];
 
@@ -0,0 +1,473 @@
+import moment from 'moment';
+import { BackfillJob, BackfillJobStatus, Campaign, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { AnalyticsService } from './analytics';
+
+const analyticsService = new AnalyticsService();
+
+// Search Console data is complete after about 3 days
+const DATA_DELAY_DAYS = 3;
+// Tries per day before it is left failed until the job is retried
+const MAX_DAY_ATTEMPTS = 3;
+// Days fetched per Search Console request; each is still saved and
+// checkpointed on its own
+const BATCH_DAYS = 7;
+// A running job without a heartbeat for this long was left behind by a
+// restart and is resumed
+const STALE_HEARTBEAT_MINUTES = 10;
+// How often a running job's heartbeat is refreshed. On a timer rather than
+// per day, as quota backoffs (up to 15 minutes) and the rebuild steps can
+// take longer than the stale threshold.
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Failed days returned with the job status
+const MAX_LISTED_FAILED_DAYS = 50;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export class BackfillJobConflictError extends Error {
+  constructor() {
+    super('A backfill is already running for this campaign');
+    this.name = 'BackfillJobConflictError';
+  }
+}
+
+const isActiveJobConflict = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Pending jobs and running jobs whose runner stopped sending heartbeats
+const claimableJobWhere = (): Prisma.BackfillJobWhereInput => {
+  const staleBefore = moment().subtract(STALE_HEARTBEAT_MINUTES, 'minutes').toDate();
+  return {
+    OR: [
+      { status: 'PENDING' },
+      {
+        status: 'RUNNING',
+        OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }],
+      },
+    ],
+  };
+};
+
+/**
+ * Refetches a campaign's daily Search Console data as a persisted job with
+ * a BackfillJobDay row per day. Days are fetched a week per request, then
+ * each is saved and checkpointed on its own, so a failure only costs the
+ * days not saved yet: failed days are tried again at the end of the run
+ * and can be retried later, and jobs interrupted by a restart resume from
+ * the first unfinished day. Once the days are in, the initial positions,
+ * monthly metrics, monthly traffic and segments are rebuilt.
+ */
+export class BackfillJobService {
+  // Jobs being run by this process
+  private running = new Set<string>();
+  private resuming = false;
+
+  /**
+   * Create a pending job covering the campaign's starting date up to the
+   * last day with complete data, or the given range within it. Throws
+   * BackfillJobConflictError if the campaign already has an active job.
+   */
+  async createJob(
+    campaign: Campaign,
+    range: { startDate?: Date; endDate?: Date } = {}
+  ): Promise<BackfillJob> {
+    const lastCompleteDay = moment.utc().subtract(DATA_DELAY_DAYS, 'days').startOf('day');
+    const startDate = moment.utc(range.startDate || campaign.startingDate).startOf('day');
+    let endDate = range.endDate
+      ? moment.utc(range.endDate).startOf('day')
+      : lastCompleteDay;
+    if (endDate.isAfter(lastCompleteDay)) {
+      endDate = lastCompleteDay;
+    }
+
+    // Campaigns starting within the delay have no days yet; the job still
+    // rebuilds initial positions and monthly data
+    const dates: Date[] = [];
+    for (const day = startDate.clone(); day.isSameOrBefore(endDate); day.add(1, 'day')) {
+      dates.push(day.toDate());
+    }
+
+    try {
+      return await prisma.backfillJob.create({
+        data: {
+          campaignId: campaign.id,
+          activeCampaignId: campaign.id,
+          startDate: startDate.toDate(),
+          endDate: moment.max(startDate, endDate).toDate(),
+          totalDays: dates.length,
+          days: { createMany: { data: dates.map((date) => ({ date })) } },
+        },
+      });
+    } catch (error) {
+      if (isActiveJobConflict(error)) {
+        throw new BackfillJobConflictError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a pending job, or resume a running one, until its days are done or
+   * it is cancelled
+   */
+  async runJob(jobId: string): Promise<void> {
+    if (this.running.has(jobId)) {
+      return;
+    }
+    this.running.add(jobId);
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    try {
+      // Another process may be running or resuming the same job
+      if (!(await this.claimJob(jobId))) {
+        return;
+      }
+      heartbeat = setInterval(() => {
+        prisma.backfillJob
+          .updateMany({
+            where: { id: jobId, status: 'RUNNING' },
+            data: { heartbeatAt: new Date() },
+          })
+          .catch((error) => console.error(`Failed to refresh backfill job ${jobId} heartbeat:`, error));
+      }, HEARTBEAT_INTERVAL_MS);
+      heartbeat.unref();
+      const { campaign } = await prisma.backfillJob.findUniqueOrThrow({
+        where: { id: jobId },
+        include: { campaign: { include: { googleAccount: true } } },
+      });
+
+      while (true) {
+        if (await this.stopIfCancelled(jobId, campaign.id)) {
+          return;
+        }
+
+        // Pending days first, then failed days that have tries left
+        const day = await prisma.backfillJobDay.findFirst({
+          where: {
+            jobId,
+            OR: [
+              { status: 'PENDING' },
+              { status: 'FAILED', attempts: { lt: MAX_DAY_ATTEMPTS } },
+            ],
+          },
+          orderBy: [{ attempts: 'asc' }, { date: 'asc' }],
+        });
+        if (!day) {
+          break;
+        }
+
+        // The following days in the same state are fetched with it
+        const batch = await prisma.backfillJobDay.findMany({
+          where: {
+            jobId,
+            status: day.status,
+            attempts: day.attempts,
+            date: {
+              gte: day.date,
+              lt: moment.utc(day.date).add(BATCH_DAYS, 'days').toDate(),
+            },
+          },
+          orderBy: { date: 'asc' },
+        });
+        const batchDays = new Map(
+          batch.map((batchDay) => [batchDay.date.getTime(), batchDay.id])
+        );
+        const savedDays = new Set<string>();
+
+        try {
+          await analyticsService.fetchAndSaveDays({
+            campaign,
+            googleAccount: campaign.googleAccount,
+            startDate: batch[0].date,
+            endDate: batch[batch.length - 1].date,
+            waitForAllData: true,
+            // Days in between that are already completed are saved again
+            // but keep their checkpoint
+            onDaySaved: async (date) => {
+              const dayId = batchDays.get(date.getTime());
+              if (!dayId) {
+                return;
+              }
+              await prisma.backfillJobDay.update({
+                where: { id: dayId },
+                data: {
+                  status: 'COMPLETED',
+                  attempts: { increment: 1 },
+                  lastError: null,
+                  completedAt: new Date(),
+                },
+              });
+              savedDays.add(dayId);
+            },
+          });
+        } catch (error) {
+          console.error(
+            `❌ Backfill of ${moment.utc(batch[0].date).format('YYYY-MM-DD')} to ${moment
+              .utc(batch[batch.length - 1].date)
+              .format('YYYY-MM-DD')} failed for campaign ${campaign.id}:`,
+            error
+          );
+          const unsavedDays = batch
+            .map((batchDay) => batchDay.id)
+            .filter((id) => !savedDays.has(id));
+          await prisma.backfillJobDay.updateMany({
+            where: { id: { in: unsavedDays } },
+            data: {
+              status: 'FAILED',
+              attempts: { increment: 1 },
+              lastError: errorMessage(error),
+            },
+          });
+        }
+      }
+
+      // Built from the daily rows, so rebuilt once all days are in. A
+      // cancellation also stops the rebuild between steps.
+      const rebuildSteps = [
+        () =>
+          analyticsService.fetchInitialPositions({
+            campaign,
+            googleAccount: campaign.googleAccount,
+            waitForAllData: true,
+          }),
+        () => analyticsService.computeMonthlyMetricsForCampaign(campaign.id),
+        () =>
+          analyticsService.fetchAndSaveMonthlyTrafficData({
+            campaignId: campaign.id,
+            waitForAllData: true,
+          }),
+        () =>
+          analyticsService.fetchSegmentedDailyData({
+            campaignId: campaign.id,
+            waitForAllData: true,
+          }),
+      ];
+      for (const step of rebuildSteps) {
+        if (await this.stopIfCancelled(jobId, campaign.id)) {
+          return;
+        }
+        await step();
+      }
+
+      const failedDays = await prisma.backfillJobDay.count({
+        where: { jobId, status: 'FAILED' },
+      });
+      if (failedDays > 0) {
+        await this.finishJob(
+          jobId,
+          'FAILED',
+          `${failedDays} days failed after ${MAX_DAY_ATTEMPTS} attempts`
+        );
+      } else {
+        await this.finishJob(jobId, 'COMPLETED');
+      }
+      console.log(
+        `✅ Backfill job ${jobId} finished for campaign ${campaign.id} (${failedDays} failed days)`
+      );
+    } catch (error) {
+      console.error(`💥 Backfill job ${jobId} failed:`, error);
+      await prisma.backfillJob.updateMany({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          activeCampaignId: null,
+          lastError: errorMessage(error),
+          finishedAt: new Date(),
+        },
+      });
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(jobId);
+    }
+  }
+
+  /**
+   * Queue a failed or cancelled job's unfinished days again, giving failed
+   * days a fresh set of attempts. Throws BackfillJobConflictError if the
+   * job is no longer failed or cancelled, e.g. retried concurrently, or the
+   * campaign already has another active job.
+   */
+  async retryJob(job: BackfillJob): Promise<BackfillJob> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Only a job that is still failed or cancelled; a concurrent retry
+        // or runner may have picked it up since it was read
+        const retried = await tx.backfillJob.updateMany({
+          where: { id: job.id, status: { in: ['FAILED', 'CANCELLED'] } },
+          data: {
+            status: 'PENDING',
+            activeCampaignId: job.campaignId,
+            cancelRequestedAt: null,
+            lastError: null,
+            finishedAt: null,
+          },
+        });
+        if (retried.count === 0) {
+          throw new BackfillJobConflictError();
+        }
+        await tx.backfillJobDay.updateMany({
+          where: { jobId: job.id, status: 'FAILED' },
+          data: { status: 'PENDING', attempts: 0 },
+        });
+        return tx.backfillJob.findUniqueOrThrow({ where: { id: job.id } });
+      });
+    } catch (error) {
+      if (isActiveJobConflict(error)) {
+        throw new BackfillJobConflictError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a pending or running job. Pending jobs stop right away; running
+   * ones stop before their next day or rebuild step, keeping what is
+   * already saved. False if the job had already finished.
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    const requested = await prisma.backfillJob.updateMany({
+      where: { id: jobId, status: { in: ['PENDING', 'RUNNING'] } },
+      data: { cancelRequestedAt: new Date() },
+    });
+    if (requested.count === 0) {
+      return false;
+    }
+    await prisma.backfillJob.updateMany({
+      where: { id: jobId, status: 'PENDING' },
+      data: { status: 'CANCELLED', activeCampaignId: null, finishedAt: new Date() },
+    });
+    return true;
+  }
+
+  /**
+   * Run pending jobs and running jobs left behind by a restart, oldest
+   * first. Called by the backfill cron job.
+   */
+  async resumeJobs(): Promise<number> {
+    if (this.resuming) {
+      return 0;
+    }
+    this.resuming = true;
+
+    try {
+      const jobs = await prisma.backfillJob.findMany({
+        where: claimableJobWhere(),
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+
+      const resumable = jobs.filter((job) => !this.running.has(job.id));
+      for (const job of resumable) {
+        await this.runJob(job.id);
+      }
+      return resumable.length;
+    } finally {
+      this.resuming = false;
+    }
+  }
+
+  /**
+   * A job's status with its day counts and progress percentage, plus the
+   * failed days and why they failed
+   */
+  async getJobStatus(job: BackfillJob) {
+    const counts = await prisma.backfillJobDay.groupBy({
+      by: ['status'],
+      where: { jobId: job.id },
+      _count: { _all: true },
+    });
+    const countOf = (status: string) =>
+      counts.find((count) => count.status === status)?._count._all || 0;
+
+    const completedDays = countOf('COMPLETED');
+    const failedDays = countOf('FAILED');
+    const failures = await prisma.backfillJobDay.findMany({
+      where: { jobId: job.id, status: 'FAILED' },
+      orderBy: { date: 'asc' },
+      take: MAX_LISTED_FAILED_DAYS,
+      select: { date: true, attempts: true, lastError: true },
+    });
+
+    // Days count towards progress once they are done, failed or not
+    let progress = job.status === 'COMPLETED' ? 100 : 0;
+    if (job.totalDays > 0) {
+      progress = Math.round(((completedDays + failedDays) / job.totalDays) * 1000) / 10;
+    }
+
+    return {
+      id: job.id,
+      campaignId: job.campaignId,
+      status: job.status,
+      startDate: moment.utc(job.startDate).format('YYYY-MM-DD'),
+      endDate: moment.utc(job.endDate).format('YYYY-MM-DD'),
+      totalDays: job.totalDays,
+      completedDays,
+      failedDays,
+      pendingDays: countOf('PENDING'),
+      progress,
+      cancelRequested: job.cancelRequestedAt !== null,
+      lastError: job.lastError,
+      failures: failures.map((failure) => ({
+        date: moment.utc(failure.date).format('YYYY-MM-DD'),
+        attempts: failure.attempts,
+        error: failure.lastError,
+      })),
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+
+  /**
+   * Mark a pending job, or a running one left behind by a restart, as
+   * running by this process. False when it isn't claimable (anymore).
+   */
+  private async claimJob(jobId: string): Promise<boolean> {
+    const claimed = await prisma.backfillJob.updateMany({
+      where: { id: jobId, ...claimableJobWhere() },
+      data: { status: 'RUNNING', heartbeatAt: new Date(), lastError: null },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+    await prisma.backfillJob.updateMany({
+      where: { id: jobId, startedAt: null },
+      data: { startedAt: new Date() },
+    });
+    return true;
+  }
+
+  /**
+   * Finish the job as cancelled if a cancellation was requested. True when
+   * the runner should stop, also when the job was deleted.
+   */
+  private async stopIfCancelled(jobId: string, campaignId: string): Promise<boolean> {
+    const current = await prisma.backfillJob.findUnique({
+      where: { id: jobId },
+      select: { cancelRequestedAt: true },
+    });
+    if (!current) {
+      return true;
+    }
+    if (!current.cancelRequestedAt) {
+      return false;
+    }
+    await this.finishJob(jobId, 'CANCELLED');
+    console.log(`🛑 Backfill job ${jobId} cancelled for campaign ${campaignId}`);
+    return true;
+  }
+
+  private async finishJob(
+    jobId: string,
+    status: BackfillJobStatus,
+    lastError: string | null = null
+  ): Promise<void> {
+    await prisma.backfillJob.update({
+      where: { id: jobId },
+      data: { status, activeCampaignId: null, lastError, finishedAt: new Date() },
+    });
+  }
+}
+
+export const backfillJobService = new BackfillJobService();
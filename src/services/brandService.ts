@@ -5,6 +5,7 @@ import * as pdfParse from 'pdf-parse';
 import * as cheerio from 'cheerio';
 
 export interface CreateBrandProfileInput {
+  workspaceId: string;
   name: string;
   urls: string[];
   pdfs: string[];
@@ -39,6 +40,7 @@ export class BrandService {
       // Create the brand profile in the database
       const brandProfile = await prisma.brandProfile.create({
         data: {
+          workspaceId: input.workspaceId,
           name: input.name,
           toneData: toneData as any,
           lastUpdated: new Date(),
@@ -87,12 +89,14 @@ export class BrandService {
   }
 
   /**
-   * Get all brand profiles - returns only the latest profile per brand name
+   * Get all brand profiles - returns only the latest profile per brand name.
+   * Pass a workspace ID to limit the list to that workspace.
    */
-  async getAllBrandProfiles() {
+  async getAllBrandProfiles(workspaceId?: string) {
     try {
       // Get all brand profiles ordered by name and lastUpdated
       const allProfiles = await prisma.brandProfile.findMany({
+        where: workspaceId ? { workspaceId } : {},
         include: {
           urls: true,
           pdfs: true,
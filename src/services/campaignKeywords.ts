@@ -0,0 +1,152 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+/**
+ * Normalize a keyword the way Search Console reports queries: NFKC,
+ * lowercase, runs of whitespace collapsed to one space and trimmed. Campaign
+ * keywords are stored normalized and Search Console queries are normalized
+ * before they're matched against them.
+ */
+export const normalizeKeyword = (keyword: string): string =>
+  keyword.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Keywords are stored in VARCHAR(191) columns, which count characters
+export const MAX_KEYWORD_LENGTH = 191;
+
+export const fitsKeywordColumn = (keyword: string): boolean =>
+  [...keyword].length <= MAX_KEYWORD_LENGTH;
+
+/**
+ * Normalized keywords of a newline-separated list, without blanks and
+ * duplicates
+ */
+export const parseKeywordList = (text: string): string[] => [
+  ...new Set(text.split('\n').map(normalizeKeyword).filter((keyword) => keyword.length > 0)),
+];
+
+// Include for a campaign's active keywords in the order they were added
+export const activeKeywordsArgs = {
+  where: { removedAt: null },
+  orderBy: [{ addedAt: 'asc' }, { id: 'asc' }],
+  select: { keyword: true },
+} satisfies Prisma.Campaign$campaignKeywordsArgs;
+
+/**
+ * Replace a campaign's campaignKeywords (included with activeKeywordsArgs)
+ * with the newline-separated `keywords` list campaigns are edited as
+ */
+export const withKeywordList = <T extends { campaignKeywords: { keyword: string }[] }>({
+  campaignKeywords,
+  ...campaign
+}: T): Omit<T, 'campaignKeywords'> & { keywords: string } => ({
+  ...campaign,
+  keywords: campaignKeywords.map(({ keyword }) => keyword).join('\n'),
+});
+
+export interface KeywordSyncResult {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * A campaign's keywords. Search Console keyword rows are stored per
+ * property, so campaigns on the same site share them; every campaign query
+ * is limited to the campaign's active keywords from here.
+ */
+export class CampaignKeywordService {
+  /**
+   * The campaign's active keywords, in the order they were added
+   */
+  async getActiveKeywords(campaignId: string): Promise<string[]> {
+    const keywords = await prisma.campaignKeyword.findMany({
+      ...activeKeywordsArgs,
+      where: { ...activeKeywordsArgs.where, campaignId },
+    });
+    return keywords.map(({ keyword }) => keyword);
+  }
+
+  /**
+   * The campaign's keywords with their target URL, added/removed dates,
+   * tags and the IDs of the keyword groups they're in
+   */
+  async getKeywords(campaignId: string, includeRemoved = false) {
+    const keywords = await prisma.campaignKeyword.findMany({
+      where: { campaignId, ...(includeRemoved ? {} : { removedAt: null }) },
+      orderBy: [{ addedAt: 'asc' }, { id: 'asc' }],
+      include: {
+        tags: { select: { tag: true }, orderBy: { tag: 'asc' } },
+        groups: { select: { groupId: true } },
+      },
+    });
+
+    return keywords.map(({ tags, groups, ...keyword }) => ({
+      ...keyword,
+      tags: tags.map(({ tag }) => tag),
+      groupIds: groups.map(({ groupId }) => groupId),
+    }));
+  }
+
+  /**
+   * Make the campaign's active keywords match the list: new keywords are
+   * added, missing ones are marked removed and removed ones that are listed
+   * again are restored with a new added date
+   */
+  async syncKeywords(
+    campaignId: string,
+    keywords: string[],
+    db: Prisma.TransactionClient = prisma
+  ): Promise<KeywordSyncResult> {
+    const wanted = new Set(keywords.map(normalizeKeyword).filter((keyword) => keyword.length > 0));
+    const existing = await db.campaignKeyword.findMany({ where: { campaignId } });
+    const existingByKeyword = new Map(existing.map((record) => [record.keyword, record]));
+    const now = new Date();
+
+    const removed = existing
+      .filter((record) => record.removedAt === null && !wanted.has(record.keyword))
+      .map((record) => record.keyword);
+    const added = [...wanted].filter(
+      (keyword) => existingByKeyword.get(keyword)?.removedAt !== null
+    );
+    const restored = added.filter((keyword) => existingByKeyword.has(keyword));
+
+    if (removed.length > 0) {
+      await db.campaignKeyword.updateMany({
+        where: { campaignId, keyword: { in: removed } },
+        data: { removedAt: now },
+      });
+    }
+    if (restored.length > 0) {
+      await db.campaignKeyword.updateMany({
+        where: { campaignId, keyword: { in: restored } },
+        data: { removedAt: null, addedAt: now },
+      });
+    }
+    const created = added.filter((keyword) => !existingByKeyword.has(keyword));
+    if (created.length > 0) {
+      await db.campaignKeyword.createMany({
+        data: created.map((keyword) => ({ campaignId, keyword, addedAt: now })),
+      });
+    }
+
+    return { added, removed };
+  }
+
+  /**
+   * Set or clear the page an active keyword is meant to rank with
+   */
+  async setTargetUrl(campaignId: string, keyword: string, targetUrl: string | null) {
+    const record = await prisma.campaignKeyword.findFirst({
+      where: { campaignId, keyword: normalizeKeyword(keyword), removedAt: null },
+    });
+    if (!record) {
+      throw new Error('Keyword not found');
+    }
+
+    return prisma.campaignKeyword.update({
+      where: { id: record.id },
+      data: { targetUrl },
+    });
+  }
+}
+
+export const campaignKeywordService = new CampaignKeywordService();
@@ -4,6 +4,9 @@ import { AnalyticsService } from './analytics';
 import { keywordCannibalizationService } from './keywordCannibalization';
 import { MilestoneService } from './milestoneService';
 import { searchConsoleService } from './searchConsole';
+import { urlInspectionService } from './urlInspection';
+import { sitemapMonitorService } from './sitemapMonitor';
+import { backfillJobService } from './backfillJobs';
 import moment from 'moment';
 
 const analyticsService = new AnalyticsService();
@@ -30,6 +33,10 @@ export class CronService {
     this.setupCannibalizationAuditJob();
     this.setupDailyMilestoneCheckJob();
     this.setupDailyTopKeywordsJob();
+    this.setupGoogleAccountHealthJob();
+    this.setupUrlInspectionJob();
+    this.setupSitemapSnapshotJob();
+    this.setupBackfillJob();
     console.log('✅ Cron jobs initialized');
   }
 
@@ -136,6 +143,134 @@ export class CronService {
     );
   }
 
+  /**
+   * Setup Google account health check job
+   * Runs every 6 hours at minute 30
+   */
+  private setupGoogleAccountHealthJob(): void {
+    cron.schedule(
+      '30 */6 * * *',
+      async () => {
+        console.log('🩺 Starting Google account health check job...');
+        await this.checkGoogleAccountHealth();
+      },
+      {
+        timezone: 'UTC',
+      }
+    );
+
+    console.log(
+      '📅 Google account health check job scheduled: every 6 hours at minute 30 UTC'
+    );
+  }
+
+  /**
+   * Setup URL inspection job for campaigns' top-ranking pages
+   * Runs at 5:00 AM UTC every day
+   */
+  private setupUrlInspectionJob(): void {
+    cron.schedule(
+      '0 5 * * *',
+      async () => {
+        console.log('🔎 Starting URL inspection job...');
+        await this.inspectTopRankingPages();
+      },
+      {
+        timezone: 'UTC',
+      }
+    );
+
+    console.log('📅 URL inspection job scheduled: 5:00 AM UTC every day');
+  }
+
+  /**
+   * Inspect the top-ranking pages of every active campaign
+   */
+  private async inspectTopRankingPages(): Promise<void> {
+    try {
+      await urlInspectionService.inspectAllCampaigns();
+      console.log('✅ URL inspection job completed');
+    } catch (error) {
+      console.error('❌ Error in URL inspection job:', error);
+    }
+  }
+
+  /**
+   * Setup daily sitemap snapshot job
+   * Runs at 5:30 AM UTC every day
+   */
+  private setupSitemapSnapshotJob(): void {
+    cron.schedule(
+      '30 5 * * *',
+      async () => {
+        console.log('🗺️ Starting sitemap snapshot job...');
+        await this.snapshotSitemaps();
+      },
+      {
+        timezone: 'UTC',
+      }
+    );
+
+    console.log('📅 Sitemap snapshot job scheduled: 5:30 AM UTC every day');
+  }
+
+  /**
+   * Snapshot the sitemaps of every active campaign's property
+   */
+  private async snapshotSitemaps(): Promise<void> {
+    try {
+      await sitemapMonitorService.snapshotAllProperties();
+      console.log('✅ Sitemap snapshot job completed');
+    } catch (error) {
+      console.error('❌ Error in sitemap snapshot job:', error);
+    }
+  }
+
+  /**
+   * Setup backfill job runner, picking up queued backfills and ones
+   * interrupted by a restart
+   * Runs every 5 minutes
+   */
+  private setupBackfillJob(): void {
+    cron.schedule(
+      '*/5 * * * *',
+      async () => {
+        await this.resumeBackfills();
+      },
+      {
+        timezone: 'UTC',
+      }
+    );
+
+    console.log('📅 Backfill job runner scheduled: every 5 minutes');
+  }
+
+  /**
+   * Run queued and interrupted backfill jobs
+   */
+  private async resumeBackfills(): Promise<void> {
+    try {
+      const resumed = await backfillJobService.resumeJobs();
+      if (resumed > 0) {
+        console.log(`✅ Ran ${resumed} backfill jobs`);
+      }
+    } catch (error) {
+      console.error('❌ Error in backfill job runner:', error);
+    }
+  }
+
+  /**
+   * Check every active Google account and alert admins about broken ones
+   */
+  private async checkGoogleAccountHealth(): Promise<void> {
+    try {
+      await searchConsoleService.checkAllAccountsHealth();
+      console.log('✅ Google account health check completed');
+    } catch (error) {
+      console.error('❌ Error in Google account health check job:', error);
+    }
+  }
+
   /**
    * Run cannibalization audits for all active campaigns
    */
@@ -266,8 +401,19 @@ export class CronService {
                 waitForAllData: true, // Run in background
               });
 
+            // Stats for the campaign's configured search types, devices
+            // and countries
+            const segmentedDataSuccess =
+              await analyticsService.fetchSegmentedDailyData({
+                campaignId: campaign.id,
+                waitForAllData: true, // Run in background
+              });
+
             const success =
-              siteTrafficSuccess && keywordDataSuccess && monthlyTrafficSuccess;
+              siteTrafficSuccess &&
+              keywordDataSuccess &&
+              monthlyTrafficSuccess &&
+              segmentedDataSuccess;
 
             if (success) {
               console.log(
@@ -539,6 +685,7 @@ export class CronService {
               startAt: startDate,
               endAt: endDate,
               dimensions: ['query'],
+              priority: 'background',
             });
 
             if (!currentMonthData || currentMonthData.length === 0) {
@@ -561,6 +708,7 @@ export class CronService {
               startAt: prevStartDate,
               endAt: prevEndDate,
               dimensions: ['query'],
+              priority: 'background',
             });
 
             // Create a map of previous month data
@@ -726,6 +874,14 @@ export class CronService {
     await this.fetchTopKeywords();
   }
 
+  /**
+   * Manually trigger the Google account health check job
+   */
+  public async triggerGoogleAccountHealthCheck(): Promise<void> {
+    console.log('🚀 Manually triggering Google account health check job...');
+    await this.checkGoogleAccountHealth();
+  }
+
   /**
    * Get cron job status
    */
@@ -738,6 +894,7 @@ export class CronService {
         'Cannibalization Audit - 0 4 * * * (4:00 AM UTC every day)',
         'Daily Top Keywords Fetch - 0 7 * * * (7:00 AM UTC every day)',
         'Daily Milestone Check - 0 8 * * * (8:00 AM UTC every day)',
+        'Google Account Health Check - 30 */6 * * * (every 6 hours at minute 30 UTC)',
       ],
     };
   }
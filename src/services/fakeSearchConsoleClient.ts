@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { webmasters_v3, searchconsole_v1 } from 'googleapis';
+import type { SearchConsoleClient } from './searchConsoleClient';
+
+type Dimension = 'date' | 'query' | 'page' | 'country' | 'device' | 'searchAppearance';
+
+// A query/page pair's typical day. Each date gets a deterministic variation
+// of these numbers, so the same request always returns the same rows.
+interface FixtureRow {
+  query: string;
+  page: string;
+  country?: string;
+  device?: string;
+  // Search type the row shows up in; defaults to web
+  searchType?: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+  // Position change per day since `from`, e.g. -0.05 for a keyword climbing
+  positionTrend?: number;
+  // First and last day the row has data (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+interface Fixture {
+  sites: { siteUrl: string; permissionLevel: string }[];
+  rows: Record<string, FixtureRow[]>;
+  // URL Inspection results by page URL. Pages not listed are indexed, with
+  // themselves as canonical.
+  inspections?: Record<string, searchconsole_v1.Schema$IndexStatusInspectionResult>;
+  // Submitted sitemaps by property
+  sitemaps?: Record<string, searchconsole_v1.Schema$WmxSitemap[]>;
+  quota?: {
+    // Fail every Nth searchanalytics.query call with a quota error
+    failEvery?: number;
+    // Properties whose queries always fail with a quota error
+    sites?: string[];
+  };
+}
+
+const DEFAULT_FROM = '2020-01-01';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fixtures = new Map<string, { mtimeMs: number; fixture: Fixture }>();
+// Query calls per fixture file, for quota.failEvery
+const queryCounts = new Map<string, number>();
+
+// Re-read the file when it changes, so fixtures can be edited while the
+// server runs
+const loadFixture = (file: string): Fixture => {
+  const { mtimeMs } = fs.statSync(file);
+  const cached = fixtures.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.fixture;
+  }
+
+  const fixture: Fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  fixtures.set(file, { mtimeMs, fixture });
+  return fixture;
+};
+
+// Deterministic number in [0, 1) for a key
+const unitHash = (key: string): number =>
+  crypto.createHash('sha256').update(key).digest().readUInt32BE(0) / 2 ** 32;
+
+const dateRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  for (let day = Date.parse(`${startDate}T00:00:00Z`); day <= end; day += DAY_MS) {
+    dates.push(new Date(day).toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+// The same error shape the Google client throws for rate limits
+const quotaError = (siteUrl: string) =>
+  Object.assign(new Error(`Search Analytics load quota exceeded for ${siteUrl}`), {
+    response: {
+      status: 429,
+      data: {
+        error: {
+          code: 429,
+          message: 'Search Analytics load quota exceeded',
+          errors: [{ reason: 'rateLimitExceeded' }],
+        },
+      },
+    },
+  });
+
+const matchesFilter = (
+  value: string,
+  filter: webmasters_v3.Schema$ApiDimensionFilter
+): boolean => {
+  const expression = filter.expression || '';
+  switch (filter.operator || 'equals') {
+    case 'equals':
+      return value === expression;
+    case 'notEquals':
+      return value !== expression;
+    case 'contains':
+      return value.includes(expression);
+    case 'notContains':
+      return !value.includes(expression);
+    case 'includingRegex':
+      return new RegExp(expression).test(value);
+    case 'excludingRegex':
+      return !new RegExp(expression).test(value);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Search Console backend reading a JSON fixture file. Serves daily rows for
+ * the fixture's query/page pairs, aggregated by the requested dimensions the
+ * way Search Console does (summed clicks and impressions, impression-weighted
+ * position), URL inspections and sitemaps, and can simulate quota errors.
+ */
+export class FakeSearchConsoleClient implements SearchConsoleClient {
+  constructor(private readonly file: string) {}
+
+  async listSites(): Promise<webmasters_v3.Schema$WmxSite[]> {
+    return loadFixture(this.file).sites;
+  }
+
+  async querySearchAnalytics(
+    siteUrl: string,
+    requestBody: webmasters_v3.Schema$SearchAnalyticsQueryRequest
+  ): Promise<webmasters_v3.Schema$SearchAnalyticsQueryResponse> {
+    const fixture = loadFixture(this.file);
+
+    const count = (queryCounts.get(this.file) || 0) + 1;
+    queryCounts.set(this.file, count);
+    const { failEvery, sites: failingSites = [] } = fixture.quota || {};
+    if (failingSites.includes(siteUrl) || (failEvery && count % failEvery === 0)) {
+      throw quotaError(siteUrl);
+    }
+
+    const dimensions = (requestBody.dimensions || []) as Dimension[];
+    const searchType = requestBody.searchType || 'web';
+    const filters = (requestBody.dimensionFilterGroups || []).flatMap(
+      (group) => group.filters || []
+    );
+    // Like Search Console, the latest data is from yesterday
+    const yesterday = new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+    const endDate =
+      requestBody.endDate && requestBody.endDate < yesterday
+        ? requestBody.endDate
+        : yesterday;
+
+    const groups = new Map<
+      string,
+      { keys: string[]; clicks: number; impressions: number; weightedPosition: number }
+    >();
+
+    for (const row of fixture.rows[siteUrl] || []) {
+      if ((row.searchType || 'web') !== searchType) continue;
+
+      const from = row.from || DEFAULT_FROM;
+      const start = requestBody.startDate! > from ? requestBody.startDate! : from;
+      const end = row.to && row.to < endDate ? row.to : endDate;
+
+      for (const date of start <= end ? dateRange(start, end) : []) {
+        const values: Record<Dimension, string> = {
+          date,
+          query: row.query,
+          page: row.page,
+          country: row.country || 'usa',
+          device: row.device || 'DESKTOP',
+          searchAppearance: 'WEB_LISTING',
+        };
+        if (
+          !filters.every((filter) =>
+            matchesFilter(values[filter.dimension as Dimension] ?? '', filter)
+          )
+        ) {
+          continue;
+        }
+
+        const seed = `${siteUrl}|${row.query}|${row.page}|${values.country}|${values.device}|${date}`;
+        const factor = 0.75 + unitHash(seed) * 0.5;
+        const impressions = Math.round(row.impressions * factor);
+        if (impressions === 0) continue;
+        const clicks = Math.min(impressions, Math.round(row.clicks * factor));
+        const days = (Date.parse(date) - Date.parse(from)) / DAY_MS;
+        const position = Math.max(
+          1,
+          row.position +
+            (row.positionTrend || 0) * days +
+            (unitHash(`${seed}|position`) - 0.5)
+        );
+
+        const keys = dimensions.map((dimension) => values[dimension]);
+        const groupKey = keys.join('\u0000');
+        const group = groups.get(groupKey) || {
+          keys,
+          clicks: 0,
+          impressions: 0,
+          weightedPosition: 0,
+        };
+        group.clicks += clicks;
+        group.impressions += impressions;
+        group.weightedPosition += position * impressions;
+        groups.set(groupKey, group);
+      }
+    }
+
+    // Search Console orders rows by clicks
+    const rows = [...groups.values()]
+      .sort(
+        (a, b) =>
+          b.clicks - a.clicks ||
+          b.impressions - a.impressions ||
+          a.keys.join().localeCompare(b.keys.join())
+      )
+      .map((group) => ({
+        keys: group.keys,
+        clicks: group.clicks,
+        impressions: group.impressions,
+        ctr: group.clicks / group.impressions,
+        position: group.weightedPosition / group.impressions,
+      }));
+
+    const startRow = requestBody.startRow || 0;
+    const rowLimit = requestBody.rowLimit || 1000;
+    const page = rows.slice(startRow, startRow + rowLimit);
+
+    return {
+      rows: page.length > 0 ? page : undefined,
+      responseAggregationType: 'byProperty',
+    };
+  }
+
+  async inspectUrl(
+    siteUrl: string,
+    inspectionUrl: string
+  ): Promise<searchconsole_v1.Schema$UrlInspectionResult> {
+    const fixture = loadFixture(this.file);
+    if ((fixture.quota?.sites || []).includes(siteUrl)) {
+      throw quotaError(siteUrl);
+    }
+
+    // Crawled within the last two weeks, on a stable day per URL
+    const daysAgo = 1 + Math.floor(unitHash(`${inspectionUrl}|crawl`) * 14);
+    const lastCrawlTime = new Date(Date.now() - daysAgo * DAY_MS);
+    lastCrawlTime.setUTCHours(0, 0, 0, 0);
+
+    return {
+      inspectionResultLink: `https://search.google.com/search-console/inspect?resource_id=${encodeURIComponent(siteUrl)}&id=${encodeURIComponent(inspectionUrl)}`,
+      indexStatusResult: {
+        verdict: 'PASS',
+        coverageState: 'Submitted and indexed',
+        robotsTxtState: 'ALLOWED',
+        indexingState: 'INDEXING_ALLOWED',
+        pageFetchState: 'SUCCESSFUL',
+        lastCrawlTime: lastCrawlTime.toISOString(),
+        googleCanonical: inspectionUrl,
+        userCanonical: inspectionUrl,
+        crawledAs: 'MOBILE',
+        ...fixture.inspections?.[inspectionUrl],
+      },
+    };
+  }
+
+  async listSitemaps(siteUrl: string): Promise<searchconsole_v1.Schema$WmxSitemap[]> {
+    const fixture = loadFixture(this.file);
+    if ((fixture.quota?.sites || []).includes(siteUrl)) {
+      throw quotaError(siteUrl);
+    }
+    return fixture.sitemaps?.[siteUrl] || [];
+  }
+}
+
+export const createFakeSearchConsoleClient = (file: string) =>
+  new FakeSearchConsoleClient(path.resolve(file));
@@ -0,0 +1,236 @@
+import { GoogleAccount, GoogleAccountErrorClass } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { sendGoogleAccountAlertEmail } from '../utils/email';
+import { createGoogleOAuthUrl } from '../utils/googleOAuthState';
+import { WhatsAppService } from './whatsappService';
+
+// Re-auth links in alerts stay valid long enough to be acted on
+const REAUTH_LINK_TTL_MINUTES = 24 * 60;
+const MAX_ERROR_LENGTH = 1000;
+
+// Failures only a reconnect can fix. These mark the account's campaigns and
+// alert admins; quota and other errors are only recorded on the account.
+const BROKEN_ERROR_CLASSES: GoogleAccountErrorClass[] = [
+  'REVOKED',
+  'INSUFFICIENT_SCOPE',
+];
+
+export const isBrokenErrorClass = (
+  errorClass: GoogleAccountErrorClass | null
+): boolean => !!errorClass && BROKEN_ERROR_CLASSES.includes(errorClass);
+
+/**
+ * Classify an error thrown by the Google OAuth or Search Console clients
+ */
+export const classifyGoogleError = (error: any): GoogleAccountErrorClass => {
+  const data = error?.response?.data;
+  const status = error?.response?.status;
+  const reasons: string[] = (data?.error?.errors || [])
+    .map((entry: any) => entry?.reason)
+    .filter(Boolean);
+  const message = String(
+    data?.error?.message || data?.error_description || error?.message || ''
+  ).toLowerCase();
+
+  if (data?.error === 'invalid_grant' || message.includes('invalid_grant')) {
+    return 'REVOKED';
+  }
+  if (
+    data?.error === 'insufficient_scope' ||
+    reasons.includes('insufficientPermissions') ||
+    message.includes('insufficient authentication scopes')
+  ) {
+    return 'INSUFFICIENT_SCOPE';
+  }
+  if (
+    status === 429 ||
+    reasons.some((reason) =>
+      ['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded'].includes(reason)
+    ) ||
+    message.includes('quota')
+  ) {
+    return 'QUOTA';
+  }
+  return 'OTHER';
+};
+
+type AlertedGoogleAccount = Pick<
+  GoogleAccount,
+  'id' | 'email' | 'workspaceId' | 'credentialType'
+>;
+
+const errorClassReason: Record<GoogleAccountErrorClass, string> = {
+  REVOKED: 'Access was revoked or has expired',
+  INSUFFICIENT_SCOPE: 'Missing Search Console permissions',
+  QUOTA: 'Search Console quota exceeded',
+  OTHER: 'Unexpected error',
+};
+
+export class GoogleAccountHealthService {
+  private whatsappService = new WhatsAppService();
+
+  /**
+   * Record a working connection and clear any failure state left on the
+   * account and its campaigns
+   */
+  async recordSuccess(accountId: string): Promise<void> {
+    try {
+      const account = await prisma.googleAccount.update({
+        where: { id: accountId },
+        data: { lastSuccessAt: new Date(), errorClass: null, alertSentAt: null },
+        select: { id: true },
+      });
+      await prisma.campaign.updateMany({
+        where: { googleAccountId: account.id, googleAccountError: { not: null } },
+        data: { googleAccountError: null },
+      });
+    } catch (error) {
+      console.error(`Failed to record health of Google account ${accountId}:`, error);
+    }
+  }
+
+  /**
+   * Record a failed call for the account. Broken accounts mark their
+   * campaigns and alert admins once per incident. Never throws, so callers
+   * can keep rethrowing the original error.
+   */
+  async recordFailure(
+    account: AlertedGoogleAccount,
+    error: unknown
+  ): Promise<GoogleAccountErrorClass> {
+    const errorClass = classifyGoogleError(error);
+    const message =
+      (error as any)?.response?.data?.error_description ||
+      (error instanceof Error ? error.message : String(error));
+
+    try {
+      await prisma.googleAccount.update({
+        where: { id: account.id },
+        data: {
+          lastErrorAt: new Date(),
+          lastError: message.slice(0, MAX_ERROR_LENGTH),
+          errorClass,
+          // A revoked token can't be refreshed until the account is reconnected
+          ...(errorClass === 'REVOKED' ? { isActive: false } : {}),
+        },
+      });
+
+      if (!isBrokenErrorClass(errorClass)) {
+        return errorClass;
+      }
+
+      await prisma.campaign.updateMany({
+        where: { googleAccountId: account.id },
+        data: { googleAccountError: errorClass },
+      });
+
+      // Claim the alert so concurrent failures don't notify twice
+      const claimed = await prisma.googleAccount.updateMany({
+        where: { id: account.id, alertSentAt: null },
+        data: { alertSentAt: new Date() },
+      });
+      if (claimed.count === 1) {
+        await this.notifyAdmins(account, errorClass);
+      }
+    } catch (recordError) {
+      console.error(
+        `Failed to record failure of Google account ${account.email}:`,
+        recordError
+      );
+    }
+
+    return errorClass;
+  }
+
+  /**
+   * Alert global admins and the workspace's admins through email and their
+   * WhatsApp group, each with their own re-auth link
+   */
+  private async notifyAdmins(
+    account: AlertedGoogleAccount,
+    errorClass: GoogleAccountErrorClass
+  ): Promise<void> {
+    const campaigns = await prisma.campaign.findMany({
+      where: { googleAccountId: account.id, status: 'ACTIVE' },
+      select: { name: true },
+      orderBy: { name: 'asc' },
+    });
+    const campaignNames = campaigns.map((campaign) => campaign.name);
+
+    const admins = await prisma.user.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { role: 'ADMIN' },
+          {
+            workspaceMemberships: {
+              some: { workspaceId: account.workspaceId, role: 'ADMIN' },
+            },
+          },
+        ],
+      },
+      include: {
+        adminNotificationPreferences: true,
+        settings: { select: { systemLanguage: true } },
+      },
+    });
+
+    for (const admin of admins) {
+      const prefs = admin.adminNotificationPreferences;
+      if (prefs && !prefs.enableAllNotifications) {
+        continue;
+      }
+
+      // Service accounts are fixed by adding them again with a new key
+      const reauthUrl =
+        account.credentialType === 'SERVICE_ACCOUNT'
+          ? `${process.env.FRONTEND_URL || 'http://localhost:3000'}/google-accounts`
+          : await createGoogleOAuthUrl(
+              account.workspaceId,
+              admin.id,
+              REAUTH_LINK_TTL_MINUTES
+            );
+
+      if (!prefs || prefs.enableEmail) {
+        try {
+          await sendGoogleAccountAlertEmail(
+            admin.email,
+            account.email,
+            errorClass,
+            campaignNames,
+            reauthUrl,
+            admin.settings?.systemLanguage || 'en'
+          );
+        } catch (error) {
+          console.error(`Failed to email Google account alert to ${admin.email}:`, error);
+        }
+      }
+
+      if (prefs?.enableWhatsApp && prefs.whatsAppGroupId) {
+        const group = await prisma.whatsAppGroup.findFirst({
+          where: {
+            OR: [{ id: prefs.whatsAppGroupId }, { groupId: prefs.whatsAppGroupId }],
+          },
+        });
+        if (!group) continue;
+
+        const result = await this.whatsappService.sendMessage(
+          group.groupId,
+          this.whatsappService.formatGoogleAccountAlertMessage(
+            account.email,
+            errorClassReason[errorClass],
+            campaignNames,
+            reauthUrl
+          )
+        );
+        if (!result.success) {
+          console.error(`Failed to send Google account alert to WhatsApp group ${group.name}:`, result.error);
+        }
+      }
+    }
+
+    console.log(`⚠️ Sent re-auth alerts for Google account ${account.email} (${errorClass})`);
+  }
+}
+
+export const googleAccountHealthService = new GoogleAccountHealthService();
@@ -40,10 +40,11 @@ export class KeywordAnalysisService {
   /**
    * Analyze a keyword using Google Search data and Gemini API
    * @param keyword The keyword to analyze
+   * @param workspaceId Workspace the analysis is stored in
    * @param campaignId Optional campaign ID (for backward compatibility)
    * @returns Analysis result ID
    */
-  async analyzeKeyword(keyword: string, campaignId?: string): Promise<string> {
+  async analyzeKeyword(keyword: string, workspaceId: string, campaignId?: string): Promise<string> {
     try {
      
       
@@ -64,7 +65,7 @@ export class KeywordAnalysisService {
       const analysis = await this.analyzeWithGemini(keyword, pageContents);
       
       // Step 5: Store results in database
-      const analysisId = await this.storeAnalysis(keyword, analysis);
+      const analysisId = await this.storeAnalysis(keyword, workspaceId, analysis);
       
       return analysisId;
     } catch (error) {
@@ -156,7 +157,7 @@ export class KeywordAnalysisService {
         topPages: topPages.map(stat => ({
           url: stat.topRankingPageUrl,
           position: stat.averageRank || 0,
-          impressions: stat.searchVolume
+          impressions: stat.impressions
         }))
       };
     } catch (error) {
@@ -493,13 +494,14 @@ export class KeywordAnalysisService {
   /**
    * Store analysis results in database
    */
-  private async storeAnalysis(keyword: string, analysis: KeywordAnalysisResult): Promise<string> {
+  private async storeAnalysis(keyword: string, workspaceId: string, analysis: KeywordAnalysisResult): Promise<string> {
     try {
       // Type assertion to bypass TypeScript error
       const keywordAnalysisModel = (prisma as any).keywordAnalysis;
       
       const result = await keywordAnalysisModel.create({
         data: {
+          workspaceId,
           keyword,
           pageGoals: JSON.stringify(analysis.pageGoals),
           h1Headlines: JSON.stringify(analysis.headings.h1),
@@ -521,15 +523,15 @@ export class KeywordAnalysisService {
   }
   
   /**
-   * Get stored analysis by ID
+   * Get stored analysis by ID, optionally only from the given workspace
    */
-  async getAnalysisById(id: string) {
+  async getAnalysisById(id: string, workspaceId?: string) {
     try {
       // Type assertion to bypass TypeScript error
       const keywordAnalysisModel = (prisma as any).keywordAnalysis;
       
-      const analysis = await keywordAnalysisModel.findUnique({
-        where: { id }
+      const analysis = await keywordAnalysisModel.findFirst({
+        where: workspaceId ? { id, workspaceId } : { id }
       });
       
       if (!analysis) {
@@ -1,12 +1,13 @@
 import { PrismaClient, Campaign, GoogleAccount } from '@prisma/client';
 import moment from 'moment-timezone';
-import { SearchConsoleService } from './searchConsole';
+import { searchConsoleService } from './searchConsole';
 import { webmasters_v3 } from 'googleapis';
 import { prisma } from '../utils/prisma';
-
-const searchConsoleService = new SearchConsoleService();
+import { campaignKeywordService, normalizeKeyword } from './campaignKeywords';
+import { keywordPageHistoryService } from './keywordPageHistory';
 
 const CANNIBALIZATION_THRESHOLD = 20; // 20% overlap threshold
+const STORED_DATA_DELAY_DAYS = 3; // Daily keyword data is fetched for 3 days ago
 
 // Define enums 
 enum AuditType {
@@ -145,14 +146,54 @@ export class KeywordCannibalizationService {
     console.log(`🔗 Search Console Site: ${campaign.searchConsoleSite}`);
     
     // Get campaign keywords as source of truth
-    const campaignKeywords = campaign.keywords
-      .split('\n')
-      .map((k: string) => k.trim().toLowerCase())
-      .filter((k: string) => k.length > 0);
+    const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
     
     console.log(`🎯 Campaign has ${campaignKeywords.length} defined keywords`);
     console.log(`📝 Keywords to check: ${campaignKeywords.join(', ')}`);
-    
+
+    // Use the stored page rows of the keywords they cover the range for;
+    // ingestion stores the same date/query/page rows, up to 3 days ago like
+    // the daily job. Keywords added later or without rows yet are read from
+    // the API.
+    const storedRanges = await keywordPageHistoryService.getStoredRanges(
+      campaign.searchConsoleSite,
+      campaignKeywords
+    );
+    const firstDay = moment(startDate).startOf('day').toDate();
+    const lastIngestedDay = moment
+      .min(moment(endDate), moment().subtract(STORED_DATA_DELAY_DAYS, 'days'))
+      .startOf('day')
+      .toDate();
+    const storedKeywords = campaignKeywords.filter((keyword) => {
+      const range = storedRanges.get(keyword);
+      return !!range && range.from <= firstDay && range.to >= lastIngestedDay;
+    });
+    const apiKeywords = campaignKeywords.filter((keyword) => !storedKeywords.includes(keyword));
+
+    let storedData: KeywordPageData[] = [];
+    if (storedKeywords.length > 0) {
+      const totals = await keywordPageHistoryService.getPageTotals(
+        campaign.searchConsoleSite,
+        storedKeywords,
+        startDate,
+        endDate
+      );
+      storedData = totals
+        .filter((total) => this.isPageFromSameDomain(total.page, campaign.searchConsoleSite))
+        .map((total) => ({
+          keyword: total.keyword,
+          pageUrl: total.page,
+          impressions: total.impressions,
+        }));
+      console.log(
+        `📊 Using ${storedData.length} stored keyword-page combinations for ${storedKeywords.length} keywords`
+      );
+    }
+    if (apiKeywords.length === 0) {
+      return storedData;
+    }
+    console.log(`🔎 Fetching ${apiKeywords.length} keywords without stored rows for the range`);
+
     // Fetch all GSC data with query and page dimensions
     const gscData = await searchConsoleService.getAnalytics({
       campaign,
@@ -160,14 +201,15 @@ export class KeywordCannibalizationService {
       startAt: moment(startDate),
       endAt: moment(endDate),
       dimensions: ['query', 'page'],
-      waitForAllData: true
+      waitForAllData: true,
+      priority: 'background',
     });
 
     console.log(`📈 Raw GSC data returned: ${gscData ? gscData.length : 0} rows`);
 
     if (!gscData || gscData.length === 0) {
       console.log('❌ No GSC data returned');
-      return [];
+      return storedData;
     }
 
     // Use a Map to aggregate impressions by keyword-page combination
@@ -186,9 +228,9 @@ export class KeywordCannibalizationService {
       // GSC returns keys as [date, keyword, pageUrl] when using ['query', 'page'] dimensions
       const [date, keyword, pageUrl] = row.keys;
       
-      // ONLY process keywords that are defined in the campaign (source of truth)
-      const normalizedKeyword = keyword.toLowerCase().trim();
-      if (!campaignKeywords.includes(normalizedKeyword)) {
+      // ONLY process campaign keywords (source of truth) not read from stored rows
+      const normalizedKeyword = normalizeKeyword(keyword);
+      if (!apiKeywords.includes(normalizedKeyword)) {
         keywordFilteredOut++;
         continue;
       }
@@ -221,7 +263,7 @@ export class KeywordCannibalizationService {
 
     console.log(`📊 Processing Summary:`);
     console.log(`   Total rows from GSC: ${totalRows}`);
-    console.log(`   Keywords filtered out (not in campaign): ${keywordFilteredOut}`);
+    console.log(`   Keywords filtered out (not in campaign or read from stored rows): ${keywordFilteredOut}`);
     console.log(`   Valid rows processed: ${validRows}`);
     console.log(`   Unique keyword-page combinations after aggregation: ${keywordPageData.length}`);
 
@@ -233,7 +275,7 @@ export class KeywordCannibalizationService {
       });
     }
     
-    return keywordPageData;
+    return [...storedData, ...keywordPageData];
   }
 
   /**
@@ -0,0 +1,229 @@
+import { Campaign } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { normalizeKeyword } from './campaignKeywords';
+
+// Months of group metrics returned when no range is given
+const DEFAULT_METRIC_MONTHS = 12;
+
+/**
+ * Weight of a keyword in visibility scores by its average position: fully
+ * visible on page one, less so further down, invisible beyond position 50
+ */
+export const visibilityWeight = (position: number): number => {
+  if (position <= 0 || !isFinite(position)) return 0;
+  if (position <= 10) return 1.0;
+  if (position <= 20) return 0.8;
+  if (position <= 30) return 0.5;
+  if (position <= 50) return 0.3;
+  return 0.0;
+};
+
+// Tags are compared case-insensitively, so they're stored like keywords
+export const normalizeTag = (tag: string): string => normalizeKeyword(tag);
+
+export interface KeywordGroupMonthMetrics {
+  month: number;
+  year: number;
+  // Impression-weighted over the group's keywords with a position
+  averagePosition: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  // 0-100; keywords without data that month count as not visible
+  visibility: number;
+  keywordsWithData: number;
+}
+
+/**
+ * Groups and tags on a campaign's keywords. Groups are the topics keywords
+ * are reported by and get aggregated metrics; tags are free-form labels.
+ * Both only apply to active keywords.
+ */
+export class KeywordGroupService {
+  /**
+   * The campaign's groups with their active keywords
+   */
+  async listGroups(campaignId: string) {
+    const groups = await prisma.keywordGroup.findMany({
+      where: { campaignId },
+      orderBy: { name: 'asc' },
+      include: {
+        members: {
+          where: { keyword: { removedAt: null } },
+          select: { keyword: { select: { keyword: true } } },
+          orderBy: { keyword: { keyword: 'asc' } },
+        },
+      },
+    });
+
+    return groups.map(({ members, ...group }) => ({
+      ...group,
+      keywords: members.map((member) => member.keyword.keyword),
+    }));
+  }
+
+  /**
+   * One of the campaign's groups, or null
+   */
+  async findGroup(campaignId: string, groupId: string) {
+    return prisma.keywordGroup.findFirst({ where: { id: groupId, campaignId } });
+  }
+
+  /**
+   * Active keywords of a group, or null if the campaign has no such group
+   */
+  async getGroupKeywords(campaignId: string, groupId: string): Promise<string[] | null> {
+    const group = await prisma.keywordGroup.findFirst({
+      where: { id: groupId, campaignId },
+      include: {
+        members: {
+          where: { keyword: { removedAt: null } },
+          select: { keyword: { select: { keyword: true } } },
+        },
+      },
+    });
+    return group ? group.members.map((member) => member.keyword.keyword) : null;
+  }
+
+  /**
+   * IDs of the campaign's active keywords in the list, and the keywords
+   * the campaign doesn't track
+   */
+  async resolveKeywords(
+    campaignId: string,
+    keywords: string[]
+  ): Promise<{ ids: string[]; unknown: string[] }> {
+    const normalized = [...new Set(keywords.map(normalizeKeyword).filter((k) => k.length > 0))];
+    const records = await prisma.campaignKeyword.findMany({
+      where: { campaignId, keyword: { in: normalized }, removedAt: null },
+      select: { id: true, keyword: true },
+    });
+    const found = new Set(records.map((record) => record.keyword));
+
+    return {
+      ids: records.map((record) => record.id),
+      unknown: normalized.filter((keyword) => !found.has(keyword)),
+    };
+  }
+
+  /**
+   * Replace a group's keywords. Removed keywords stay members, so they're
+   * back in the group if they're re-added to the campaign.
+   */
+  async setGroupKeywords(groupId: string, keywordIds: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.keywordGroupMember.deleteMany({
+        where: { groupId, keyword: { removedAt: null }, keywordId: { notIn: keywordIds } },
+      }),
+      prisma.keywordGroupMember.createMany({
+        data: keywordIds.map((keywordId) => ({ groupId, keywordId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  /**
+   * Replace the tags of one of the campaign's keywords
+   */
+  async setKeywordTags(keywordId: string, tags: string[]): Promise<string[]> {
+    const normalized = [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))];
+
+    await prisma.$transaction([
+      prisma.campaignKeywordTag.deleteMany({
+        where: { keywordId, tag: { notIn: normalized } },
+      }),
+      prisma.campaignKeywordTag.createMany({
+        data: normalized.map((tag) => ({ keywordId, tag })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return normalized;
+  }
+
+  /**
+   * Tags used on the campaign's active keywords, with how many keywords
+   * have each
+   */
+  async listTags(campaignId: string): Promise<{ tag: string; keywords: number }[]> {
+    const tags = await prisma.campaignKeywordTag.groupBy({
+      by: ['tag'],
+      where: { keyword: { campaignId, removedAt: null } },
+      _count: { _all: true },
+      orderBy: { tag: 'asc' },
+    });
+    return tags.map((tag) => ({ tag: tag.tag, keywords: tag._count._all }));
+  }
+
+  /**
+   * Monthly metrics of a group's keywords from the persisted monthly
+   * keyword metrics, oldest month first. Defaults to the last 12 months.
+   */
+  async getGroupMetrics(
+    campaign: Pick<Campaign, 'id' | 'searchConsoleSite'>,
+    keywords: string[],
+    range: { from?: Date; to?: Date } = {}
+  ): Promise<KeywordGroupMonthMetrics[]> {
+    const to = range.to || new Date();
+    const from =
+      range.from ||
+      new Date(to.getFullYear(), to.getMonth() - (DEFAULT_METRIC_MONTHS - 1), 1);
+
+    const months: { month: number; year: number }[] = [];
+    for (
+      let date = new Date(from.getFullYear(), from.getMonth(), 1);
+      date <= to;
+      date = new Date(date.getFullYear(), date.getMonth() + 1, 1)
+    ) {
+      months.push({ month: date.getMonth() + 1, year: date.getFullYear() });
+    }
+
+    const rows =
+      keywords.length > 0 && months.length > 0
+        ? await prisma.searchConsoleKeywordMonthlyComputed.findMany({
+          where: {
+            keyword: {
+              analytics: { siteUrl: campaign.searchConsoleSite },
+              keyword: { in: keywords },
+            },
+            OR: months,
+          },
+          select: { month: true, year: true, averageRank: true, impressions: true, clicks: true },
+        })
+        : [];
+
+    return months.map(({ month, year }) => {
+      const monthRows = rows.filter((row) => row.month === month && row.year === year);
+      const ranked = monthRows.filter((row) => row.averageRank > 0);
+      const impressions = monthRows.reduce((sum, row) => sum + row.impressions, 0);
+      const clicks = monthRows.reduce((sum, row) => sum + row.clicks, 0);
+      const rankedImpressions = ranked.reduce((sum, row) => sum + row.impressions, 0);
+      const averagePosition =
+        rankedImpressions > 0
+          ? ranked.reduce((sum, row) => sum + row.averageRank * row.impressions, 0) /
+            rankedImpressions
+          : ranked.length > 0
+            ? ranked.reduce((sum, row) => sum + row.averageRank, 0) / ranked.length
+            : 0;
+      const visibility =
+        keywords.length > 0
+          ? (ranked.reduce((sum, row) => sum + visibilityWeight(row.averageRank), 0) /
+              keywords.length) *
+            100
+          : 0;
+
+      return {
+        month,
+        year,
+        averagePosition: Math.round(averagePosition * 100) / 100,
+        impressions,
+        clicks,
+        ctr: impressions > 0 ? Math.round((clicks / impressions) * 10000) / 100 : 0,
+        visibility: Math.round(visibility * 10) / 10,
+        keywordsWithData: monthRows.length,
+      };
+    });
+  }
+}
+
+export const keywordGroupService = new KeywordGroupService();
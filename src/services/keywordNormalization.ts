@@ -0,0 +1,239 @@
+import { CampaignKeyword } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { fitsKeywordColumn, normalizeKeyword, parseKeywordList } from './campaignKeywords';
+
+export interface CampaignKeywordNormalizationResult {
+  renamed: number;
+  merged: number;
+  deleted: number;
+  imported: number;
+  legacyListsCleared: number;
+  // Keywords too long to store; their campaigns keep the legacy list
+  tooLong: { campaignId: string; keyword: string }[];
+}
+
+export interface SiteKeywordNormalizationResult {
+  renamed: number;
+  merged: number;
+  // Sites whose page, segment and monthly stats of merged keywords were
+  // dropped and need a refetch
+  refetchSites: string[];
+}
+
+const groupBy = <T>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) || []), item]);
+  }
+  return groups;
+};
+
+/**
+ * Brings stored keywords in line with normalizeKeyword. The campaign
+ * keyword migration can only lowercase and collapse whitespace in SQL, and
+ * keyword rows stored before it were never normalized, so this applies
+ * NFKC as well and merges keywords that become identical. Safe to run
+ * again; run by scripts/normalizeKeywords.ts.
+ */
+export class KeywordNormalizationService {
+  /**
+   * Normalize each campaign's keywords and copy what is left of its legacy
+   * keyword list. A legacy list is cleared once all of its keywords are
+   * stored; lists with keywords too long to store are kept and reported.
+   * Covers every campaign unless campaign IDs are given.
+   */
+  async normalizeCampaignKeywords(
+    campaignIds?: string[]
+  ): Promise<CampaignKeywordNormalizationResult> {
+    const result: CampaignKeywordNormalizationResult = {
+      renamed: 0,
+      merged: 0,
+      deleted: 0,
+      imported: 0,
+      legacyListsCleared: 0,
+      tooLong: [],
+    };
+
+    const campaigns = await prisma.campaign.findMany({
+      where: campaignIds ? { id: { in: campaignIds } } : {},
+      select: { id: true, createdAt: true, legacyKeywords: true },
+    });
+
+    for (const campaign of campaigns) {
+      await prisma.$transaction(async (tx) => {
+        const records = await tx.campaignKeyword.findMany({
+          where: { campaignId: campaign.id },
+          orderBy: [{ addedAt: 'asc' }, { id: 'asc' }],
+        });
+        const groups = groupBy(records, (record) => normalizeKeyword(record.keyword));
+
+        for (const [keyword, group] of groups) {
+          if (keyword.length === 0) {
+            await tx.campaignKeyword.deleteMany({
+              where: { id: { in: group.map((record) => record.id) } },
+            });
+            result.deleted += group.length;
+            continue;
+          }
+          if (!fitsKeywordColumn(keyword)) {
+            result.tooLong.push({ campaignId: campaign.id, keyword });
+            continue;
+          }
+          if (group.length === 1 && group[0].keyword === keyword) {
+            continue;
+          }
+
+          // Keep the oldest active record, with the earliest added date and
+          // a target URL if any of the records had one
+          const keeper: CampaignKeyword =
+            group.find((record) => record.removedAt === null) || group[0];
+          const duplicates = group.filter((record) => record.id !== keeper.id);
+          if (duplicates.length > 0) {
+            await tx.campaignKeyword.deleteMany({
+              where: { id: { in: duplicates.map((record) => record.id) } },
+            });
+            result.merged += duplicates.length;
+          }
+          await tx.campaignKeyword.update({
+            where: { id: keeper.id },
+            data: {
+              keyword,
+              addedAt: group[0].addedAt,
+              targetUrl:
+                keeper.targetUrl ?? group.find((record) => record.targetUrl)?.targetUrl ?? null,
+            },
+          });
+          if (keeper.keyword !== keyword) {
+            result.renamed++;
+          }
+        }
+
+        if (campaign.legacyKeywords === null) {
+          return;
+        }
+
+        // Keywords the SQL copy left out, e.g. blank after NFKC or too long
+        const legacy = parseKeywordList(campaign.legacyKeywords);
+        const tooLong = legacy.filter((keyword) => !fitsKeywordColumn(keyword));
+        const missing = legacy.filter(
+          (keyword) => fitsKeywordColumn(keyword) && !groups.has(keyword)
+        );
+        if (missing.length > 0) {
+          await tx.campaignKeyword.createMany({
+            data: missing.map((keyword) => ({
+              campaignId: campaign.id,
+              keyword,
+              addedAt: campaign.createdAt,
+            })),
+          });
+          result.imported += missing.length;
+        }
+
+        if (tooLong.length > 0) {
+          result.tooLong.push(
+            ...tooLong.map((keyword) => ({ campaignId: campaign.id, keyword }))
+          );
+        } else {
+          await tx.campaign.update({
+            where: { id: campaign.id },
+            data: { legacyKeywords: null },
+          });
+          result.legacyListsCleared++;
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize the sites' Search Console keyword rows. When a row becomes
+   * identical to another one of the site, the other row keeps its daily
+   * stats and takes over the days, milestones and favorites it lacks; the
+   * duplicate's page, segment and monthly stats are dropped and rebuilt by
+   * the next refetch. Covers every site unless site URLs are given.
+   */
+  async normalizeSiteKeywords(siteUrls?: string[]): Promise<SiteKeywordNormalizationResult> {
+    const result: SiteKeywordNormalizationResult = {
+      renamed: 0,
+      merged: 0,
+      refetchSites: [],
+    };
+
+    const keywords = await prisma.searchConsoleKeyword.findMany({
+      where: siteUrls ? { analytics: { siteUrl: { in: siteUrls } } } : {},
+      select: { id: true, analyticsId: true, keyword: true, analytics: { select: { siteUrl: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const groups = groupBy(
+      keywords,
+      (record) => `${record.analyticsId}\u0000${normalizeKeyword(record.keyword)}`
+    );
+    const refetchSites = new Set<string>();
+
+    for (const group of groups.values()) {
+      const keyword = normalizeKeyword(group[0].keyword);
+      if (keyword.length === 0 || !fitsKeywordColumn(keyword)) {
+        continue;
+      }
+      if (group.length === 1 && group[0].keyword === keyword) {
+        continue;
+      }
+
+      const keeper = group.find((record) => record.keyword === keyword) || group[0];
+      const duplicates = group.filter((record) => record.id !== keeper.id);
+
+      await prisma.$transaction(async (tx) => {
+        for (const duplicate of duplicates) {
+          const keeperDates = (
+            await tx.searchConsoleKeywordDailyStat.findMany({
+              where: { keywordId: keeper.id },
+              select: { date: true },
+            })
+          ).map(({ date }) => date);
+          await tx.searchConsoleKeywordDailyStat.updateMany({
+            where: { keywordId: duplicate.id, date: { notIn: keeperDates } },
+            data: { keywordId: keeper.id },
+          });
+
+          const keeperFavoriteUsers = (
+            await tx.userKeywordFavorite.findMany({
+              where: { keywordId: keeper.id },
+              select: { userId: true },
+            })
+          ).map(({ userId }) => userId);
+          await tx.userKeywordFavorite.updateMany({
+            where: { keywordId: duplicate.id, userId: { notIn: keeperFavoriteUsers } },
+            data: { keywordId: keeper.id },
+          });
+          await tx.sentMilestone.updateMany({
+            where: { keywordId: duplicate.id },
+            data: { keywordId: keeper.id },
+          });
+
+          await tx.searchConsoleKeyword.delete({ where: { id: duplicate.id } });
+        }
+
+        if (keeper.keyword !== keyword) {
+          await tx.searchConsoleKeyword.update({
+            where: { id: keeper.id },
+            data: { keyword },
+          });
+        }
+      });
+
+      if (keeper.keyword !== keyword) {
+        result.renamed++;
+      }
+      if (duplicates.length > 0) {
+        result.merged += duplicates.length;
+        refetchSites.add(keeper.analytics.siteUrl);
+      }
+    }
+
+    result.refetchSites = [...refetchSites];
+    return result;
+  }
+}
+
+export const keywordNormalizationService = new KeywordNormalizationService();
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import { prisma } from '../utils/prisma';
+
+// Days of history returned when no range is given
+const DEFAULT_HISTORY_DAYS = 90;
+
+export const hashPage = (page: string) =>
+  crypto.createHash('sha256').update(page).digest('hex');
+
+export interface KeywordPageTotals {
+  keyword: string;
+  page: string;
+  impressions: number;
+  clicks: number;
+}
+
+export interface TopPageChange {
+  date: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Reads the pages each keyword ranked with per day
+ * (SearchConsoleKeywordPageDailyStat). Rows are stored per site like the
+ * other keyword stats, so callers pass the campaign's keywords.
+ */
+export class KeywordPageHistoryService {
+  /**
+   * First and last day with page rows of each of the site's keywords.
+   * Keywords without any rows yet are left out.
+   */
+  async getStoredRanges(
+    siteUrl: string,
+    keywords: string[]
+  ): Promise<Map<string, { from: Date; to: Date }>> {
+    const keywordRecords = await prisma.searchConsoleKeyword.findMany({
+      where: { analytics: { siteUrl }, keyword: { in: keywords } },
+      select: { id: true, keyword: true },
+    });
+    const ranges = await prisma.searchConsoleKeywordPageDailyStat.groupBy({
+      by: ['keywordId'],
+      where: { keywordId: { in: keywordRecords.map((record) => record.id) } },
+      _min: { date: true },
+      _max: { date: true },
+    });
+
+    const keywordsById = new Map(keywordRecords.map((record) => [record.id, record.keyword]));
+    const storedRanges = new Map<string, { from: Date; to: Date }>();
+    for (const range of ranges) {
+      const keyword = keywordsById.get(range.keywordId);
+      if (keyword && range._min.date && range._max.date) {
+        storedRanges.set(keyword, { from: range._min.date, to: range._max.date });
+      }
+    }
+    return storedRanges;
+  }
+
+  /**
+   * Impressions and clicks of each keyword/page pair over the range
+   */
+  async getPageTotals(
+    siteUrl: string,
+    keywords: string[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<KeywordPageTotals[]> {
+    const rows = await prisma.searchConsoleKeywordPageDailyStat.findMany({
+      where: {
+        keyword: { analytics: { siteUrl }, keyword: { in: keywords } },
+        date: { gte: startDate, lte: endDate },
+      },
+      select: {
+        page: true,
+        pageHash: true,
+        impressions: true,
+        clicks: true,
+        keyword: { select: { keyword: true } },
+      },
+    });
+
+    const totals = new Map<string, KeywordPageTotals>();
+    for (const row of rows) {
+      const key = `${row.keyword.keyword}|${row.pageHash}`;
+      const total = totals.get(key) || {
+        keyword: row.keyword.keyword,
+        page: row.page,
+        impressions: 0,
+        clicks: 0,
+      };
+      total.impressions += row.impressions;
+      total.clicks += row.clicks;
+      totals.set(key, total);
+    }
+    return [...totals.values()];
+  }
+
+  /**
+   * The pages a keyword ranked with over the range: per page its totals,
+   * first and last day and on how many days it was the top page (most
+   * impressions), per day every page, and the days the top page changed.
+   * Defaults to the last 90 days.
+   */
+  async getKeywordPageHistory(
+    siteUrl: string,
+    keyword: string,
+    range: { from?: Date; to?: Date } = {}
+  ) {
+    const to = moment.utc(range.to || new Date()).endOf('day');
+    const from = range.from
+      ? moment.utc(range.from).startOf('day')
+      : to.clone().subtract(DEFAULT_HISTORY_DAYS - 1, 'days').startOf('day');
+
+    const rows = await prisma.searchConsoleKeywordPageDailyStat.findMany({
+      where: {
+        keyword: { analytics: { siteUrl }, keyword },
+        date: { gte: from.toDate(), lte: to.toDate() },
+      },
+      orderBy: [{ date: 'asc' }, { impressions: 'desc' }, { position: 'asc' }],
+    });
+
+    const days = new Map<
+      string,
+      { page: string; impressions: number; clicks: number; ctr: number; position: number }[]
+    >();
+    for (const row of rows) {
+      const date = moment.utc(row.date).format('YYYY-MM-DD');
+      days.set(date, [
+        ...(days.get(date) || []),
+        {
+          page: row.page,
+          impressions: row.impressions,
+          clicks: row.clicks,
+          ctr: row.ctr,
+          position: row.position,
+        },
+      ]);
+    }
+
+    const pages = new Map<
+      string,
+      {
+        page: string;
+        firstSeen: string;
+        lastSeen: string;
+        days: number;
+        daysAsTop: number;
+        impressions: number;
+        clicks: number;
+        weightedPosition: number;
+      }
+    >();
+    const changes: TopPageChange[] = [];
+    let previousTop: string | null = null;
+
+    for (const [date, dayPages] of days) {
+      // Rows are ordered by impressions, so the first page is the top one
+      const top = dayPages[0].page;
+      if (previousTop !== null && top !== previousTop) {
+        changes.push({ date, from: previousTop, to: top });
+      }
+      previousTop = top;
+
+      for (const dayPage of dayPages) {
+        const page = pages.get(dayPage.page) || {
+          page: dayPage.page,
+          firstSeen: date,
+          lastSeen: date,
+          days: 0,
+          daysAsTop: 0,
+          impressions: 0,
+          clicks: 0,
+          weightedPosition: 0,
+        };
+        page.lastSeen = date;
+        page.days++;
+        page.daysAsTop += dayPage.page === top ? 1 : 0;
+        page.impressions += dayPage.impressions;
+        page.clicks += dayPage.clicks;
+        page.weightedPosition += dayPage.position * dayPage.impressions;
+        pages.set(dayPage.page, page);
+      }
+    }
+
+    return {
+      keyword,
+      from: from.format('YYYY-MM-DD'),
+      to: to.format('YYYY-MM-DD'),
+      pages: [...pages.values()]
+        .map(({ weightedPosition, ...page }) => ({
+          ...page,
+          averagePosition:
+            page.impressions > 0
+              ? Math.round((weightedPosition / page.impressions) * 10) / 10
+              : 0,
+        }))
+        .sort((a, b) => b.daysAsTop - a.daysAsTop || b.impressions - a.impressions),
+      days: [...days].map(([date, dayPages]) => ({ date, pages: dayPages })),
+      changes,
+    };
+  }
+}
+
+export const keywordPageHistoryService = new KeywordPageHistoryService();
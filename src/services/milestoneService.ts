@@ -1,5 +1,6 @@
 import { prisma } from '../utils/prisma';
 import { WhatsAppService } from './whatsappService';
+import { campaignKeywordService } from './campaignKeywords';
 import nodemailer from 'nodemailer';
 import { MilestoneCategory } from '@prisma/client';
 
@@ -159,6 +160,9 @@ export class MilestoneService {
       // Check click milestones
       await this.checkClickMilestones(campaign, result);
 
+      // Check keyword click milestones
+      await this.checkKeywordClickMilestones(campaign, result);
+
       console.log(`✅ Milestone check completed for ${campaign.name}: ${result.milestonesAchieved} achieved, ${result.notificationsSent} notifications sent`);
 
       return result;
@@ -184,10 +188,15 @@ export class MilestoneService {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
+    // Only the campaign's own keywords; other campaigns on the site share
+    // the keyword rows
+    const keywords = await campaignKeywordService.getActiveKeywords(campaign.id);
+
     const keywordStats = await prisma.searchConsoleKeywordDailyStat.findMany({
       where: {
         date: { gte: sevenDaysAgo },
         keyword: {
+          keyword: { in: keywords },
           analytics: {
             siteUrl: campaign.searchConsoleSite,
           },
@@ -281,7 +290,10 @@ export class MilestoneService {
       return;
     }
 
-    // Get total clicks since campaign start date
+    // Get total clicks since campaign start date. Site-wide on purpose:
+    // keyword clicks only count the tracked keywords, and days stored before
+    // clicks were captured have none. Keyword clicks have their own
+    // milestones (KEYWORD_CLICKS).
     const totalClicks = await prisma.searchConsoleTrafficDaily.aggregate({
       where: {
         date: { gte: campaign.startingDate },
@@ -348,6 +360,100 @@ export class MilestoneService {
     }
   }
 
+  /**
+   * Check keyword click milestones for a campaign: a keyword's clicks since
+   * the campaign start date, from its daily stats
+   */
+  private async checkKeywordClickMilestones(campaign: any, result: MilestoneCheckResult): Promise<void> {
+    const keywordClickPreferences = campaign.milestonePreferences.filter(
+      (pref: any) => pref.milestoneType.type === MilestoneCategory.KEYWORD_CLICKS
+    );
+
+    if (keywordClickPreferences.length === 0) {
+      return;
+    }
+
+    // Only the campaign's own keywords; other campaigns on the site share
+    // the keyword rows
+    const keywords = await campaignKeywordService.getActiveKeywords(campaign.id);
+
+    const keywordClicks = await prisma.searchConsoleKeywordDailyStat.groupBy({
+      by: ['keywordId'],
+      where: {
+        date: { gte: campaign.startingDate },
+        keyword: {
+          keyword: { in: keywords },
+          analytics: {
+            siteUrl: campaign.searchConsoleSite,
+          },
+        },
+      },
+      _sum: {
+        clicks: true,
+      },
+    });
+    const keywordRecords = await prisma.searchConsoleKeyword.findMany({
+      where: { id: { in: keywordClicks.map((row) => row.keywordId) } },
+      select: { id: true, keyword: true },
+    });
+    const keywordsById = new Map(keywordRecords.map((record) => [record.id, record.keyword]));
+
+    // Check each keyword click milestone
+    for (const preference of keywordClickPreferences) {
+      const targetClicks = preference.milestoneType.threshold;
+      if (!targetClicks) continue;
+
+      for (const row of keywordClicks) {
+        const clicks = row._sum.clicks || 0;
+        const keyword = keywordsById.get(row.keywordId);
+        if (clicks < targetClicks || !keyword) continue;
+
+        // Check if milestone already sent
+        const existingMilestone = await prisma.sentMilestone.findFirst({
+          where: {
+            campaignId: campaign.id,
+            milestoneTypeId: preference.milestoneTypeId,
+            keywordId: row.keywordId,
+          },
+        });
+
+        if (!existingMilestone) {
+          result.milestonesAchieved++;
+
+          // Send notifications
+          const notificationSent = await this.sendMilestoneNotifications(
+            campaign,
+            preference,
+            keyword,
+            clicks,
+            new Date()
+          );
+
+          if (notificationSent.success) {
+            result.notificationsSent++;
+
+            // Record the sent milestone
+            await prisma.sentMilestone.create({
+              data: {
+                campaignId: campaign.id,
+                milestoneTypeId: preference.milestoneTypeId,
+                keywordId: row.keywordId,
+                achievedAt: new Date(),
+                emailSent: notificationSent.emailSent,
+                whatsappSent: notificationSent.whatsappSent,
+                emailError: notificationSent.emailError,
+                whatsappError: notificationSent.whatsappError,
+                metricValue: clicks,
+              },
+            });
+          } else {
+            result.errors.push(`Failed to send notifications for ${keyword} ${targetClicks} clicks milestone`);
+          }
+        }
+      }
+    }
+  }
+
   /**
    * Send milestone notifications via email and WhatsApp
    */
@@ -584,6 +690,8 @@ export class MilestoneService {
         { name: 'clicks_500', displayName: '500 Clicks', type: MilestoneCategory.CLICKS, threshold: 500 },
         { name: 'clicks_1000', displayName: '1,000 Clicks', type: MilestoneCategory.CLICKS, threshold: 1000 },
         { name: 'clicks_5000', displayName: '5,000 Clicks', type: MilestoneCategory.CLICKS, threshold: 5000 },
+        { name: 'keyword_clicks_100', displayName: '100 Clicks on a Keyword', type: MilestoneCategory.KEYWORD_CLICKS, threshold: 100 },
+        { name: 'keyword_clicks_1000', displayName: '1,000 Clicks on a Keyword', type: MilestoneCategory.KEYWORD_CLICKS, threshold: 1000 },
       ];
 
       for (const milestone of defaultMilestones) {
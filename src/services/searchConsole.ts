@@ -1,18 +1,180 @@
-import { google, webmasters_v3 } from 'googleapis';
+import { google, webmasters_v3, searchconsole_v1, Auth } from 'googleapis';
 import { PrismaClient, GoogleAccount, Campaign } from '@prisma/client';
 import moment from 'moment-timezone';
+import { decryptSecret, encryptSecret } from '../utils/tokenEncryption';
+import { createGoogleOAuthClient } from '../utils/googleOAuthState';
+import {
+  classifyGoogleError,
+  googleAccountHealthService,
+} from './googleAccountHealth';
+import {
+  searchConsoleScheduler,
+  SearchConsolePriority,
+} from './searchConsoleScheduler';
+import {
+  SearchConsoleClient,
+  GoogleSearchConsoleClient,
+  getFakeSearchConsoleClient,
+  isFakeSearchConsoleEnabled,
+} from './searchConsoleClient';
 
 const MAX_SEARCH_CONSOLE_ROWS = 25000;
-const QUOTA_MAX_RETRIES = 3;
-const QUOTA_SHORT_TERM_QUOTA_WAIT = 15 * 60 * 1000; // 15 minutes in milliseconds
+
+// Scopes requested for service accounts, matching what OAuth accounts consent to
+const SERVICE_ACCOUNT_SCOPES = ['https://www.googleapis.com/auth/webmasters'];
 
 const prisma = new PrismaClient();
 
+// Health fields of a Google account that are safe to return to clients
+export const googleAccountHealthSelect = {
+  id: true,
+  email: true,
+  isActive: true,
+  lastSuccessAt: true,
+  lastErrorAt: true,
+  lastError: true,
+  errorClass: true,
+} as const;
+
 export interface SearchConsoleSite {
   siteUrl: string;
   permissionLevel: string;
 }
 
+// A sitemap submitted for a property; counts are summed over its content types
+export interface SearchConsoleSitemap {
+  path: string;
+  lastSubmitted: Date | null;
+  lastDownloaded: Date | null;
+  isPending: boolean;
+  isSitemapsIndex: boolean;
+  submitted: number;
+  indexed: number;
+  errors: number;
+  warnings: number;
+}
+
+// Permission levels that can read Search Analytics data
+const READABLE_PERMISSION_LEVELS = ['siteOwner', 'siteFullUser', 'siteRestrictedUser'];
+
+export type SearchConsolePropertyErrorCode =
+  | 'INVALID_PROPERTY'
+  | 'ACCOUNT_UNAVAILABLE'
+  | 'PROPERTY_NOT_FOUND'
+  | 'INSUFFICIENT_PERMISSION';
+
+/**
+ * A campaign's property can't be read with its Google account. `details`
+ * is returned to the client as-is so the form can show what went wrong.
+ */
+export class SearchConsolePropertyError extends Error {
+  constructor(
+    public readonly code: SearchConsolePropertyErrorCode,
+    message: string,
+    public readonly details: {
+      field: 'searchConsoleSite';
+      siteUrl: string;
+      permissionLevel?: string;
+      availableSites?: string[];
+    }
+  ) {
+    super(message);
+    this.name = 'SearchConsolePropertyError';
+  }
+}
+
+/**
+ * Normalize a property to the form Search Console lists it in: domain
+ * properties as `sc-domain:<host>`, URL-prefix properties as a URL ending in
+ * `/`. Hosts are lowercased. Returns null for values that are neither.
+ */
+export const normalizeSearchConsoleSite = (site: string): string | null => {
+  const value = site.trim();
+
+  if (/^sc-domain:/i.test(value)) {
+    const host = value.slice('sc-domain:'.length).trim().toLowerCase();
+    return /^[a-z0-9.-]+$/.test(host) ? `sc-domain:${host}` : null;
+  }
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    const path = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+    return `${url.protocol}//${url.host.toLowerCase()}${path}`;
+  } catch {
+    return null;
+  }
+};
+
+// A bare host could be either kind of property; the domain property wins
+const siteCandidates = (site: string): string[] => {
+  const normalized = normalizeSearchConsoleSite(site);
+  if (normalized) {
+    return [normalized];
+  }
+  const host = site.trim().toLowerCase().replace(/\/+$/, '');
+  if (!/^[a-z0-9.-]+$/.test(host)) {
+    return [];
+  }
+  return [`sc-domain:${host}`, `https://${host}/`, `http://${host}/`];
+};
+
+// The fields of a Google Cloud service account JSON key that are used
+export interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+}
+
+/**
+ * Parse a service account JSON key as downloaded from Google Cloud
+ */
+export const parseServiceAccountKey = (json: string): ServiceAccountKey => {
+  let key: any;
+  try {
+    key = JSON.parse(json);
+  } catch {
+    throw new Error('Service account key is not valid JSON');
+  }
+
+  if (
+    key?.type !== 'service_account' ||
+    typeof key.client_email !== 'string' ||
+    typeof key.private_key !== 'string'
+  ) {
+    throw new Error(
+      'Service account key must be a Google Cloud service account JSON key'
+    );
+  }
+
+  return { client_email: key.client_email, private_key: key.private_key };
+};
+
+const createServiceAccountClient = (key: ServiceAccountKey) =>
+  new google.auth.JWT({
+    email: key.client_email,
+    key: key.private_key,
+    scopes: SERVICE_ACCOUNT_SCOPES,
+  });
+
+export const decryptServiceAccountKey = (
+  account: Pick<GoogleAccount, 'email' | 'serviceAccountKey'>
+): ServiceAccountKey => {
+  if (!account.serviceAccountKey) {
+    throw new Error(`Google account ${account.email} has no service account key`);
+  }
+  return parseServiceAccountKey(decryptSecret(account.serviceAccountKey));
+};
+
+/**
+ * Mint an access token with a service account key. Also checks that the key
+ * is still valid.
+ */
+export const authorizeServiceAccount = (
+  key: ServiceAccountKey
+): Promise<Auth.Credentials> => createServiceAccountClient(key).authorize();
+
 /**
  * Service for interacting with Google Search Console API
  * 
@@ -36,17 +198,6 @@ export interface SearchConsoleSite {
  *    - Recalculates CTR based on aggregated metrics
  */
 export class SearchConsoleService {
-  private oauth2Client: any;
-
-  constructor() {
-    this.oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI ||
-        'http://localhost:3001/auth/google/callback'
-    );
-  }
-
   async getSitesForAccount(accountId: string): Promise<SearchConsoleSite[]> {
     try {
       // Get the Google account from database
@@ -62,22 +213,15 @@ export class SearchConsoleService {
         throw new Error('Google account is not active');
       }
 
-      await this.authenticate(account);
-
-      // Create Search Console API client
-      const searchConsole = google.searchconsole({
-        version: 'v1',
-        auth: this.oauth2Client,
-      });
+      const client = await this.getClient(account);
 
       // Get sites
-      const response = await searchConsole.sites.list();
+      const siteEntries = await searchConsoleScheduler.schedule(
+        { accountId: account.id },
+        () => client.listSites()
+      );
 
-      if (!response.data.siteEntry) {
-        return [];
-      }
-
-      return response.data.siteEntry.map((site: any) => ({
+      return siteEntries.map((site: any) => ({
         siteUrl: site.siteUrl,
         permissionLevel: site.permissionLevel,
       }));
@@ -87,7 +231,68 @@ export class SearchConsoleService {
     }
   }
 
-  async getAllSites(): Promise<
+  /**
+   * Check that an account can read a property and return the property in the
+   * form Search Console lists it, with the account's permission level
+   */
+  async resolveSiteForAccount(
+    accountId: string,
+    site: string
+  ): Promise<SearchConsoleSite> {
+    const candidates = siteCandidates(site);
+    if (candidates.length === 0) {
+      throw new SearchConsolePropertyError(
+        'INVALID_PROPERTY',
+        'Enter a URL-prefix property (https://example.com/) or a domain property (sc-domain:example.com)',
+        { field: 'searchConsoleSite', siteUrl: site }
+      );
+    }
+
+    let sites: SearchConsoleSite[];
+    try {
+      sites = await this.getSitesForAccount(accountId);
+    } catch (error) {
+      throw new SearchConsolePropertyError(
+        'ACCOUNT_UNAVAILABLE',
+        error instanceof Error ? error.message : 'Failed to fetch Search Console sites',
+        { field: 'searchConsoleSite', siteUrl: site }
+      );
+    }
+
+    const bySiteUrl = new Map(
+      sites.map((entry) => [normalizeSearchConsoleSite(entry.siteUrl), entry])
+    );
+    const match = candidates
+      .map((candidate) => bySiteUrl.get(candidate))
+      .find(Boolean);
+
+    if (!match) {
+      throw new SearchConsolePropertyError(
+        'PROPERTY_NOT_FOUND',
+        `The Google account has no access to ${site}`,
+        {
+          field: 'searchConsoleSite',
+          siteUrl: site,
+          availableSites: sites.map((entry) => entry.siteUrl),
+        }
+      );
+    }
+    if (!READABLE_PERMISSION_LEVELS.includes(match.permissionLevel)) {
+      throw new SearchConsolePropertyError(
+        'INSUFFICIENT_PERMISSION',
+        `The Google account's permission on ${match.siteUrl} (${match.permissionLevel}) can't read search data`,
+        {
+          field: 'searchConsoleSite',
+          siteUrl: match.siteUrl,
+          permissionLevel: match.permissionLevel,
+        }
+      );
+    }
+
+    return match;
+  }
+
+  async getAllSites(workspaceId?: string): Promise<
     {
       accountId: string;
       accountName: string;
@@ -96,28 +301,25 @@ export class SearchConsoleService {
     }[]
   > {
     try {
-      // Get all active Google accounts
+      // Get all active Google accounts, optionally limited to one workspace
       const accounts = await prisma.googleAccount.findMany({
-        where: { isActive: true },
+        where: { isActive: true, ...(workspaceId ? { workspaceId } : {}) },
       });
 
       const results = [];
 
       for (const account of accounts) {
         try {
-          await this.authenticate(account);
-
-          // Create Search Console API client
-          const searchConsole = google.searchconsole({
-            version: 'v1',
-            auth: this.oauth2Client,
-          });
+          const client = await this.getClient(account);
 
           // Get sites
-          const response = await searchConsole.sites.list();
+          const siteEntries = await searchConsoleScheduler.schedule(
+            { accountId: account.id },
+            () => client.listSites()
+          );
 
-          if (response.data.siteEntry) {
-            const sites = response.data.siteEntry.map((site: any) => ({
+          if (siteEntries.length > 0) {
+            const sites = siteEntries.map((site: any) => ({
               siteUrl: site.siteUrl,
               permissionLevel: site.permissionLevel,
             }));
@@ -155,9 +357,12 @@ export class SearchConsoleService {
    * @param campaign The campaign to fetch data for
    * @param googleAccount The Google account to use for authentication
    * @param waitForAllData Whether to wait for all data to be fetched (retry on quota errors)
+   * @param priority Scheduling priority; background for cron jobs and backfills
    * @param startAt Optional start date override
    * @param endAt Optional end date override
    * @param dimensions The dimensions to fetch data for
+   * @param searchType Search type to query; Search Console defaults to web
+   * @param filters Extra dimension filters, e.g. a device or country segment
    * @returns The analytics data or null if an error occurred
    */
   async getAnalytics({
@@ -168,32 +373,32 @@ export class SearchConsoleService {
     endAt,
     dimensions,
     exactUrlMatch,
-    topRankingPageUrl
+    topRankingPageUrl,
+    priority = 'interactive',
+    searchType,
+    filters,
   }: {
     campaign: Campaign;
     googleAccount: GoogleAccount;
     waitForAllData?: boolean;
+    priority?: SearchConsolePriority;
     startAt?: moment.Moment;
     endAt?: moment.Moment;
     dimensions?: webmasters_v3.Schema$SearchAnalyticsQueryRequest['dimensions'];
     exactUrlMatch?: boolean;
     topRankingPageUrl?: string;
+    searchType?: string;
+    filters?: webmasters_v3.Schema$ApiDimensionFilter[];
   }): Promise<webmasters_v3.Schema$ApiDataRow[] | null> {
     try {
       if (!googleAccount) {
         throw new Error('Google account not found');
       }
 
-      await this.authenticate(googleAccount);
-
-      const webmasters = google.webmasters({
-        version: 'v3',
-        auth: this.oauth2Client,
-      });
+      const client = await this.getClient(googleAccount);
 
       const rows: webmasters_v3.Schema$ApiDataRow[] = [];
       let startRow = 0;
-      let retryCount = 0;
 
       // Calculate date ranges based on new requirements
       // If startAt and endAt are provided, use them as overrides
@@ -253,50 +458,42 @@ export class SearchConsoleService {
           } else {
             requestBody.dimensions = dimensions;
           }
+
+          if (searchType) {
+            requestBody.searchType = searchType;
+          }
+          if (filters && filters.length > 0) {
+            requestBody.dimensionFilterGroups = [{ groupType: 'and', filters }];
+          }
           
-          const response = await webmasters.searchanalytics.query({
-            siteUrl: campaign.searchConsoleSite,
-            requestBody,
-          });
-
-          if (
-            !response.data ||
-            !response.data.rows ||
-            !response.data.rows.length
-          ) {
+          // Rate limited and retried on quota errors by the shared scheduler
+          const response = await searchConsoleScheduler.schedule(
+            {
+              accountId: googleAccount.id,
+              siteUrl: campaign.searchConsoleSite,
+              priority,
+              retryOnQuota: waitForAllData,
+            },
+            () =>
+              client.querySearchAnalytics(campaign.searchConsoleSite, requestBody)
+          );
+
+          if (!response || !response.rows || !response.rows.length) {
             break;
           }
 
-          rows.push(...response.data.rows);
+          rows.push(...response.rows);
 
           // If less than max rows, we've reached the end
-          if (response.data.rows.length < MAX_SEARCH_CONSOLE_ROWS) {
+          if (response.rows.length < MAX_SEARCH_CONSOLE_ROWS) {
             break;
           }
 
           startRow += MAX_SEARCH_CONSOLE_ROWS;
-          retryCount = 0; // Reset retry count on successful request
-
-          // Add a small delay between requests to avoid hitting short-term quota
-          await new Promise((resolve) => setTimeout(resolve, 2000));
         } catch (error: any) {
-          if (
-            error.message?.includes('quota') &&
-            retryCount < QUOTA_MAX_RETRIES
-          ) {
-            // If we're not waiting for all data, break the loop
-            if (!waitForAllData) break;
-
-            console.error(
-              `Quota exceeded. Waiting ${
-                QUOTA_SHORT_TERM_QUOTA_WAIT / 1000 / 60
-              } minutes before retry ${retryCount + 1}/${QUOTA_MAX_RETRIES}`
-            );
-            await new Promise((resolve) =>
-              setTimeout(resolve, QUOTA_SHORT_TERM_QUOTA_WAIT)
-            );
-            retryCount++;
-            continue;
+          // If we're not waiting for all data, return what was fetched
+          if (!waitForAllData && classifyGoogleError(error) === 'QUOTA') {
+            break;
           }
           throw error;
         }
@@ -305,10 +502,174 @@ export class SearchConsoleService {
       return rows;
     } catch (error) {
       console.error('Error fetching Search Console analytics:', error);
+      // Token refresh failures are recorded by refreshToken; record API
+      // errors that point at the account rather than this request
+      if (googleAccount && classifyGoogleError(error) !== 'OTHER') {
+        await googleAccountHealthService.recordFailure(googleAccount, error);
+      }
       throw new Error(`Failed to fetch Search Console analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Run the URL Inspection API on a page of the property. Errors are
+   * rethrown as is so callers can tell quota errors apart.
+   */
+  async inspectUrl({
+    googleAccount,
+    siteUrl,
+    url,
+    priority = 'interactive',
+  }: {
+    googleAccount: GoogleAccount;
+    siteUrl: string;
+    url: string;
+    priority?: SearchConsolePriority;
+  }): Promise<searchconsole_v1.Schema$UrlInspectionResult> {
+    try {
+      const client = await this.getClient(googleAccount);
+      // URL inspection has its own per-property quota, separate from
+      // Search Analytics queries
+      return await searchConsoleScheduler.schedule(
+        {
+          accountId: googleAccount.id,
+          siteUrl: `urlInspection:${siteUrl}`,
+          priority,
+        },
+        () => client.inspectUrl(siteUrl, url)
+      );
+    } catch (error) {
+      // Record API errors that point at the account rather than this page
+      if (classifyGoogleError(error) !== 'OTHER') {
+        await googleAccountHealthService.recordFailure(googleAccount, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the sitemaps submitted for a property with their submitted and
+   * indexed URL counts, errors and warnings
+   */
+  async listSitemaps({
+    googleAccount,
+    siteUrl,
+    priority = 'interactive',
+  }: {
+    googleAccount: GoogleAccount;
+    siteUrl: string;
+    priority?: SearchConsolePriority;
+  }): Promise<SearchConsoleSitemap[]> {
+    try {
+      const client = await this.getClient(googleAccount);
+      const sitemaps = await searchConsoleScheduler.schedule(
+        { accountId: googleAccount.id, siteUrl, priority },
+        () => client.listSitemaps(siteUrl)
+      );
+
+      // The API returns counts as int64 strings
+      const count = (value?: string | null) => Number(value) || 0;
+
+      return sitemaps
+        .filter((sitemap) => sitemap.path)
+        .map((sitemap) => ({
+          path: sitemap.path!,
+          lastSubmitted: sitemap.lastSubmitted ? new Date(sitemap.lastSubmitted) : null,
+          lastDownloaded: sitemap.lastDownloaded ? new Date(sitemap.lastDownloaded) : null,
+          isPending: !!sitemap.isPending,
+          isSitemapsIndex: !!sitemap.isSitemapsIndex,
+          submitted: (sitemap.contents || []).reduce(
+            (sum, content) => sum + count(content.submitted),
+            0
+          ),
+          indexed: (sitemap.contents || []).reduce(
+            (sum, content) => sum + count(content.indexed),
+            0
+          ),
+          errors: count(sitemap.errors),
+          warnings: count(sitemap.warnings),
+        }));
+    } catch (error) {
+      console.error(`Error listing sitemaps for ${siteUrl}:`, error);
+      if (classifyGoogleError(error) !== 'OTHER') {
+        await googleAccountHealthService.recordFailure(googleAccount, error);
+      }
+      throw new Error(`Failed to list sitemaps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check that an account can still refresh its token and reach Search
+   * Console, recording the outcome on the account
+   */
+  async checkAccountHealth(accountId: string) {
+    const account = await prisma.googleAccount.findUnique({
+      where: { id: accountId },
+    });
+
+    if (!account) {
+      throw new Error('Google account not found');
+    }
+
+    let refreshed = false;
+    try {
+      // Always refresh: it proves the refresh token still works
+      if (!isFakeSearchConsoleEnabled()) {
+        await this.refreshToken(account);
+      }
+      refreshed = true;
+
+      const client = await this.getClient(account);
+      await searchConsoleScheduler.schedule(
+        { accountId: account.id, priority: 'background' },
+        () => client.listSites()
+      );
+
+      await googleAccountHealthService.recordSuccess(account.id);
+    } catch (error) {
+      console.error(`Health check failed for Google account ${account.email}:`, error);
+      // refreshToken records its own failures
+      if (refreshed) {
+        await googleAccountHealthService.recordFailure(account, error);
+      }
+    }
+
+    return prisma.googleAccount.findUniqueOrThrow({
+      where: { id: account.id },
+      select: googleAccountHealthSelect,
+    });
+  }
+
+  /**
+   * Run the health check for every active account
+   */
+  async checkAllAccountsHealth(): Promise<void> {
+    const accounts = await prisma.googleAccount.findMany({
+      where: { isActive: true },
+      select: { id: true },
+    });
+
+    for (const account of accounts) {
+      await this.checkAccountHealth(account.id);
+    }
+  }
+
+  /**
+   * Search Console client for the account: the local fake when configured,
+   * otherwise Google with the account's credentials
+   */
+  private async getClient(account: GoogleAccount): Promise<SearchConsoleClient> {
+    return (
+      getFakeSearchConsoleClient() ||
+      new GoogleSearchConsoleClient(await this.authenticate(account))
+    );
+  }
+
+  /**
+   * Get an auth client for the account, renewing its access token first when
+   * it has expired. OAuth accounts use their refresh token; service accounts
+   * mint a new token with their key.
+   */
   private async authenticate(account: GoogleAccount) {
     try {
       // Check if token is expired
@@ -317,58 +678,82 @@ export class SearchConsoleService {
         await this.refreshToken(account);
       }
 
-      // Set credentials
-      this.oauth2Client.setCredentials({
-        access_token: account.accessToken,
-        refresh_token: account.refreshToken,
+      // Set credentials (stored encrypted)
+      const auth = this.createAuthClient(account);
+      auth.setCredentials({
+        access_token: decryptSecret(account.accessToken),
+        expiry_date: new Date(account.expiresAt).getTime(),
+        ...(account.refreshToken
+          ? { refresh_token: decryptSecret(account.refreshToken) }
+          : {}),
       });
+      return auth;
     } catch (error) {
       console.error('Error refreshing token:', error);
       throw new Error(`Failed to refresh access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async refreshToken(account: any): Promise<void> {
+  private createAuthClient(account: GoogleAccount): Auth.OAuth2Client {
+    return account.credentialType === 'SERVICE_ACCOUNT'
+      ? createServiceAccountClient(decryptServiceAccountKey(account))
+      : createGoogleOAuthClient();
+  }
+
+  private async refreshToken(account: GoogleAccount): Promise<void> {
     try {
-      this.oauth2Client.setCredentials({
-        refresh_token: account.refreshToken,
-      });
+      let credentials: Auth.Credentials;
+      if (account.credentialType === 'SERVICE_ACCOUNT') {
+        credentials = await authorizeServiceAccount(
+          decryptServiceAccountKey(account)
+        );
+      } else {
+        if (!account.refreshToken) {
+          throw new Error(`Google account ${account.email} has no refresh token`);
+        }
+        const oauth2Client = createGoogleOAuthClient();
+        oauth2Client.setCredentials({
+          refresh_token: decryptSecret(account.refreshToken),
+        });
+        ({ credentials } = await oauth2Client.refreshAccessToken());
+      }
 
-      const { credentials } = await this.oauth2Client.refreshAccessToken();
+      const accessToken = encryptSecret(credentials.access_token!);
+      const refreshToken = credentials.refresh_token
+        ? encryptSecret(credentials.refresh_token)
+        : account.refreshToken;
 
       // Update account with new tokens
       await prisma.googleAccount.update({
         where: { id: account.id },
         data: {
-          accessToken: credentials.access_token!,
-          refreshToken: credentials.refresh_token || account.refreshToken,
+          accessToken,
+          refreshToken,
           expiresAt: new Date(credentials.expiry_date!),
           isActive: true,
         },
       });
 
       // Update the account object for this request
-      account.accessToken = credentials.access_token!;
-      account.refreshToken = credentials.refresh_token || account.refreshToken;
+      account.accessToken = accessToken;
+      account.refreshToken = refreshToken;
       account.expiresAt = new Date(credentials.expiry_date!);
+
+      await googleAccountHealthService.recordSuccess(account.id);
     } catch (error: any) {
       console.error('Error refreshing token:', error);
 
-      // Check if it's an invalid_grant error (refresh token is invalid)
-      if (error?.response?.data?.error === 'invalid_grant') {
+      // Deactivates revoked accounts, marks their campaigns and alerts admins
+      const errorClass = await googleAccountHealthService.recordFailure(
+        account,
+        error
+      );
+
+      if (errorClass === 'REVOKED') {
         console.log(
-          `Refresh token invalid for account ${account.email}. Marking as needing re-authentication.`
+          `Refresh token invalid for account ${account.email}. Marked as needing re-authentication.`
         );
 
-        // Mark account as needing re-authentication
-        await prisma.googleAccount.update({
-          where: { id: account.id },
-          data: {
-            isActive: false,
-            // You could add a field like needsReauth: true if you want to track this specifically
-          },
-        });
-
         throw new Error(
           `Google account ${account.email} needs to be re-authenticated. Please reconnect your Google account.`
         );
@@ -0,0 +1,83 @@
+import { google, webmasters_v3, searchconsole_v1, Auth } from 'googleapis';
+import { createFakeSearchConsoleClient } from './fakeSearchConsoleClient';
+
+/**
+ * The Search Console calls the app makes. The Google implementation is used
+ * in production; with SEARCH_CONSOLE_FAKE_DATA set every account reads a
+ * local fixture file instead (see fakeSearchConsoleClient.ts).
+ */
+export interface SearchConsoleClient {
+  listSites(): Promise<webmasters_v3.Schema$WmxSite[]>;
+  querySearchAnalytics(
+    siteUrl: string,
+    requestBody: webmasters_v3.Schema$SearchAnalyticsQueryRequest
+  ): Promise<webmasters_v3.Schema$SearchAnalyticsQueryResponse>;
+  inspectUrl(
+    siteUrl: string,
+    inspectionUrl: string
+  ): Promise<searchconsole_v1.Schema$UrlInspectionResult>;
+  listSitemaps(siteUrl: string): Promise<searchconsole_v1.Schema$WmxSitemap[]>;
+}
+
+export class GoogleSearchConsoleClient implements SearchConsoleClient {
+  constructor(private readonly auth: Auth.OAuth2Client) {}
+
+  async listSites(): Promise<webmasters_v3.Schema$WmxSite[]> {
+    const searchConsole = google.searchconsole({
+      version: 'v1',
+      auth: this.auth,
+    });
+    const response = await searchConsole.sites.list();
+    return response.data.siteEntry || [];
+  }
+
+  async querySearchAnalytics(
+    siteUrl: string,
+    requestBody: webmasters_v3.Schema$SearchAnalyticsQueryRequest
+  ): Promise<webmasters_v3.Schema$SearchAnalyticsQueryResponse> {
+    const webmasters = google.webmasters({
+      version: 'v3',
+      auth: this.auth,
+    });
+    const response = await webmasters.searchanalytics.query({
+      siteUrl,
+      requestBody,
+    });
+    return response.data;
+  }
+
+  async inspectUrl(
+    siteUrl: string,
+    inspectionUrl: string
+  ): Promise<searchconsole_v1.Schema$UrlInspectionResult> {
+    const searchConsole = google.searchconsole({
+      version: 'v1',
+      auth: this.auth,
+    });
+    const response = await searchConsole.urlInspection.index.inspect({
+      requestBody: { siteUrl, inspectionUrl },
+    });
+    return response.data.inspectionResult || {};
+  }
+
+  async listSitemaps(siteUrl: string): Promise<searchconsole_v1.Schema$WmxSitemap[]> {
+    const searchConsole = google.searchconsole({
+      version: 'v1',
+      auth: this.auth,
+    });
+    const response = await searchConsole.sitemaps.list({ siteUrl });
+    return response.data.sitemap || [];
+  }
+}
+
+export const isFakeSearchConsoleEnabled = (): boolean =>
+  !!process.env.SEARCH_CONSOLE_FAKE_DATA;
+
+/**
+ * The fake client when SEARCH_CONSOLE_FAKE_DATA is set, otherwise null.
+ * Callers only authenticate against Google when this returns null.
+ */
+export const getFakeSearchConsoleClient = (): SearchConsoleClient | null =>
+  isFakeSearchConsoleEnabled()
+    ? createFakeSearchConsoleClient(process.env.SEARCH_CONSOLE_FAKE_DATA!)
+    : null;
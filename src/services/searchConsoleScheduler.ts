@@ -0,0 +1,335 @@
+import { classifyGoogleError } from './googleAccountHealth';
+
+// Search Console allows 1,200 queries per minute per property and per user,
+// and 40,000 per minute per project. The defaults stay well below that so
+// retries and expensive (page + query) requests have headroom.
+const PROPERTY_QUERIES_PER_MINUTE =
+  Number(process.env.SEARCH_CONSOLE_PROPERTY_QPM) || 600;
+const ACCOUNT_QUERIES_PER_MINUTE =
+  Number(process.env.SEARCH_CONSOLE_ACCOUNT_QPM) || 600;
+const PROJECT_QUERIES_PER_MINUTE =
+  Number(process.env.SEARCH_CONSOLE_PROJECT_QPM) || 20000;
+// Requests a bucket allows back to back before it has to refill
+const BUCKET_BURST = 5;
+const MAX_CONCURRENT_REQUESTS = 4;
+const QUOTA_MAX_RETRIES = 3;
+// Wait before each retry after a quota error; short-term quota resets
+// within 15 minutes
+const QUOTA_BACKOFF_MS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+
+// Interactive requests (someone is waiting on the page) run before
+// background work such as cron jobs and backfills
+export type SearchConsolePriority = 'interactive' | 'background';
+
+const PRIORITY_ORDER: Record<SearchConsolePriority, number> = {
+  interactive: 0,
+  background: 1,
+};
+
+export interface SearchConsoleRequestOptions {
+  // The Google account making the call
+  accountId: string;
+  // The property queried; omitted for account-level calls such as sites.list
+  siteUrl?: string;
+  priority?: SearchConsolePriority;
+  // Wait and retry on quota errors instead of failing
+  retryOnQuota?: boolean;
+}
+
+export interface SearchConsoleSchedulerMetrics {
+  queued: Record<SearchConsolePriority, number>;
+  running: number;
+  completed: number;
+  failed: number;
+  quotaErrors: number;
+  retries: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  // Properties and accounts held back after a quota error
+  blocked: { key: string; until: Date }[];
+}
+
+export class SearchConsoleQuotaError extends Error {
+  constructor(key: string, until: Date) {
+    super(`Search Console quota exceeded for ${key}, paused until ${until.toISOString()}`);
+    this.name = 'SearchConsoleQuotaError';
+  }
+}
+
+class TokenBucket {
+  private tokens = BUCKET_BURST;
+  private refilledAt = Date.now();
+  // No requests until then, set after a quota error
+  blockedUntil = 0;
+
+  constructor(private readonly perMinute: number) {}
+
+  private refill(now: number) {
+    const refilled = ((now - this.refilledAt) * this.perMinute) / 60000;
+    this.tokens = Math.min(BUCKET_BURST, this.tokens + refilled);
+    this.refilledAt = now;
+  }
+
+  // Milliseconds until the bucket allows a request, 0 if it does now
+  waitTime(now: number): number {
+    if (this.blockedUntil > now) {
+      return this.blockedUntil - now;
+    }
+    this.refill(now);
+    return this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) * 60000) / this.perMinute);
+  }
+
+  take(now: number) {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  block(until: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+    this.tokens = 0;
+  }
+}
+
+interface QueuedRequest {
+  seq: number;
+  options: Required<Omit<SearchConsoleRequestOptions, 'siteUrl'>> &
+    Pick<SearchConsoleRequestOptions, 'siteUrl'>;
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  enqueuedAt: number;
+  attempts: number;
+}
+
+/**
+ * Rate-limited queue shared by every Search Console API call. Each request
+ * takes a token from the project bucket, its account's bucket and (for
+ * property queries) its property's bucket, so concurrent cron jobs can't
+ * exhaust a quota together. Quota errors pause the property and account
+ * and are retried with backoff for requests that opt in.
+ */
+export class SearchConsoleScheduler {
+  private queue: QueuedRequest[] = [];
+  private seq = 0;
+  private running = 0;
+  private runningBackground = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  private projectBucket = new TokenBucket(PROJECT_QUERIES_PER_MINUTE);
+  private propertyBuckets = new Map<string, TokenBucket>();
+  private accountBuckets = new Map<string, TokenBucket>();
+
+  private stats = {
+    started: 0,
+    completed: 0,
+    failed: 0,
+    quotaErrors: 0,
+    retries: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+  };
+
+  schedule<T>(
+    options: SearchConsoleRequestOptions,
+    run: () => Promise<T>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.enqueue({
+        seq: this.seq++,
+        options: { priority: 'interactive', retryOnQuota: false, ...options },
+        run,
+        resolve,
+        reject,
+        enqueuedAt: Date.now(),
+        attempts: 0,
+      });
+    });
+  }
+
+  getMetrics(): SearchConsoleSchedulerMetrics {
+    const now = Date.now();
+    const blocked = [
+      ...[...this.propertyBuckets].map(([siteUrl, bucket]) => ({ key: siteUrl, bucket })),
+      ...[...this.accountBuckets].map(([accountId, bucket]) => ({
+        key: `account:${accountId}`,
+        bucket,
+      })),
+    ]
+      .filter(({ bucket }) => bucket.blockedUntil > now)
+      .map(({ key, bucket }) => ({ key, until: new Date(bucket.blockedUntil) }));
+
+    return {
+      queued: {
+        interactive: this.queue.filter((r) => r.options.priority === 'interactive').length,
+        background: this.queue.filter((r) => r.options.priority === 'background').length,
+      },
+      running: this.running,
+      completed: this.stats.completed,
+      failed: this.stats.failed,
+      quotaErrors: this.stats.quotaErrors,
+      retries: this.stats.retries,
+      averageWaitMs: this.stats.started
+        ? Math.round(this.stats.totalWaitMs / this.stats.started)
+        : 0,
+      maxWaitMs: this.stats.maxWaitMs,
+      blocked,
+    };
+  }
+
+  // Keep the queue ordered by priority, then arrival
+  private enqueue(request: QueuedRequest) {
+    const rank = (r: QueuedRequest) => PRIORITY_ORDER[r.options.priority];
+    const index = this.queue.findIndex(
+      (queued) =>
+        rank(queued) > rank(request) ||
+        (rank(queued) === rank(request) && queued.seq > request.seq)
+    );
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
+    }
+    this.dispatch();
+  }
+
+  private bucket(buckets: Map<string, TokenBucket>, key: string, perMinute: number) {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(perMinute);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private bucketsFor(options: QueuedRequest['options']): TokenBucket[] {
+    const buckets = [
+      this.projectBucket,
+      this.bucket(this.accountBuckets, options.accountId, ACCOUNT_QUERIES_PER_MINUTE),
+    ];
+    if (options.siteUrl) {
+      buckets.push(
+        this.bucket(this.propertyBuckets, options.siteUrl, PROPERTY_QUERIES_PER_MINUTE)
+      );
+    }
+    return buckets;
+  }
+
+  /**
+   * Start every queued request that has a free slot and tokens. Requests
+   * whose buckets are empty are skipped, so one busy property doesn't hold
+   * up the others. One slot is kept for interactive requests.
+   */
+  private dispatch() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextWait = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.running < MAX_CONCURRENT_REQUESTS; ) {
+      const request = this.queue[i];
+
+      if (
+        request.options.priority === 'background' &&
+        this.runningBackground >= MAX_CONCURRENT_REQUESTS - 1
+      ) {
+        i++;
+        continue;
+      }
+
+      const buckets = this.bucketsFor(request.options);
+
+      // Requests that don't wait out quota errors fail while paused
+      const blocked = buckets.find((bucket) => bucket.blockedUntil > now);
+      if (blocked && !request.options.retryOnQuota) {
+        this.queue.splice(i, 1);
+        this.stats.failed++;
+        request.reject(
+          new SearchConsoleQuotaError(
+            request.options.siteUrl || `account ${request.options.accountId}`,
+            new Date(blocked.blockedUntil)
+          )
+        );
+        continue;
+      }
+
+      const wait = Math.max(...buckets.map((bucket) => bucket.waitTime(now)));
+      if (wait > 0) {
+        nextWait = Math.min(nextWait, wait);
+        i++;
+        continue;
+      }
+
+      buckets.forEach((bucket) => bucket.take(now));
+      this.queue.splice(i, 1);
+      this.start(request, now);
+    }
+
+    if (this.queue.length > 0 && nextWait < Infinity) {
+      this.timer = setTimeout(() => this.dispatch(), nextWait);
+    }
+  }
+
+  private start(request: QueuedRequest, now: number) {
+    const background = request.options.priority === 'background';
+    this.running++;
+    if (background) this.runningBackground++;
+
+    request.attempts++;
+    const waited = now - request.enqueuedAt;
+    this.stats.started++;
+    this.stats.totalWaitMs += waited;
+    this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waited);
+
+    request
+      .run()
+      .then(
+        (value) => {
+          this.stats.completed++;
+          request.resolve(value);
+        },
+        (error) => this.handleError(request, error)
+      )
+      .finally(() => {
+        this.running--;
+        if (background) this.runningBackground--;
+        this.dispatch();
+      });
+  }
+
+  private handleError(request: QueuedRequest, error: unknown) {
+    if (classifyGoogleError(error) === 'QUOTA') {
+      this.stats.quotaErrors++;
+
+      // Hold back every request for this property and account
+      const backoff =
+        QUOTA_BACKOFF_MS[Math.min(request.attempts, QUOTA_BACKOFF_MS.length) - 1];
+      const until = Date.now() + backoff;
+      this.bucketsFor(request.options)
+        .filter((bucket) => bucket !== this.projectBucket)
+        .forEach((bucket) => bucket.block(until));
+
+      if (request.options.retryOnQuota && request.attempts <= QUOTA_MAX_RETRIES) {
+        console.error(
+          `Search Console quota exceeded for ${
+            request.options.siteUrl || `account ${request.options.accountId}`
+          }. Waiting ${backoff / 1000 / 60} minutes before retry ${
+            request.attempts
+          }/${QUOTA_MAX_RETRIES}`
+        );
+        this.stats.retries++;
+        this.enqueue(request);
+        return;
+      }
+    }
+
+    this.stats.failed++;
+    request.reject(error);
+  }
+}
+
+export const searchConsoleScheduler = new SearchConsoleScheduler();
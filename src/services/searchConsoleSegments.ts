@@ -0,0 +1,125 @@
+import { webmasters_v3 } from 'googleapis';
+import { Campaign, SearchConsoleSearchType } from '@prisma/client';
+
+// Search types a campaign can track. Discover has no query dimension, so it
+// only gets site traffic, not keyword stats.
+export const SEARCH_TYPES = ['web', 'image', 'video', 'news', 'discover'] as const;
+export const SEGMENT_DEVICES = ['desktop', 'mobile', 'tablet'] as const;
+
+// Device or country value of a segment that isn't filtered on it
+export const ALL_SEGMENT = 'all';
+
+// Each segment costs its own Search Analytics queries on every fetch
+export const MAX_CAMPAIGN_SEGMENTS = 20;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+export type SegmentDevice = (typeof SEGMENT_DEVICES)[number];
+
+// Stored in Campaign.segmentConfig. Empty devices or countries mean the
+// segments aren't split on them.
+export interface CampaignSegmentConfig {
+  searchTypes: SearchType[];
+  devices: SegmentDevice[];
+  // ISO 3166-1 alpha-3 codes as Search Console reports them, e.g. "isr"
+  countries: string[];
+}
+
+export interface SearchConsoleSegment {
+  searchType: SearchType;
+  device: SegmentDevice | typeof ALL_SEGMENT;
+  country: string;
+}
+
+export const DEFAULT_SEGMENT_CONFIG: CampaignSegmentConfig = {
+  searchTypes: ['web'],
+  devices: [],
+  countries: [],
+};
+
+export const DEFAULT_SEGMENT: SearchConsoleSegment = {
+  searchType: 'web',
+  device: ALL_SEGMENT,
+  country: ALL_SEGMENT,
+};
+
+export const getSegmentConfig = (
+  campaign: Pick<Campaign, 'segmentConfig'>
+): CampaignSegmentConfig => {
+  const config = (campaign.segmentConfig || {}) as Partial<CampaignSegmentConfig>;
+  return {
+    searchTypes: config.searchTypes?.length
+      ? config.searchTypes
+      : DEFAULT_SEGMENT_CONFIG.searchTypes,
+    devices: config.devices || [],
+    countries: config.countries || [],
+  };
+};
+
+/**
+ * Every segment the campaign stores stats for: each search type, split by
+ * each configured device and country. The default segment (web, all
+ * devices, all countries) is the campaign's regular, unsegmented data.
+ */
+export const getCampaignSegments = (
+  campaign: Pick<Campaign, 'segmentConfig'>
+): SearchConsoleSegment[] => {
+  const { searchTypes, devices, countries } = getSegmentConfig(campaign);
+  const deviceValues: SearchConsoleSegment['device'][] = devices.length
+    ? devices
+    : [ALL_SEGMENT];
+  const countryValues = countries.length ? countries : [ALL_SEGMENT];
+
+  return searchTypes.flatMap((searchType) =>
+    deviceValues.flatMap((device) =>
+      countryValues.map((country) => ({ searchType, device, country }))
+    )
+  );
+};
+
+export const isDefaultSegment = (segment: SearchConsoleSegment): boolean =>
+  segment.searchType === DEFAULT_SEGMENT.searchType &&
+  segment.device === ALL_SEGMENT &&
+  segment.country === ALL_SEGMENT;
+
+export const isSameSegment = (a: SearchConsoleSegment, b: SearchConsoleSegment) =>
+  a.searchType === b.searchType && a.device === b.device && a.country === b.country;
+
+export const segmentSupportsKeywords = (segment: SearchConsoleSegment): boolean =>
+  segment.searchType !== 'discover';
+
+export const describeSegment = (segment: SearchConsoleSegment): string =>
+  `${segment.searchType}/${segment.device}/${segment.country}`;
+
+// Search type and filters for a Search Analytics query of the segment
+export const segmentQuery = (
+  segment: SearchConsoleSegment
+): {
+  searchType: SearchType;
+  filters: webmasters_v3.Schema$ApiDimensionFilter[];
+} => {
+  const filters: webmasters_v3.Schema$ApiDimensionFilter[] = [];
+  if (segment.device !== ALL_SEGMENT) {
+    filters.push({
+      dimension: 'device',
+      operator: 'equals',
+      expression: segment.device.toUpperCase(),
+    });
+  }
+  if (segment.country !== ALL_SEGMENT) {
+    filters.push({
+      dimension: 'country',
+      operator: 'equals',
+      expression: segment.country,
+    });
+  }
+  return { searchType: segment.searchType, filters };
+};
+
+// Column values of the segment's rows in the segmented stats tables
+export const segmentColumns = (
+  segment: SearchConsoleSegment
+): { searchType: SearchConsoleSearchType; device: string; country: string } => ({
+  searchType: segment.searchType.toUpperCase() as SearchConsoleSearchType,
+  device: segment.device,
+  country: segment.country,
+});
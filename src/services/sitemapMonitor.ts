@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import { Campaign, GoogleAccount } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { sendSitemapAlertEmail } from '../utils/email';
+import { searchConsoleService } from './searchConsole';
+import { SearchConsolePriority } from './searchConsoleScheduler';
+import { WhatsAppService } from './whatsappService';
+
+// Days of totals returned with a campaign's sitemaps
+const HISTORY_DAYS = 30;
+
+export interface SitemapRegression {
+  path: string;
+  errors: number;
+  previousErrors: number;
+}
+
+const hashPath = (path: string) =>
+  crypto.createHash('sha256').update(path).digest('hex');
+
+const sumCounts = (
+  snapshots: { submitted: number; indexed: number; errors: number; warnings: number }[]
+) =>
+  snapshots.reduce(
+    (totals, snapshot) => ({
+      submitted: totals.submitted + snapshot.submitted,
+      indexed: totals.indexed + snapshot.indexed,
+      errors: totals.errors + snapshot.errors,
+      warnings: totals.warnings + snapshot.warnings,
+    }),
+    { submitted: 0, indexed: 0, errors: 0, warnings: 0 }
+  );
+
+/**
+ * Keeps a daily snapshot of the sitemaps submitted for each campaign's
+ * property and alerts admins when a sitemap reports more errors than at
+ * its previous snapshot. Snapshots are stored per property, so campaigns on
+ * the same property share them.
+ */
+export class SitemapMonitorService {
+  private whatsappService = new WhatsAppService();
+
+  /**
+   * Store today's snapshot of the property's sitemaps and return the ones
+   * with more errors than before. Running again on the same day compares
+   * with that day's snapshot, so errors are only reported once.
+   */
+  async snapshotProperty(
+    siteUrl: string,
+    googleAccount: GoogleAccount,
+    priority: SearchConsolePriority = 'background'
+  ): Promise<SitemapRegression[]> {
+    const sitemaps = await searchConsoleService.listSitemaps({
+      googleAccount,
+      siteUrl,
+      priority,
+    });
+    const date = moment.utc().startOf('day').toDate();
+    const regressions: SitemapRegression[] = [];
+
+    for (const sitemap of sitemaps) {
+      const pathHash = hashPath(sitemap.path);
+      const previous = await prisma.searchConsoleSitemapSnapshot.findFirst({
+        where: { siteUrl, pathHash, date: { lte: date } },
+        orderBy: { date: 'desc' },
+        select: { errors: true },
+      });
+      const previousErrors = previous?.errors ?? 0;
+      if (sitemap.errors > previousErrors) {
+        regressions.push({ path: sitemap.path, errors: sitemap.errors, previousErrors });
+      }
+
+      const { path, ...data } = sitemap;
+      await prisma.searchConsoleSitemapSnapshot.upsert({
+        where: { siteUrl_pathHash_date: { siteUrl, pathHash, date } },
+        update: data,
+        create: { siteUrl, path, pathHash, date, ...data },
+      });
+    }
+
+    return regressions;
+  }
+
+  /**
+   * Snapshot the property of every active campaign and alert admins about
+   * new sitemap errors
+   */
+  async snapshotAllProperties(): Promise<void> {
+    const campaigns = await prisma.campaign.findMany({
+      where: { status: 'ACTIVE', googleAccount: { isActive: true } },
+      include: { googleAccount: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const campaignsBySite = new Map<string, typeof campaigns>();
+    for (const campaign of campaigns) {
+      const siteCampaigns = campaignsBySite.get(campaign.searchConsoleSite) || [];
+      siteCampaigns.push(campaign);
+      campaignsBySite.set(campaign.searchConsoleSite, siteCampaigns);
+    }
+
+    for (const [siteUrl, siteCampaigns] of campaignsBySite) {
+      try {
+        const regressions = await this.snapshotProperty(
+          siteUrl,
+          siteCampaigns[0].googleAccount
+        );
+        if (regressions.length > 0) {
+          await this.notifyAdmins(siteUrl, siteCampaigns, regressions);
+        }
+      } catch (error) {
+        console.error(`❌ Sitemap snapshot failed for ${siteUrl}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Snapshot the campaign's property now and alert admins about new
+   * sitemap errors, like the daily job does for every property
+   */
+  async refreshCampaignProperty(
+    campaign: Campaign & { googleAccount: GoogleAccount }
+  ): Promise<SitemapRegression[]> {
+    const siteUrl = campaign.searchConsoleSite;
+    const regressions = await this.snapshotProperty(
+      siteUrl,
+      campaign.googleAccount,
+      'interactive'
+    );
+    if (regressions.length > 0) {
+      const siteCampaigns = await prisma.campaign.findMany({
+        where: { searchConsoleSite: siteUrl, status: 'ACTIVE' },
+        orderBy: { name: 'asc' },
+      });
+      await this.notifyAdmins(
+        siteUrl,
+        siteCampaigns.length > 0 ? siteCampaigns : [campaign],
+        regressions
+      );
+    }
+    return regressions;
+  }
+
+  /**
+   * The latest snapshot of each of the campaign's sitemaps with the change
+   * since the snapshot before, and daily totals for the last 30 days. Only
+   * reads stored snapshots; properties without any return no sitemaps
+   * until the daily job or a refresh takes one.
+   */
+  async getCampaignSitemaps(campaign: Campaign) {
+    const siteUrl = campaign.searchConsoleSite;
+
+    const latest = await prisma.searchConsoleSitemapSnapshot.findFirst({
+      where: { siteUrl },
+      orderBy: { date: 'desc' },
+      select: { date: true },
+    });
+    if (!latest) {
+      return { date: null, sitemaps: [], totals: sumCounts([]), history: [] };
+    }
+
+    const snapshots = await prisma.searchConsoleSitemapSnapshot.findMany({
+      where: { siteUrl, date: latest.date },
+      orderBy: { path: 'asc' },
+    });
+    const before = await prisma.searchConsoleSitemapSnapshot.findFirst({
+      where: { siteUrl, date: { lt: latest.date } },
+      orderBy: { date: 'desc' },
+      select: { date: true },
+    });
+    const previousByPath = new Map(
+      before
+        ? (
+          await prisma.searchConsoleSitemapSnapshot.findMany({
+            where: { siteUrl, date: before.date },
+          })
+        ).map((snapshot) => [snapshot.pathHash, snapshot])
+        : []
+    );
+
+    const sitemaps = snapshots.map((snapshot) => {
+      const previous = previousByPath.get(snapshot.pathHash);
+      return {
+        path: snapshot.path,
+        lastSubmitted: snapshot.lastSubmitted,
+        lastDownloaded: snapshot.lastDownloaded,
+        isPending: snapshot.isPending,
+        isSitemapsIndex: snapshot.isSitemapsIndex,
+        submitted: snapshot.submitted,
+        indexed: snapshot.indexed,
+        errors: snapshot.errors,
+        warnings: snapshot.warnings,
+        // Null for sitemaps that weren't in the snapshot before
+        change: previous
+          ? {
+            submitted: snapshot.submitted - previous.submitted,
+            indexed: snapshot.indexed - previous.indexed,
+            errors: snapshot.errors - previous.errors,
+            warnings: snapshot.warnings - previous.warnings,
+          }
+          : null,
+      };
+    });
+
+    const historySnapshots = await prisma.searchConsoleSitemapSnapshot.findMany({
+      where: {
+        siteUrl,
+        date: { gte: moment.utc(latest.date).subtract(HISTORY_DAYS - 1, 'days').toDate() },
+      },
+      orderBy: { date: 'asc' },
+    });
+    const snapshotsByDate = new Map<string, typeof historySnapshots>();
+    for (const snapshot of historySnapshots) {
+      const dateKey = moment.utc(snapshot.date).format('YYYY-MM-DD');
+      snapshotsByDate.set(dateKey, [...(snapshotsByDate.get(dateKey) || []), snapshot]);
+    }
+
+    return {
+      date: latest.date,
+      sitemaps,
+      totals: sumCounts(snapshots),
+      history: [...snapshotsByDate].map(([date, daySnapshots]) => ({
+        date,
+        ...sumCounts(daySnapshots),
+      })),
+    };
+  }
+
+  /**
+   * Alert global admins and the admins of the campaigns' workspaces through
+   * email and their WhatsApp group
+   */
+  private async notifyAdmins(
+    siteUrl: string,
+    campaigns: Campaign[],
+    regressions: SitemapRegression[]
+  ): Promise<void> {
+    const workspaceIds = [...new Set(campaigns.map((campaign) => campaign.workspaceId))];
+
+    const admins = await prisma.user.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { role: 'ADMIN' },
+          {
+            workspaceMemberships: {
+              some: { workspaceId: { in: workspaceIds }, role: 'ADMIN' },
+            },
+          },
+        ],
+      },
+      include: {
+        adminNotificationPreferences: true,
+        settings: { select: { systemLanguage: true } },
+        workspaceMemberships: { where: { role: 'ADMIN' }, select: { workspaceId: true } },
+      },
+    });
+
+    for (const admin of admins) {
+      const prefs = admin.adminNotificationPreferences;
+      if (prefs && !prefs.enableAllNotifications) {
+        continue;
+      }
+
+      // Only mention the campaigns the admin manages
+      const adminWorkspaceIds = admin.workspaceMemberships.map(
+        (membership) => membership.workspaceId
+      );
+      const adminCampaigns =
+        admin.role === 'ADMIN'
+          ? campaigns
+          : campaigns.filter((campaign) => adminWorkspaceIds.includes(campaign.workspaceId));
+      if (adminCampaigns.length === 0) continue;
+
+      const campaignNames = adminCampaigns.map((campaign) => campaign.name);
+      const dashboardUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/campaigns/${adminCampaigns[0].id}`;
+
+      if (!prefs || prefs.enableEmail) {
+        try {
+          await sendSitemapAlertEmail(
+            admin.email,
+            siteUrl,
+            regressions,
+            campaignNames,
+            dashboardUrl,
+            admin.settings?.systemLanguage || 'en'
+          );
+        } catch (error) {
+          console.error(`Failed to email sitemap alert to ${admin.email}:`, error);
+        }
+      }
+
+      if (prefs?.enableWhatsApp && prefs.whatsAppGroupId) {
+        const group = await prisma.whatsAppGroup.findFirst({
+          where: {
+            OR: [{ id: prefs.whatsAppGroupId }, { groupId: prefs.whatsAppGroupId }],
+          },
+        });
+        if (!group) continue;
+
+        const result = await this.whatsappService.sendMessage(
+          group.groupId,
+          this.whatsappService.formatSitemapAlertMessage(
+            siteUrl,
+            regressions,
+            campaignNames,
+            dashboardUrl
+          )
+        );
+        if (!result.success) {
+          console.error(`Failed to send sitemap alert to WhatsApp group ${group.name}:`, result.error);
+        }
+      }
+    }
+
+    console.log(`⚠️ Sent sitemap error alerts for ${siteUrl}`);
+  }
+}
+
+export const sitemapMonitorService = new SitemapMonitorService();
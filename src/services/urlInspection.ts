@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import { searchconsole_v1 } from 'googleapis';
+import { prisma } from '../utils/prisma';
+import { searchConsoleService } from './searchConsole';
+import { classifyGoogleError } from './googleAccountHealth';
+import { campaignKeywordService } from './campaignKeywords';
+
+// URL Inspection allows 2,000 inspections per property per day, shared by
+// every campaign on the property
+const MAX_PAGES_PER_CAMPAIGN = 200;
+// Top pages are taken from keyword stats of the last 30 days
+const TOP_PAGE_WINDOW_DAYS = 30;
+// Manual runs wait this long after the campaign's last inspection, so
+// repeated clicks don't use up the property's daily quota
+export const INSPECT_NOW_COOLDOWN_MINUTES = 60;
+
+// Fields whose change flags a page; lastCrawlTime changes on every crawl
+const TRACKED_FIELDS = [
+  'verdict',
+  'coverageState',
+  'indexingState',
+  'robotsTxtState',
+  'pageFetchState',
+  'googleCanonical',
+] as const;
+
+type InspectionStatus = {
+  verdict: string | null;
+  coverageState: string | null;
+  indexingState: string | null;
+  robotsTxtState: string | null;
+  pageFetchState: string | null;
+  googleCanonical: string | null;
+  userCanonical: string | null;
+  lastCrawlTime: Date | null;
+};
+
+export interface UrlInspectionRunResult {
+  inspected: number;
+  changed: number;
+  failed: number;
+  // Set when the run stopped early on a quota error
+  quotaExceeded: boolean;
+}
+
+const hashUrl = (url: string) =>
+  crypto.createHash('sha256').update(url).digest('hex');
+
+const toStatus = (
+  result: searchconsole_v1.Schema$IndexStatusInspectionResult
+): InspectionStatus => ({
+  verdict: result.verdict || null,
+  coverageState: result.coverageState || null,
+  indexingState: result.indexingState || null,
+  robotsTxtState: result.robotsTxtState || null,
+  pageFetchState: result.pageFetchState || null,
+  googleCanonical: result.googleCanonical || null,
+  userCanonical: result.userCanonical || null,
+  lastCrawlTime: result.lastCrawlTime ? new Date(result.lastCrawlTime) : null,
+});
+
+/**
+ * Runs the Search Console URL Inspection API on each campaign's
+ * top-ranking pages and keeps the latest index status per page. Changes to
+ * the verdict, coverage, indexing, robots.txt, fetch state or Google's
+ * canonical are stored as UrlInspectionChange rows and flag the page with
+ * statusChangedAt.
+ */
+export class UrlInspectionService {
+  // Runs in progress in this process, by campaign
+  private running = new Map<string, Promise<UrlInspectionRunResult>>();
+
+  isRunning(campaignId: string): boolean {
+    return this.running.has(campaignId);
+  }
+
+  /**
+   * When the campaign's pages were last inspected, or null if never
+   */
+  async getLastInspectedAt(campaignId: string): Promise<Date | null> {
+    const result = await prisma.urlInspection.aggregate({
+      where: { campaignId },
+      _max: { inspectedAt: true },
+    });
+    return result._max.inspectedAt;
+  }
+
+  /**
+   * The campaign's current top-ranking pages: each keyword's latest top
+   * page, ordered by how many keywords rank with it
+   */
+  async getTopRankingPages(campaignId: string): Promise<string[]> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    const keywords = await campaignKeywordService.getActiveKeywords(campaign.id);
+
+    const stats = await prisma.searchConsoleKeywordDailyStat.findMany({
+      where: {
+        keyword: {
+          keyword: { in: keywords },
+          analytics: { siteUrl: campaign.searchConsoleSite },
+        },
+        date: { gte: moment().subtract(TOP_PAGE_WINDOW_DAYS, 'days').toDate() },
+        topRankingPageUrl: { not: '' },
+      },
+      orderBy: { date: 'desc' },
+      select: { keywordId: true, topRankingPageUrl: true },
+    });
+
+    const seenKeywords = new Set<string>();
+    const keywordsPerPage = new Map<string, number>();
+    for (const stat of stats) {
+      if (seenKeywords.has(stat.keywordId)) continue;
+      seenKeywords.add(stat.keywordId);
+      keywordsPerPage.set(
+        stat.topRankingPageUrl,
+        (keywordsPerPage.get(stat.topRankingPageUrl) || 0) + 1
+      );
+    }
+
+    return [...keywordsPerPage.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_PAGES_PER_CAMPAIGN)
+      .map(([url]) => url);
+  }
+
+  /**
+   * Inspect the campaign's top-ranking pages and store the results. Stops
+   * at the first quota error, since the rest would fail too. A call while
+   * the campaign is being inspected joins the run in progress.
+   */
+  inspectCampaign(campaignId: string): Promise<UrlInspectionRunResult> {
+    const current = this.running.get(campaignId);
+    if (current) {
+      return current;
+    }
+
+    const run = this.runInspection(campaignId).finally(() => {
+      this.running.delete(campaignId);
+    });
+    this.running.set(campaignId, run);
+    return run;
+  }
+
+  private async runInspection(campaignId: string): Promise<UrlInspectionRunResult> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: { googleAccount: true },
+    });
+
+    if (!campaign || !campaign.googleAccount) {
+      throw new Error('Campaign or Google account not found');
+    }
+
+    const pages = await this.getTopRankingPages(campaignId);
+    const result: UrlInspectionRunResult = {
+      inspected: 0,
+      changed: 0,
+      failed: 0,
+      quotaExceeded: false,
+    };
+
+    for (const url of pages) {
+      const urlHash = hashUrl(url);
+      const where = { campaignId_urlHash: { campaignId, urlHash } };
+      const existing = await prisma.urlInspection.findUnique({ where });
+
+      let status: InspectionStatus;
+      try {
+        const inspection = await searchConsoleService.inspectUrl({
+          googleAccount: campaign.googleAccount,
+          siteUrl: campaign.searchConsoleSite,
+          url,
+          priority: 'background',
+        });
+        status = toStatus(inspection.indexStatusResult || {});
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`URL inspection failed for ${url}:`, message);
+        result.failed++;
+
+        await prisma.urlInspection.upsert({
+          where,
+          update: { lastError: message },
+          create: { campaignId, url, urlHash, lastError: message },
+        });
+
+        if (classifyGoogleError(error) === 'QUOTA') {
+          result.quotaExceeded = true;
+          break;
+        }
+        continue;
+      }
+
+      // The first inspection of a page is its baseline, not a change
+      const changedFields =
+        existing && existing.inspectedAt
+          ? TRACKED_FIELDS.filter((field) => existing[field] !== status[field])
+          : [];
+      const now = new Date();
+
+      await prisma.urlInspection.upsert({
+        where,
+        update: {
+          ...status,
+          inspectedAt: now,
+          lastError: null,
+          ...(changedFields.length > 0
+            ? {
+              statusChangedAt: now,
+              changes: {
+                create: changedFields.map((field) => ({
+                  field,
+                  fromValue: existing![field],
+                  toValue: status[field],
+                  detectedAt: now,
+                })),
+              },
+            }
+            : {}),
+        },
+        create: { campaignId, url, urlHash, ...status, inspectedAt: now },
+      });
+
+      result.inspected++;
+      if (changedFields.length > 0) {
+        result.changed++;
+        console.log(
+          `🔎 Index status of ${url} changed: ${changedFields
+            .map((field) => `${field} ${existing![field]} → ${status[field]}`)
+            .join(', ')}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Inspect the top-ranking pages of every active campaign
+   */
+  async inspectAllCampaigns(): Promise<void> {
+    const campaigns = await prisma.campaign.findMany({
+      where: { status: 'ACTIVE', googleAccount: { isActive: true } },
+      select: { id: true, name: true },
+    });
+
+    for (const campaign of campaigns) {
+      try {
+        const result = await this.inspectCampaign(campaign.id);
+        console.log(
+          `✅ Inspected ${result.inspected} pages for campaign ${campaign.name} (${result.changed} changed, ${result.failed} failed)`
+        );
+      } catch (error) {
+        console.error(
+          `❌ URL inspection failed for campaign ${campaign.name}:`,
+          error
+        );
+      }
+    }
+  }
+}
+
+export const urlInspectionService = new UrlInspectionService();
@@ -154,4 +154,51 @@ export class WhatsAppService {
 
     return message;
   }
+
+  /**
+   * Format a broken Google account alert for WhatsApp
+   */
+  formatGoogleAccountAlertMessage(
+    accountEmail: string,
+    reason: string,
+    campaignNames: string[],
+    reauthUrl: string
+  ): string {
+    let message = `⚠️ *Google account needs attention*\n\n`;
+    message += `📧 *Account:* ${accountEmail}\n`;
+    message += `❗ *Problem:* ${reason}\n`;
+
+    if (campaignNames.length) {
+      message += `📊 *Affected campaigns:* ${campaignNames.join(', ')}\n`;
+    }
+
+    message += `\n🔗 *Reconnect (valid 24 hours):* ${reauthUrl}`;
+
+    return message;
+  }
+
+  /**
+   * Format a sitemap error alert for WhatsApp
+   */
+  formatSitemapAlertMessage(
+    siteUrl: string,
+    sitemaps: { path: string; errors: number; previousErrors: number }[],
+    campaignNames: string[],
+    dashboardUrl: string
+  ): string {
+    let message = `🗺️ *New sitemap errors*\n\n`;
+    message += `🌐 *Property:* ${siteUrl}\n`;
+
+    for (const sitemap of sitemaps) {
+      message += `❗ ${sitemap.path}: ${sitemap.errors} errors (was ${sitemap.previousErrors})\n`;
+    }
+
+    if (campaignNames.length) {
+      message += `📊 *Campaigns:* ${campaignNames.join(', ')}\n`;
+    }
+
+    message += `\n🔗 *View Dashboard:* ${dashboardUrl}`;
+
+    return message;
+  }
 }
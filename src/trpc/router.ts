@@ -13,6 +13,10 @@ import { milestonesRouter } from './routers/milestones';
 import { whatsappRouter } from './routers/whatsapp';
 import { keywordCannibalizationRouter } from './routers/keywordCannibalization';
 import { settingsRouter } from './routers/settings';
+import { apiKeysRouter } from './routers/apiKeys';
+import { workspacesRouter } from './routers/workspaces';
+import { urlInspectionRouter } from './routers/urlInspection';
+import { keywordGroupsRouter } from './routers/keywordGroups';
 
 export const appRouter = router({
   auth: authRouter,
@@ -28,6 +32,10 @@ export const appRouter = router({
   whatsapp: whatsappRouter,
   keywordCannibalization: keywordCannibalizationRouter,
   settings: settingsRouter,
+  apiKeys: apiKeysRouter,
+  workspaces: workspacesRouter,
+  urlInspection: urlInspectionRouter,
+  keywordGroups: keywordGroupsRouter,
 });
 
 export type AppRouter = typeof appRouter;
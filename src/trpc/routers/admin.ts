@@ -4,9 +4,12 @@ import { adminProcedure, protectedProcedure, router } from '../trpc-context';
 import { prisma } from '../../utils/prisma';
 import { CronService } from '../../services/cronService';
 import { AnalyticsService } from '../../services/analytics';
+import { searchConsoleScheduler } from '../../services/searchConsoleScheduler';
+import { campaignKeywordService } from '../../services/campaignKeywords';
 import { comparePassword } from '../../utils/auth';
 import { sendTestEmail } from '../../utils/email';
 import { NotificationTemplateService } from '../../services/notificationTemplateService';
+import { normalizeEmailDomain } from '../../utils/googleSignIn';
 
 export const adminRouter = router({
   // Delete all search console analytics data
@@ -409,6 +412,11 @@ export const adminRouter = router({
     }
   }),
 
+  // Queue depth, throughput and quota errors of Search Console requests
+  getSearchConsoleQueueMetrics: adminProcedure.query(() =>
+    searchConsoleScheduler.getMetrics()
+  ),
+
   // Send test email
   sendTestEmail: adminProcedure
     .input(
@@ -719,13 +727,15 @@ export const adminRouter = router({
             const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
               where: { siteUrl: campaign.searchConsoleSite },
             });
+            const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
 
             if (analytics) {
               // Try to get current month keyword data from computed table first
               let currentMonthData = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
                 where: {
                   keyword: {
-                    analyticsId: analytics.id
+                    analyticsId: analytics.id,
+                    keyword: { in: campaignKeywords },
                   },
                   month: selectedMonth,
                   year: selectedYear,
@@ -737,7 +747,8 @@ export const adminRouter = router({
                 const monthlyStats = await prisma.searchConsoleKeywordMonthlyStat.findMany({
                   where: {
                     keyword: {
-                      analyticsId: analytics.id
+                      analyticsId: analytics.id,
+                      keyword: { in: campaignKeywords },
                     },
                     month: selectedMonth,
                     year: selectedYear,
@@ -854,11 +865,12 @@ export const adminRouter = router({
             const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
               where: { siteUrl: campaign.searchConsoleSite },
             });
+            const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
 
             if (analytics) {
               let prevMonthData = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
                 where: {
-                  keyword: { analyticsId: analytics.id },
+                  keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
                   month: prevMonth,
                   year: prevYear,
                 },
@@ -867,7 +879,7 @@ export const adminRouter = router({
               if (prevMonthData.length === 0) {
                 const stats = await prisma.searchConsoleKeywordMonthlyStat.findMany({
                   where: {
-                    keyword: { analyticsId: analytics.id },
+                    keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
                     month: prevMonth,
                     year: prevYear,
                   },
@@ -974,6 +986,7 @@ export const adminRouter = router({
           const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
             where: { siteUrl: campaign.searchConsoleSite },
           });
+          const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
 
           if (!analytics) {
             return {
@@ -993,7 +1006,8 @@ export const adminRouter = router({
           let currentMonthData = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
             where: {
               keyword: {
-                analyticsId: analytics.id
+                analyticsId: analytics.id,
+                keyword: { in: campaignKeywords },
               },
               month: selectedMonth,
               year: selectedYear,
@@ -1005,7 +1019,8 @@ export const adminRouter = router({
             const monthlyStats = await prisma.searchConsoleKeywordMonthlyStat.findMany({
               where: {
                 keyword: {
-                  analyticsId: analytics.id
+                  analyticsId: analytics.id,
+                  keyword: { in: campaignKeywords },
                 },
                 month: selectedMonth,
                 year: selectedYear,
@@ -1119,7 +1134,7 @@ export const adminRouter = router({
 
           let prevMonthData = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
             where: {
-              keyword: { analyticsId: analytics.id },
+              keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
               month: prevMonth,
               year: prevYear,
             },
@@ -1128,7 +1143,7 @@ export const adminRouter = router({
           if (prevMonthData.length === 0) {
             const stats = await prisma.searchConsoleKeywordMonthlyStat.findMany({
               where: {
-                keyword: { analyticsId: analytics.id },
+                keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
                 month: prevMonth,
                 year: prevYear,
               },
@@ -1269,4 +1284,139 @@ export const adminRouter = router({
         });
       }
     }),
+
+  // Browse the audit log of mutations, newest first
+  getAuditLog: adminProcedure
+    .input(
+      z.object({
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(25),
+        actorId: z.string().optional(),
+        procedure: z.string().optional(),
+        targetId: z.string().optional(),
+        statusFilter: z.enum(['all', 'SUCCESS', 'FAILURE']).default('all'),
+        from: z
+          .string()
+          .transform((str) => new Date(str))
+          .optional(),
+        to: z
+          .string()
+          .transform((str) => new Date(str))
+          .optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        const { page, limit } = input;
+        const skip = (page - 1) * limit;
+
+        const where: any = {};
+
+        if (input.actorId) {
+          where.actorId = input.actorId;
+        }
+
+        if (input.procedure) {
+          where.procedure = { contains: input.procedure };
+        }
+
+        if (input.targetId) {
+          where.targetIds = { array_contains: input.targetId };
+        }
+
+        if (input.statusFilter !== 'all') {
+          where.status = input.statusFilter;
+        }
+
+        if (input.from || input.to) {
+          where.createdAt = {
+            ...(input.from ? { gte: input.from } : {}),
+            ...(input.to ? { lte: input.to } : {}),
+          };
+        }
+
+        const [totalCount, entries] = await Promise.all([
+          prisma.auditLog.count({ where }),
+          prisma.auditLog.findMany({
+            where,
+            skip,
+            take: limit,
+            orderBy: { createdAt: 'desc' },
+          }),
+        ]);
+
+        return {
+          entries,
+          pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages: Math.ceil(totalCount / limit),
+            hasNextPage: page < Math.ceil(totalCount / limit),
+            hasPrevPage: page > 1,
+          },
+        };
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch audit log',
+        });
+      }
+    }),
+
+  // Email domains allowed to sign in with Google. With none configured,
+  // only existing users can use Google sign-in.
+  getGoogleSignInDomains: adminProcedure.query(async () => {
+    return prisma.googleSignInDomain.findMany({
+      orderBy: { domain: 'asc' },
+    });
+  }),
+
+  addGoogleSignInDomain: adminProcedure
+    .input(
+      z.object({
+        domain: z
+          .string()
+          .min(1)
+          .transform(normalizeEmailDomain)
+          .refine((domain) => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain), {
+            message: 'Invalid domain',
+          }),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const existing = await prisma.googleSignInDomain.findUnique({
+        where: { domain: input.domain },
+      });
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Domain is already allowed',
+        });
+      }
+
+      return prisma.googleSignInDomain.create({
+        data: { domain: input.domain, createdById: ctx.user.id },
+      });
+    }),
+
+  removeGoogleSignInDomain: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const result = await prisma.googleSignInDomain.deleteMany({
+        where: { id: input.id },
+      });
+      if (result.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Domain not found',
+        });
+      }
+      return { success: true };
+    }),
 });
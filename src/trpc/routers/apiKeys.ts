@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  router,
+  sessionProcedure,
+  resolveCampaignAccess,
+} from '../trpc-context';
+import { PrismaClient } from '@prisma/client';
+import { createApiKey } from '../../utils/auth';
+
+const prisma = new PrismaClient();
+
+export const apiKeysRouter = router({
+  // List the caller's API keys (never the keys themselves)
+  listApiKeys: sessionProcedure.query(async ({ ctx }) => {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { userId: ctx.user.id },
+      include: {
+        campaigns: {
+          select: { campaign: { select: { id: true, name: true } } },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+    return apiKeys.map((apiKey) => ({
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scope: apiKey.scope,
+      campaigns: apiKey.campaigns.map(({ campaign }) => campaign),
+      lastUsedAt: apiKey.lastUsedAt,
+      expiresAt: apiKey.expiresAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+      isActive:
+        !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > now),
+    }));
+  }),
+
+  // Create a key. Leave campaignIds empty to cover every campaign the user
+  // can access. The key is only returned by this call.
+  createApiKey: sessionProcedure
+    .input(
+      z.object({
+        name: z.string().min(1, 'Key name is required').max(100),
+        scope: z.enum(['READ', 'WRITE']).default('READ'),
+        campaignIds: z.array(z.string().min(1)).optional(),
+        expiresAt: z
+          .string()
+          .transform((str) => new Date(str))
+          .optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Expiry date must be in the future',
+        });
+      }
+
+      const campaignIds = [...new Set(input.campaignIds || [])];
+      for (const campaignId of campaignIds) {
+        const access = await resolveCampaignAccess(ctx.user, campaignId);
+        if (!access || !access.role) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have access to one of the selected campaigns',
+          });
+        }
+      }
+
+      const { key, apiKey } = await createApiKey(ctx.user.id, {
+        name: input.name,
+        scope: input.scope,
+        campaignIds,
+        expiresAt: input.expiresAt,
+      });
+
+      return {
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+        scope: apiKey.scope,
+        expiresAt: apiKey.expiresAt,
+        createdAt: apiKey.createdAt,
+        key,
+      };
+    }),
+
+  revokeApiKey: sessionProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const result = await prisma.apiKey.updateMany({
+        where: { id: input.id, userId: ctx.user.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (result.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'API key not found',
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -1,10 +1,90 @@
 import { z } from 'zod';
-import { router, publicProcedure, protectedProcedure } from '../trpc-context';
-import { PrismaClient } from '@prisma/client';
-import { hashPassword, comparePassword, generateToken } from '../../utils/auth';
+import { TRPCError } from '@trpc/server';
+import {
+  router,
+  publicProcedure,
+  protectedProcedure,
+  sessionProcedure,
+} from '../trpc-context';
+import { PrismaClient, User } from '@prisma/client';
+import {
+  hashPassword,
+  comparePassword,
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  createPasswordResetToken,
+  consumePasswordResetToken,
+} from '../../utils/auth';
+import { sendPasswordResetEmail } from '../../utils/email';
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  buildTotpEnrollment,
+  regenerateBackupCodes,
+  verifySecondFactor,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} from '../../utils/twoFactor';
+import {
+  loginThrottleKeys,
+  assertLoginAllowed,
+  recordLoginFailure,
+  clearAccountLoginFailures,
+  LoginThrottledError,
+} from '../../utils/loginThrottle';
+import {
+  verifyGoogleIdToken,
+  resolveGoogleSignInUser,
+  GoogleSignInError,
+} from '../../utils/googleSignIn';
 
 const prisma = new PrismaClient();
 
+// Public shape of the user returned after a completed login
+const toAuthUser = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  status: user.status,
+  hasChangedPassword: user.hasChangedPassword,
+  createdAt: user.createdAt,
+  twoFactorEnabled: user.twoFactorEnabled,
+});
+
+/**
+ * Check a code (or password) entered by a signed-in user against the login
+ * throttle, so a session can't be used to guess codes without limit.
+ * Failures count towards the account's and IP's login lockouts.
+ */
+const verifyThrottled = async (
+  email: string,
+  ipAddress: string | null,
+  verify: () => Promise<boolean>
+): Promise<boolean> => {
+  const throttleKeys = loginThrottleKeys(email, ipAddress);
+  try {
+    await assertLoginAllowed(throttleKeys);
+  } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+
+  if (!(await verify())) {
+    await recordLoginFailure(throttleKeys);
+    return false;
+  }
+  await clearAccountLoginFailures(email);
+  return true;
+};
+
 export const authRouter = router({
   register: publicProcedure
     .input(
@@ -14,7 +94,7 @@ export const authRouter = router({
         name: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
         const existingUser = await prisma.user.findUnique({
           where: { email: input.email },
@@ -45,9 +125,12 @@ export const authRouter = router({
           },
         });
 
-        const token = generateToken(user.id);
+        const { token, refreshToken } = await createSession(
+          user.id,
+          ctx.client
+        );
 
-        return { user, token };
+        return { user, token, refreshToken };
       } catch (error) {
         console.error('Registration error:', error);
         if (error instanceof Error && error.message === 'User already exists') {
@@ -64,13 +147,18 @@ export const authRouter = router({
         password: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      const throttleKeys = loginThrottleKeys(input.email, ctx.client.ipAddress);
+
       try {
+        await assertLoginAllowed(throttleKeys);
+
         const user = await prisma.user.findUnique({
           where: { email: input.email },
         });
 
         if (!user) {
+          await recordLoginFailure(throttleKeys);
           throw new Error('Invalid credentials');
         }
 
@@ -80,32 +168,467 @@ export const authRouter = router({
         );
 
         if (!isValidPassword) {
+          await recordLoginFailure(throttleKeys);
           throw new Error('Invalid credentials');
         }
 
-        const token = generateToken(user.id);
+        if (user.status !== 'ACTIVE') {
+          throw new Error('Account is inactive');
+        }
+
+        // Second step: the client completes login with auth.verifyTwoFactorLogin.
+        // Failure counters are kept until then, so codes are throttled too.
+        if (user.twoFactorEnabled) {
+          return {
+            twoFactorRequired: true as const,
+            challengeToken: createTwoFactorChallenge(user.id),
+          };
+        }
+
+        await clearAccountLoginFailures(user.email);
+
+        const { token, refreshToken } = await createSession(
+          user.id,
+          ctx.client
+        );
 
         return {
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            role: user.role,
-            status: user.status,
-            hasChangedPassword: user.hasChangedPassword,
-            createdAt: user.createdAt,
-          },
+          twoFactorRequired: false as const,
+          user: toAuthUser(user),
           token,
+          refreshToken,
         };
       } catch (error) {
         console.error('Login error:', error);
-        if (error instanceof Error && error.message === 'Invalid credentials') {
+        if (error instanceof LoginThrottledError) {
+          throw new TRPCError({
+            code: 'TOO_MANY_REQUESTS',
+            message: error.message,
+          });
+        }
+        if (
+          error instanceof Error &&
+          (error.message === 'Invalid credentials' ||
+            error.message === 'Account is inactive')
+        ) {
           throw error;
         }
         throw new Error('Failed to login. Please try again.');
       }
     }),
 
+  // Log in with a Google ID token. The user is found or linked by verified
+  // email; see resolveGoogleSignInUser for the domain rules.
+  loginWithGoogle: publicProcedure
+    .input(
+      z.object({
+        idToken: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      let user: User;
+      try {
+        const identity = await verifyGoogleIdToken(input.idToken);
+        user = await resolveGoogleSignInUser(identity);
+      } catch (error) {
+        if (error instanceof GoogleSignInError) {
+          throw new TRPCError({
+            code: error.code === 'INVALID_TOKEN' ? 'UNAUTHORIZED' : 'FORBIDDEN',
+            message: error.message,
+            cause: error,
+          });
+        }
+        console.error('Google login error:', error);
+        throw new Error('Failed to login with Google. Please try again.');
+      }
+
+      if (user.status !== 'ACTIVE') {
+        throw new Error('Account is inactive');
+      }
+
+      if (user.twoFactorEnabled) {
+        return {
+          twoFactorRequired: true as const,
+          challengeToken: createTwoFactorChallenge(user.id),
+        };
+      }
+
+      await clearAccountLoginFailures(user.email);
+
+      const { token, refreshToken } = await createSession(user.id, ctx.client);
+
+      return {
+        twoFactorRequired: false as const,
+        user: toAuthUser(user),
+        token,
+        refreshToken,
+      };
+    }),
+
+  // Second login step for accounts with two-factor authentication enabled
+  verifyTwoFactorLogin: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const userId = verifyTwoFactorChallenge(input.challengeToken);
+      if (!userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Login attempt expired. Please log in again.',
+        });
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user || user.status !== 'ACTIVE' || !user.twoFactorEnabled) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Login attempt expired. Please log in again.',
+        });
+      }
+
+      const throttleKeys = loginThrottleKeys(user.email, ctx.client.ipAddress);
+      try {
+        await assertLoginAllowed(throttleKeys);
+      } catch (error) {
+        if (error instanceof LoginThrottledError) {
+          throw new TRPCError({
+            code: 'TOO_MANY_REQUESTS',
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
+      const isValidCode = await verifySecondFactor(user, input.code);
+      if (!isValidCode) {
+        await recordLoginFailure(throttleKeys);
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid authentication code',
+        });
+      }
+
+      await clearAccountLoginFailures(user.email);
+
+      const { token, refreshToken } = await createSession(user.id, ctx.client);
+
+      return { user: toAuthUser(user), token, refreshToken };
+    }),
+
+  // Exchange a refresh token for a new access/refresh token pair
+  refreshToken: publicProcedure
+    .input(
+      z.object({
+        refreshToken: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const tokens = await rotateRefreshToken(input.refreshToken, ctx.client);
+
+      if (!tokens) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Session expired. Please log in again.',
+        });
+      }
+
+      return { token: tokens.token, refreshToken: tokens.refreshToken };
+    }),
+
+  logout: protectedProcedure.mutation(async ({ ctx }) => {
+    if (ctx.sessionId) {
+      await revokeSession(ctx.sessionId);
+    }
+    return { success: true };
+  }),
+
+  // List the current user's open sessions (devices)
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId: ctx.user.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      isCurrent: session.id === ctx.sessionId,
+    }));
+  }),
+
+  revokeSession: protectedProcedure
+    .input(
+      z.object({
+        sessionId: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const session = await prisma.userSession.findFirst({
+        where: { id: input.sessionId, userId: ctx.user.id },
+        select: { id: true },
+      });
+
+      if (!session) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Session not found',
+        });
+      }
+
+      await revokeSession(session.id);
+
+      return { success: true };
+    }),
+
+  // Email a single-use reset link. Always reports success so the response
+  // does not reveal which emails have accounts.
+  requestPasswordReset: publicProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const user = await prisma.user.findUnique({
+          where: { email: input.email },
+          include: { settings: { select: { systemLanguage: true } } },
+        });
+
+        if (user && user.status === 'ACTIVE') {
+          const { token, expiresAt } = await createPasswordResetToken(user.id);
+          const expiresInMinutes = Math.round(
+            (expiresAt.getTime() - Date.now()) / 60000
+          );
+
+          await sendPasswordResetEmail(
+            user.email,
+            user.firstName || user.name || 'User',
+            token,
+            expiresInMinutes,
+            user.settings?.systemLanguage || 'en'
+          );
+        }
+      } catch (error) {
+        console.error('Request password reset error:', error);
+      }
+
+      return { success: true };
+    }),
+
+  confirmPasswordReset: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        newPassword: z.string().min(6),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const userId = await consumePasswordResetToken(input.token);
+
+        if (!userId) {
+          throw new Error('Invalid or expired reset link');
+        }
+
+        const hashedPassword = await hashPassword(input.newPassword);
+
+        const user = await prisma.user.update({
+          where: { id: userId },
+          data: {
+            password: hashedPassword,
+            hasChangedPassword: true,
+          },
+        });
+
+        // Anyone holding a session opened with the old password is signed out
+        await revokeUserSessions(userId);
+
+        // Proving control of the mailbox lifts any lockout on the account
+        await clearAccountLoginFailures(user.email);
+
+        return { success: true };
+      } catch (error) {
+        console.error('Confirm password reset error:', error);
+        if (
+          error instanceof Error &&
+          error.message === 'Invalid or expired reset link'
+        ) {
+          throw error;
+        }
+        throw new Error('Failed to reset password. Please try again.');
+      }
+    }),
+
+  // Start two-factor enrollment: store a pending secret and return it with
+  // its otpauth URI / QR code. It only takes effect after enableTwoFactor.
+  setupTwoFactor: sessionProcedure.mutation(async ({ ctx }) => {
+    if (ctx.user.twoFactorEnabled) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: ctx.user.id },
+      data: { twoFactorSecret: secret },
+    });
+
+    const { otpauthUrl, qrCodeDataUrl } = await buildTotpEnrollment(
+      secret,
+      ctx.user.email
+    );
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }),
+
+  enableTwoFactor: sessionProcedure
+    .input(
+      z.object({
+        code: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const user = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+        select: { twoFactorEnabled: true, twoFactorSecret: true },
+      });
+
+      if (!user?.twoFactorSecret || user.twoFactorEnabled) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Start two-factor setup first',
+        });
+      }
+
+      const secret = user.twoFactorSecret;
+      const isValidCode = await verifyThrottled(
+        ctx.user.email,
+        ctx.client.ipAddress,
+        async () => verifyTotpCode(secret, input.code)
+      );
+      if (!isValidCode) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid authentication code',
+        });
+      }
+
+      await prisma.user.update({
+        where: { id: ctx.user.id },
+        data: { twoFactorEnabled: true },
+      });
+
+      const backupCodes = await regenerateBackupCodes(ctx.user.id);
+
+      return { success: true, backupCodes };
+    }),
+
+  disableTwoFactor: sessionProcedure
+    .input(
+      z.object({
+        password: z.string(),
+        code: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.user.twoFactorRequired) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Two-factor authentication is required for this account',
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+      });
+
+      if (!user || !user.twoFactorEnabled) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Two-factor authentication is not enabled',
+        });
+      }
+
+      const isValid = await verifyThrottled(
+        user.email,
+        ctx.client.ipAddress,
+        async () =>
+          (await comparePassword(input.password, user.password)) &&
+          (await verifySecondFactor(user, input.code))
+      );
+      if (!isValid) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid password or authentication code',
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: user.id },
+          data: { twoFactorEnabled: false, twoFactorSecret: null },
+        }),
+        prisma.twoFactorBackupCode.deleteMany({ where: { userId: user.id } }),
+      ]);
+
+      return { success: true };
+    }),
+
+  regenerateTwoFactorBackupCodes: sessionProcedure
+    .input(
+      z.object({
+        code: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const user = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+        select: { id: true, twoFactorEnabled: true, twoFactorSecret: true },
+      });
+
+      if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Two-factor authentication is not enabled',
+        });
+      }
+
+      const secret = user.twoFactorSecret;
+      const isValidCode = await verifyThrottled(
+        ctx.user.email,
+        ctx.client.ipAddress,
+        async () => verifyTotpCode(secret, input.code)
+      );
+      if (!isValidCode) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Invalid authentication code',
+        });
+      }
+
+      const backupCodes = await regenerateBackupCodes(user.id);
+
+      return { backupCodes };
+    }),
+
   getProfile: protectedProcedure.query(async ({ ctx }) => {
     return ctx.user;
   }),
@@ -232,7 +755,7 @@ export const authRouter = router({
       }
     }),
 
-  changePassword: protectedProcedure
+  changePassword: sessionProcedure
     .input(
       z.object({
         currentPassword: z.string(),
@@ -268,6 +791,9 @@ export const authRouter = router({
           },
         });
 
+        // Sign out every other device that knew the old password
+        await revokeUserSessions(ctx.user.id, ctx.sessionId || undefined);
+
         return { success: true };
       } catch (error) {
         console.error('Change password error:', error);
@@ -1,23 +1,26 @@
 import { z } from 'zod';
-import { router, publicProcedure, protectedProcedure } from '../trpc-context';
+import { router, workspaceProcedure, requireWorkspace } from '../trpc-context';
 import { brandService } from '../../services/brandService';
+import { assertBrandProfileInWorkspace } from '../../utils/workspaceResources';
 import { TRPCError } from '@trpc/server';
 
 export const brandRouter = router({
   /**
    * Upload brand resources and create a new brand profile
    */
-  uploadResources: protectedProcedure
+  uploadResources: workspaceProcedure()
     .input(z.object({
       name: z.string().min(1, 'Name is required'),
       urls: z.array(z.string().url()).optional().default([]),
       pdfs: z.array(z.string().url()).optional().default([]),
       otherDocs: z.array(z.string().url()).optional().default([]),
     }))
-    .mutation(async ({ input }: { input: any }) => {
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
       try {
         console.log('Creating brand profile with input:', input);
         const brandProfile = await brandService.createBrandProfile({
+          workspaceId: workspace.id,
           name: input.name,
           urls: input.urls,
           pdfs: input.pdfs,
@@ -51,12 +54,13 @@ export const brandRouter = router({
   /**
    * Get a brand profile by ID
    */
-  getProfile: protectedProcedure
+  getProfile: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'ID is required')
     }))
-    .query(async ({ input }: { input: any }) => {
+    .query(async ({ input, ctx }) => {
       try {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.id);
         const brandProfile = await brandService.getBrandProfile(input.id);
         
         if (!brandProfile) {
@@ -86,10 +90,10 @@ export const brandRouter = router({
   /**
    * Get all brand profiles
    */
-  getAllProfiles: protectedProcedure
-    .query(async () => {
+  getAllProfiles: workspaceProcedure()
+    .query(async ({ ctx }) => {
       try {
-        const brandProfiles = await brandService.getAllBrandProfiles();
+        const brandProfiles = await brandService.getAllBrandProfiles(ctx.workspace?.id);
         
         return {
           success: true,
@@ -111,14 +115,15 @@ export const brandRouter = router({
   /**
    * Update/fine-tune a brand profile
    */
-  updateProfile: protectedProcedure
+  updateProfile: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'ID is required'),
       name: z.string().optional(),
       toneData: z.any().optional() // We'll use any for the tone data since it's a complex JSON object
     }))
-    .mutation(async ({ input }: { input: any }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.id);
         const brandProfile = await brandService.updateBrandProfile({
           id: input.id,
           name: input.name,
@@ -145,12 +150,13 @@ export const brandRouter = router({
   /**
    * Get detailed brand analysis results
    */
-  getDetailedAnalysis: protectedProcedure
+  getDetailedAnalysis: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'ID is required')
     }))
-    .query(async ({ input }: { input: any }) => {
+    .query(async ({ input, ctx }) => {
       try {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.id);
         const detailedAnalysis = await brandService.getDetailedBrandAnalysis(input.id);
         
         return {
@@ -173,12 +179,13 @@ export const brandRouter = router({
   /**
    * Re-analyze a brand profile
    */
-  reanalyzeProfile: protectedProcedure
+  reanalyzeProfile: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'ID is required')
     }))
-    .mutation(async ({ input }: { input: any }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.id);
         const brandProfile = await brandService.reanalyzeBrandProfile(input.id);
         
         return {
@@ -201,15 +208,16 @@ export const brandRouter = router({
   /**
    * Update brand resources (URLs, PDFs, otherDocs) for existing brands
    */
-  updateBrandResources: protectedProcedure
+  updateBrandResources: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'ID is required'),
       urls: z.array(z.string().url()).optional(),
       pdfs: z.array(z.string().url()).optional(),
       otherDocs: z.array(z.string().url()).optional(),
     }))
-    .mutation(async ({ input }: { input: any }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.id);
         // Get the current brand profile
         const currentBrandProfile = await brandService.getBrandProfile(input.id);
         
@@ -1,15 +1,69 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { protectedProcedure, adminProcedure, router } from '../trpc-context';
+import {
+  publicProcedure,
+  protectedProcedure,
+  campaignProcedure,
+  workspaceProcedure,
+  workspaceScope,
+  requireWorkspace,
+  isSuperAdmin,
+  router,
+} from '../trpc-context';
 import { prisma } from '../../utils/prisma';
+import { sendCampaignInviteEmail } from '../../utils/email';
+import {
+  campaignInviteExpiry,
+  signCampaignInviteToken,
+  verifyCampaignInviteToken,
+  getInviteStatus,
+  assertPendingInvite,
+  acceptInvite,
+} from '../../utils/invites';
+import { diffFields } from '../../utils/auditLog';
 import { AnalyticsService } from '../../services/analytics';
 import { keywordCannibalizationService } from '../../services/keywordCannibalization';
-import { searchConsoleService } from '../../services/searchConsole';
+import { sitemapMonitorService } from '../../services/sitemapMonitor';
+import {
+  campaignKeywordService,
+  KeywordSyncResult,
+  activeKeywordsArgs,
+  fitsKeywordColumn,
+  MAX_KEYWORD_LENGTH,
+  normalizeKeyword,
+  parseKeywordList,
+  withKeywordList,
+} from '../../services/campaignKeywords';
+import { keywordGroupService, visibilityWeight } from '../../services/keywordGroups';
+import { keywordPageHistoryService } from '../../services/keywordPageHistory';
+import { BackfillJobConflictError, backfillJobService } from '../../services/backfillJobs';
+import {
+  searchConsoleService,
+  SearchConsolePropertyError,
+} from '../../services/searchConsole';
+import {
+  SEARCH_TYPES,
+  SEGMENT_DEVICES,
+  ALL_SEGMENT,
+  MAX_CAMPAIGN_SEGMENTS,
+  SearchConsoleSegment,
+  describeSegment,
+  getCampaignSegments,
+  isDefaultSegment,
+  isSameSegment,
+  segmentColumns,
+  segmentSupportsKeywords,
+} from '../../services/searchConsoleSegments';
 import fs from 'fs';
 import path from 'path';
 import moment from 'moment';
 // Import Prisma types to ensure proper type checking
-import type { Prisma, PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type {
+  Campaign,
+  PrismaClient,
+  SearchConsoleKeywordSegmentDailyStat,
+} from '@prisma/client';
 
 const analyticsService = new AnalyticsService();
 
@@ -34,12 +88,12 @@ const aggregateDailyStats = (stats: any[], days: number = 7) => {
   let totalImpressions = 0;
 
   lastDaysStats.forEach((stat) => {
-    const searchVolume = stat.searchVolume || 0;
+    const impressions = stat.impressions || 0;
     const position = stat.averageRank || 0;
 
-    totalSearchVolume += searchVolume;
-    weightedPositionSum += position * searchVolume;
-    totalImpressions += searchVolume; // searchVolume is essentially impressions
+    totalSearchVolume += impressions;
+    weightedPositionSum += position * impressions;
+    totalImpressions += impressions;
   });
 
   const averagePosition =
@@ -54,6 +108,26 @@ const aggregateDailyStats = (stats: any[], days: number = 7) => {
   };
 };
 
+/**
+ * Total clicks of a keyword's daily stats and their CTR (percent) over the
+ * same days, or nulls if none of them has clicks yet (stored before clicks
+ * were captured and not backfilled)
+ */
+const sumCapturedClicks = (
+  stats: { clicks: number | null; impressions: number }[]
+): { clicks: number | null; ctr: number | null } => {
+  const captured = stats.filter((stat) => stat.clicks !== null);
+  if (captured.length === 0) {
+    return { clicks: null, ctr: null };
+  }
+  const clicks = captured.reduce((sum, stat) => sum + (stat.clicks || 0), 0);
+  const impressions = captured.reduce((sum, stat) => sum + (stat.impressions || 0), 0);
+  return {
+    clicks,
+    ctr: impressions > 0 ? parseFloat(((clicks / impressions) * 100).toFixed(2)) : null,
+  };
+};
+
 /**
  * Shared helper to process raw Search Console keywords into the frontend format
  * Returns processed keywords and the sorted list of months keys (M/YYYY)
@@ -177,7 +251,7 @@ async function processKeywordsForCampaign({
               }
             );
             const monthSearchVolume = selectedMonthStats.reduce(
-              (sum: number, s: any) => sum + (s.searchVolume || 0),
+              (sum: number, s: any) => sum + (s.impressions || 0),
               0
             );
             // Determine top page by impressions
@@ -186,7 +260,7 @@ async function processKeywordsForCampaign({
               const url = s.topRankingPageUrl || '';
               if (!url) return;
               pageToImpressions[url] =
-                (pageToImpressions[url] || 0) + (s.searchVolume || 0);
+                (pageToImpressions[url] || 0) + (s.impressions || 0);
             });
             let monthTopPageUrl = '';
             let topImpr = -1;
@@ -291,7 +365,7 @@ async function processKeywordsForCampaign({
               );
             });
             searchVolume = stats.reduce(
-              (sum: number, s: any) => sum + (s.searchVolume || 0),
+              (sum: number, s: any) => sum + (s.impressions || 0),
               0
             );
           } else if (latestValue) {
@@ -311,7 +385,7 @@ async function processKeywordsForCampaign({
               return d.getMonth() + 1 === m && d.getFullYear() === y;
             });
             searchVolume = stats.reduce(
-              (sum: number, s: any) => sum + (s.searchVolume || 0),
+              (sum: number, s: any) => sum + (s.impressions || 0),
               0
             );
           }
@@ -387,133 +461,29 @@ async function processKeywordsForCampaign({
 
 // Helper function to handle keyword changes
 async function handleKeywordChanges(
-  oldCampaign: any,
-  newCampaign: any
+  campaign: Campaign,
+  { added: addedKeywords, removed: removedKeywords }: KeywordSyncResult
 ): Promise<void> {
   console.log(
-    `🔍 handleKeywordChanges called for campaign: ${newCampaign.name}`
+    `🔍 handleKeywordChanges called for campaign: ${campaign.name}`
   );
 
   try {
-    const oldKeywords = oldCampaign.keywords
-      .split('\n')
-      .map((k: string) => k.trim())
-      .filter((k: string) => k.length > 0);
-
-    const newKeywords = newCampaign.keywords
-      .split('\n')
-      .map((k: string) => k.trim())
-      .filter((k: string) => k.length > 0);
-
-    // Find removed keywords
-    const removedKeywords = oldKeywords.filter(
-      (keyword: string) => !newKeywords.includes(keyword)
-    );
-
-    // Find added keywords
-    const addedKeywords = newKeywords.filter(
-      (keyword: string) => !oldKeywords.includes(keyword)
-    );
-
     // Log keyword changes for debugging
     console.log(
-      `Campaign ${newCampaign.name
+      `Campaign ${campaign.name
       } keyword changes: Removed: [${removedKeywords.join(
         ', '
       )}], Added: [${addedKeywords.join(', ')}]`
     );
 
-    console.log(
-      `🌐 Looking for analytics record for site: ${newCampaign.searchConsoleSite}`
-    );
-
-    // Get the analytics record for this campaign
-    const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
-      where: { siteUrl: newCampaign.searchConsoleSite },
-      include: {
-        keywords: {
-          include: {
-            monthlyStats: true,
-          },
-        },
-      },
-    });
-
-    if (!analytics) {
-      console.log(
-        `⚠️ No analytics record found for site: ${newCampaign.searchConsoleSite}`
-      );
-      console.log(`📝 Creating new analytics record and fetching data...`);
-
-      // Create analytics record and fetch data
-      if (addedKeywords.length > 0) {
-        console.log(
-          `🔄 Fetching data for ${addedKeywords.length
-          } added keywords: ${addedKeywords.join(', ')}`
-        );
-
-        // Run data fetching asynchronously without blocking the response
-        console.log(`📊 Starting background data fetch for new keywords...`);
-
-        // Use setImmediate to run in the next tick, making it truly asynchronous
-        setImmediate(async () => {
-          try {
-            console.log(`📊 Starting fetchDailySiteTraffic...`);
-            await analyticsService.fetchDailySiteTraffic({
-              campaignId: newCampaign.id,
-              waitForAllData: true,
-            });
-            console.log(`✅ Completed fetchDailySiteTraffic`);
-
-            // Also fetch daily keyword data for the new keywords
-            console.log(`🔍 Starting fetchDailyKeywordData...`);
-            await analyticsService.fetchDailyKeywordData({
-              campaignId: newCampaign.id,
-              waitForAllData: true,
-            });
-            console.log(`✅ Completed fetchDailyKeywordData`);
-          } catch (error) {
-            console.error('❌ Error fetching data for added keywords:', error);
-            // Don't throw here since this is running asynchronously
-          }
-        });
-      }
-      return;
-    }
-
-    console.log(
-      `✅ Found analytics record: ${analytics.id} with ${analytics.keywords.length} keywords`
-    );
-
-    // Delete data for removed keywords
+    // Removed keywords keep their stored stats, so restoring one brings its
+    // history back. Campaign queries only read active keywords; only the
+    // campaign's top keyword entries are dropped.
     if (removedKeywords.length > 0) {
-      const keywordsToDelete = analytics.keywords.filter((keyword: any) =>
-        removedKeywords.includes(keyword.keyword)
-      );
-
-      for (const keyword of keywordsToDelete) {
-        // Delete monthly stats first (due to foreign key constraints)
-        await prisma.searchConsoleKeywordMonthlyStat.deleteMany({
-          where: { keywordId: keyword.id },
-        });
-        // Delete monthly computed entries used by CTR/fallbacks
-        await prisma.searchConsoleKeywordMonthlyComputed.deleteMany({
-          where: { keywordId: keyword.id },
-        });
-        // Delete daily stats
-        await prisma.searchConsoleKeywordDailyStat.deleteMany({
-          where: { keywordId: keyword.id },
-        });
-        // Remove any persisted top keyword entries for this campaign+keyword
-        await prisma.topKeywordData.deleteMany({
-          where: { campaignId: newCampaign.id, keyword: keyword.keyword },
-        });
-
-        // Delete the keyword
-        await prisma.searchConsoleKeyword.delete({
-          where: { id: keyword.id },
-        });
-      }
+      await prisma.topKeywordData.deleteMany({
+        where: { campaignId: campaign.id, keyword: { in: removedKeywords } },
+      });
     }
 
     // Fetch new data for added keywords
@@ -531,7 +501,7 @@ async function handleKeywordChanges(
         try {
           console.log(`📊 Starting fetchDailySiteTraffic...`);
           await analyticsService.fetchDailySiteTraffic({
-            campaignId: newCampaign.id,
+            campaignId: campaign.id,
             waitForAllData: true,
           });
           console.log(`✅ Completed fetchDailySiteTraffic`);
@@ -539,7 +509,7 @@ async function handleKeywordChanges(
           // Also fetch daily keyword data for the new keywords
           console.log(`🔍 Starting fetchDailyKeywordData...`);
           await analyticsService.fetchDailyKeywordData({
-            campaignId: newCampaign.id,
+            campaignId: campaign.id,
             waitForAllData: true,
           });
           console.log(`✅ Completed fetchDailyKeywordData`);
@@ -555,15 +525,250 @@ async function handleKeywordChanges(
   }
 }
 
+/**
+ * Check that the Google account can read the property. Returns the property
+ * as Search Console lists it and the account's permission level; failures
+ * are BAD_REQUEST errors with the details in `data.validation`.
+ */
+const validateSearchConsoleSite = async (
+  googleAccountId: string,
+  site: string
+) => {
+  try {
+    const { siteUrl, permissionLevel } =
+      await searchConsoleService.resolveSiteForAccount(googleAccountId, site);
+    return { searchConsoleSite: siteUrl, searchConsolePermission: permissionLevel };
+  } catch (error) {
+    if (error instanceof SearchConsolePropertyError) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+};
+
+/**
+ * The segment a stats query asks for, or null for the default segment,
+ * which is read from the regular daily tables. Segments the campaign
+ * doesn't track have no data and are rejected.
+ */
+const resolveSegment = (
+  campaign: Pick<Campaign, 'segmentConfig'>,
+  segment?: SearchConsoleSegment
+): SearchConsoleSegment | null => {
+  if (!segment || isDefaultSegment(segment)) {
+    return null;
+  }
+  if (!getCampaignSegments(campaign).some((tracked) => isSameSegment(tracked, segment))) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Segment ${describeSegment(segment)} is not tracked for this campaign`,
+    });
+  }
+  return segment;
+};
+
+/**
+ * Active keywords of the keyword group a stats query is limited to, or null
+ * when it isn't limited to a group
+ */
+const resolveGroupKeywords = async (
+  campaignId: string,
+  groupId?: string
+): Promise<string[] | null> => {
+  if (!groupId) {
+    return null;
+  }
+  const keywords = await keywordGroupService.getGroupKeywords(campaignId, groupId);
+  if (!keywords) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Keyword group not found' });
+  }
+  return keywords;
+};
+
+/**
+ * Monthly rank and top page from a month of segmented keyword stats, using
+ * the same window as the monthly stats job: the whole current month, or the
+ * last 7 days of a past month. The top page has the most impressions in the
+ * window and the rank is its impression-weighted average position.
+ */
+const summarizeSegmentKeywordMonth = (
+  stats: SearchConsoleKeywordSegmentDailyStat[],
+  month: number,
+  year: number
+) => {
+  const now = new Date();
+  const isCurrentMonth = month === now.getUTCMonth() + 1 && year === now.getUTCFullYear();
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const window = isCurrentMonth
+    ? stats
+    : stats.filter((stat) => stat.date.getUTCDate() > lastDay - 7);
+
+  const impressionsByPage: Record<string, number> = {};
+  window.forEach((stat) => {
+    impressionsByPage[stat.topRankingPageUrl] =
+      (impressionsByPage[stat.topRankingPageUrl] || 0) + stat.impressions;
+  });
+  const topRankingPageUrl =
+    Object.entries(impressionsByPage).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+
+  const pageStats = window.filter((stat) => stat.topRankingPageUrl === topRankingPageUrl);
+  const impressions = pageStats.reduce((sum, stat) => sum + stat.impressions, 0);
+  const averageRank =
+    impressions > 0
+      ? Math.round(
+        (pageStats.reduce(
+          (sum, stat) => sum + (stat.averageRank || 0) * stat.impressions,
+          0
+        ) /
+          impressions) *
+          10
+      ) / 10
+      : 0;
+
+  return {
+    averageRank,
+    topRankingPageUrl,
+    searchVolume: stats.reduce((sum, stat) => sum + stat.impressions, 0),
+  };
+};
+
+/**
+ * getCampaignTrafficData for a segment. Segments only have daily rows, so
+ * the monthly series is summed from them: the 12 months before the selected
+ * month, then the selected month. Each month's percentageChange compares
+ * clicks with the month before; the overall one compares the selected month
+ * with the same month a year earlier.
+ */
+const getSegmentTrafficData = async (
+  analyticsId: string,
+  segment: SearchConsoleSegment,
+  targetYear: number,
+  targetMonth0: number
+) => {
+  const abbr = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const rows = await prisma.searchConsoleTrafficSegmentDaily.findMany({
+    where: {
+      analyticsId,
+      ...segmentColumns(segment),
+      date: {
+        gte: new Date(Date.UTC(targetYear, targetMonth0 - 13, 1)),
+        lt: new Date(Date.UTC(targetYear, targetMonth0 + 1, 1)),
+      },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  // Daily rows are stored at UTC midnight, so months are UTC months
+  const rowsInMonth = (y: number, m0: number) => {
+    const from = new Date(Date.UTC(y, m0, 1));
+    const to = new Date(Date.UTC(y, m0 + 1, 1));
+    return rows.filter((r) => r.date >= from && r.date < to);
+  };
+  const sumClicks = (rs: { clicks: number }[]) => rs.reduce((acc, r) => acc + r.clicks, 0);
+
+  const monthly: Array<{ month: string; clicks: number; impressions: number; ctr: number; position: number; percentageChange: number }> = [];
+  for (let i = 12; i >= 0; i--) {
+    const d = new Date(Date.UTC(targetYear, targetMonth0 - i, 1));
+    const monthRows = rowsInMonth(d.getUTCFullYear(), d.getUTCMonth());
+    if (monthRows.length === 0) continue;
+
+    const clicks = sumClicks(monthRows);
+    const impressions = monthRows.reduce((acc, r) => acc + r.impressions, 0);
+    const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
+    const position = monthRows.reduce((acc, r) => acc + (r.position ?? 0), 0) / monthRows.length;
+    const prevMonthClicks = sumClicks(rowsInMonth(d.getUTCFullYear(), d.getUTCMonth() - 1));
+
+    monthly.push({
+      month: `${abbr[d.getUTCMonth()]} ${String(d.getUTCFullYear()).slice(-2)}`,
+      clicks,
+      impressions,
+      ctr: parseFloat(ctr.toFixed(2)),
+      position: parseFloat(position.toFixed(2)),
+      percentageChange: prevMonthClicks > 0 ? Math.round(((clicks - prevMonthClicks) / prevMonthClicks) * 100) : 0,
+    });
+  }
+
+  const dailyRows = rowsInMonth(targetYear, targetMonth0);
+  const daily = dailyRows.map((r) => ({
+    date: `${r.date.getUTCDate()} ${abbr[r.date.getUTCMonth()]}`,
+    clicks: r.clicks,
+    impressions: r.impressions,
+    ctr: r.ctr,
+    position: r.position,
+  }));
+
+  const currentMonthClicks = sumClicks(dailyRows);
+  const prevYearClicks = sumClicks(rowsInMonth(targetYear - 1, targetMonth0));
+  const percentageChange = prevYearClicks > 0 ? Math.round(((currentMonthClicks - prevYearClicks) / prevYearClicks) * 100) : 0;
+
+  return { monthly, daily, percentageChange };
+};
+
+const segmentConfigSchema = z
+  .object({
+    searchTypes: z
+      .array(z.enum(SEARCH_TYPES))
+      .min(1, 'At least one search type is required')
+      .transform((values) => [...new Set(values)]),
+    devices: z
+      .array(z.enum(SEGMENT_DEVICES))
+      .default([])
+      .transform((values) => [...new Set(values)]),
+    countries: z
+      .array(
+        z
+          .string()
+          .regex(/^[a-zA-Z]{3}$/, 'Countries must be ISO 3166-1 alpha-3 codes')
+          .transform((country) => country.toLowerCase())
+      )
+      .default([])
+      .transform((values) => [...new Set(values)]),
+  })
+  .refine(
+    (config) =>
+      config.searchTypes.length *
+        Math.max(config.devices.length, 1) *
+        Math.max(config.countries.length, 1) <=
+      MAX_CAMPAIGN_SEGMENTS,
+    { message: `At most ${MAX_CAMPAIGN_SEGMENTS} segments can be tracked per campaign` }
+  );
+
+// Segment filter of the stats queries; omitted fields mean web search, all
+// devices and all countries
+const segmentFilterSchema = z.object({
+  searchType: z.enum(SEARCH_TYPES).default('web'),
+  device: z.union([z.enum(SEGMENT_DEVICES), z.literal(ALL_SEGMENT)]).default(ALL_SEGMENT),
+  country: z
+    .string()
+    .transform((country) => country.toLowerCase())
+    .default(ALL_SEGMENT),
+});
+
+// Newline-separated keywords; blank lines and duplicates after
+// normalization are dropped
+const keywordListSchema = z
+  .string()
+  .min(1, 'Keywords are required')
+  .refine((keywords) => parseKeywordList(keywords).length > 0, 'Keywords are required')
+  .refine(
+    (keywords) => parseKeywordList(keywords).every(fitsKeywordColumn),
+    `Keywords can be at most ${MAX_KEYWORD_LENGTH} characters`
+  );
+
 const createCampaignSchema = z.object({
   name: z.string().min(1, 'Campaign name is required'),
   startingDate: z.string().transform((str) => new Date(str)),
   searchConsoleAccount: z.string().min(1, 'Search Console account is required'),
   searchConsoleSite: z.string().min(1, 'Search Console site is required'),
-  keywords: z.string().min(1, 'Keywords are required'),
+  keywords: keywordListSchema, // One keyword per line
   userId: z.string().min(1, 'User ID is required'),
   googleAccountId: z.string().min(1, 'Google Account ID is required'),
   whatsappGroupIds: z.array(z.string()).optional(), // WhatsApp group IDs
+  segmentConfig: segmentConfigSchema.optional(), // Segmented stats to store
 });
 
 const updateCampaignSchema = z.object({
@@ -581,20 +786,28 @@ const updateCampaignSchema = z.object({
     .string()
     .min(1, 'Search Console site is required')
     .optional(),
-  keywords: z.string().min(1, 'Keywords are required').optional(),
+  keywords: keywordListSchema.optional(),
   status: z.enum(['ACTIVE', 'PAUSED']).optional(),
   whatsappGroupIds: z.array(z.string()).optional(), // WhatsApp group IDs
+  segmentConfig: segmentConfigSchema.nullable().optional(), // null resets to web only
 });
 
 export const campaignsRouter = router({
   // Create a new campaign
-  createCampaign: adminProcedure
+  createCampaign: workspaceProcedure('ADMIN')
     .input(createCampaignSchema)
     .mutation(async ({ input, ctx }) => {
       try {
-        // Verify the user exists
+        const workspace = requireWorkspace(ctx);
+
+        // The owner must belong to the workspace; global admins may pick any user
         const user = await prisma.user.findFirst({
-          where: { id: input.userId },
+          where: {
+            id: input.userId,
+            ...(isSuperAdmin(ctx.user)
+              ? {}
+              : { workspaceMemberships: { some: { workspaceId: workspace.id } } }),
+          },
         });
 
         if (!user) {
@@ -604,9 +817,9 @@ export const campaignsRouter = router({
           });
         }
 
-        // Verify the Google account exists
+        // Verify the Google account exists in this workspace
         const googleAccount = await prisma.googleAccount.findFirst({
-          where: { id: input.googleAccountId },
+          where: { id: input.googleAccountId, workspaceId: workspace.id },
         });
 
         if (!googleAccount) {
@@ -616,16 +829,26 @@ export const campaignsRouter = router({
           });
         }
 
+        // Broken properties would otherwise only show up at the next cron run
+        const site = await validateSearchConsoleSite(
+          googleAccount.id,
+          input.searchConsoleSite
+        );
+
         // Create the campaign
         const campaign = await prisma.campaign.create({
           data: {
             name: input.name,
             startingDate: input.startingDate,
             searchConsoleAccount: input.searchConsoleAccount,
-            searchConsoleSite: input.searchConsoleSite,
-            keywords: input.keywords,
+            ...site,
+            campaignKeywords: {
+              create: parseKeywordList(input.keywords).map((keyword) => ({ keyword })),
+            },
+            segmentConfig: input.segmentConfig,
             userId: input.userId,
             googleAccountId: input.googleAccountId,
+            workspaceId: workspace.id,
           },
           include: {
             user: {
@@ -642,6 +865,7 @@ export const campaignsRouter = router({
                 email: true,
               },
             },
+            campaignKeywords: activeKeywordsArgs,
           },
         });
 
@@ -649,9 +873,9 @@ export const campaignsRouter = router({
         if (input.whatsappGroupIds && input.whatsappGroupIds.length > 0) {
           const groupAssociations = [];
           for (const groupId of input.whatsappGroupIds) {
-            // Verify group exists in our database
+            // Verify group exists in this workspace
             const group = await prisma.whatsAppGroup.findFirst({
-              where: { groupId },
+              where: { groupId, workspaceId: workspace.id },
             });
 
             if (group) {
@@ -675,11 +899,22 @@ export const campaignsRouter = router({
           waitForAllData: true,
         });
 
-        // Fetch daily keyword data (dimensions: ['date', 'query'])
-        analyticsService.fetchDailyKeywordData({
-          campaignId: campaign.id,
-          waitForAllData: true,
-        });
+        // Fetch daily keyword data (dimensions: ['date', 'query']), then the
+        // configured segments, which reuse its keyword records
+        analyticsService
+          .fetchDailyKeywordData({
+            campaignId: campaign.id,
+            waitForAllData: true,
+          })
+          .then(() =>
+            analyticsService.fetchSegmentedDailyData({
+              campaignId: campaign.id,
+              waitForAllData: true,
+            })
+          )
+          .catch((error) =>
+            console.error(`Error fetching keyword data for campaign ${campaign.id}:`, error)
+          );
 
         // Fetch monthly traffic data for the last 12 months
         analyticsService.fetchAndSaveMonthlyTrafficData({
@@ -704,7 +939,7 @@ export const campaignsRouter = router({
           }
         });
 
-        return campaign;
+        return withKeywordList(campaign);
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -716,48 +951,149 @@ export const campaignsRouter = router({
       }
     }),
 
-  // Re-fetch campaign data: refresh daily site traffic, daily keyword data, and monthly traffic
-  reFetchCampaignData: adminProcedure
+  // Re-fetch campaign data as a backfill job: every day since the starting
+  // date, then monthly traffic and segments. Returns right away; poll
+  // getBackfillStatus for progress
+  reFetchCampaignData: campaignProcedure('ADMIN')
     .input(z.object({ campaignId: z.string().min(1) }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx }) => {
       try {
-        const campaign = await prisma.campaign.findFirst({
-          where: { id: input.campaignId },
-        });
-        if (!campaign) {
-          throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        }
+        const campaign = ctx.campaign;
 
-        let successful = 0;
-        let failed = 0;
+        const job = await backfillJobService.createJob(campaign);
+        ctx.audit.addTargets(job.id);
 
-        const tasks: Array<Promise<boolean>> = [
-          analyticsService.fetchDailySiteTraffic({ campaignId: campaign.id, waitForAllData: true }),
-          analyticsService.fetchDailyKeywordData({ campaignId: campaign.id, waitForAllData: true }),
-          analyticsService.fetchAndSaveMonthlyTrafficData({ campaignId: campaign.id, waitForAllData: true }),
-        ];
-
-        for (const p of tasks) {
+        setImmediate(async () => {
           try {
-            const ok = await p;
-            if (ok) successful++; else failed++;
-          } catch {
-            failed++;
+            await backfillJobService.runJob(job.id);
+          } catch (error) {
+            console.error(`💥 Backfill job ${job.id} failed for campaign ${campaign.id}:`, error);
           }
-        }
+        });
 
         return {
           campaignName: campaign.name,
-          results: { successful, failed },
+          jobId: job.id,
+          totalDays: job.totalDays,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (error instanceof BackfillJobConflictError) {
+          throw new TRPCError({ code: 'CONFLICT', message: error.message });
+        }
         console.error('Error in reFetchCampaignData:', error);
         throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to re-fetch campaign data' });
       }
     }),
 
+  // Status and progress of a backfill job, the campaign's latest by default.
+  // Null when the campaign has none
+  getBackfillStatus: campaignProcedure()
+    .input(
+      z.object({
+        campaignId: z.string().min(1),
+        jobId: z.string().min(1).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        const job = await prisma.backfillJob.findFirst({
+          where: { campaignId: input.campaignId, ...(input.jobId ? { id: input.jobId } : {}) },
+          orderBy: { createdAt: 'desc' },
+        });
+        if (!job) {
+          if (input.jobId) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Backfill job not found' });
+          }
+          return null;
+        }
+
+        return await backfillJobService.getJobStatus(job);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error in getBackfillStatus:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch backfill status' });
+      }
+    }),
+
+  // Retry the failed days of a failed job, or resume a cancelled one
+  retryBackfill: campaignProcedure('ADMIN')
+    .input(z.object({ campaignId: z.string().min(1), jobId: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const job = await prisma.backfillJob.findFirst({
+          where: { id: input.jobId, campaignId: input.campaignId },
+        });
+        if (!job) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Backfill job not found' });
+        }
+        if (job.status !== 'FAILED' && job.status !== 'CANCELLED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only failed or cancelled backfills can be retried',
+          });
+        }
+
+        const retried = await backfillJobService.retryJob(job);
+        ctx.audit.addTargets(job.id);
+
+        setImmediate(async () => {
+          try {
+            await backfillJobService.runJob(job.id);
+          } catch (error) {
+            console.error(`💥 Backfill job ${job.id} failed for campaign ${input.campaignId}:`, error);
+          }
+        });
+
+        return await backfillJobService.getJobStatus(retried);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (error instanceof BackfillJobConflictError) {
+          throw new TRPCError({ code: 'CONFLICT', message: error.message });
+        }
+        console.error('Error in retryBackfill:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to retry backfill' });
+      }
+    }),
+
+  // Cancel a pending or running backfill; days already saved are kept
+  cancelBackfill: campaignProcedure('ADMIN')
+    .input(z.object({ campaignId: z.string().min(1), jobId: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const job = await prisma.backfillJob.findFirst({
+          where: { id: input.jobId, campaignId: input.campaignId },
+        });
+        if (!job) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Backfill job not found' });
+        }
+        if (job.status !== 'PENDING' && job.status !== 'RUNNING') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only pending or running backfills can be cancelled',
+          });
+        }
+
+        // The job may have finished since it was read
+        if (!(await backfillJobService.cancelJob(job.id))) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only pending or running backfills can be cancelled',
+          });
+        }
+        ctx.audit.addTargets(job.id);
+
+        const cancelled = await prisma.backfillJob.findUniqueOrThrow({ where: { id: job.id } });
+        return await backfillJobService.getJobStatus(cancelled);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error in cancelBackfill:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to cancel backfill' });
+      }
+    }),
+
   // Export raw keyword daily stats for a date range
-  exportKeywordRawRange: adminProcedure
+  exportKeywordRawRange: campaignProcedure('ADMIN')
     .input(
       z.object({
         campaignId: z.string().min(1),
@@ -765,13 +1101,10 @@ export const campaignsRouter = router({
         endDate: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        const { campaignId, startDate, endDate } = input;
-        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId } });
-        if (!campaign) {
-          throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        }
+        const { startDate, endDate } = input;
+        const campaign = ctx.campaign;
 
         const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
           where: { siteUrl: campaign.searchConsoleSite },
@@ -779,12 +1112,13 @@ export const campaignsRouter = router({
         });
         if (!analytics) return [] as any[];
 
+        const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
         const start = new Date(startDate);
         const end = new Date(endDate);
 
         const rows = await prisma.searchConsoleKeywordDailyStat.findMany({
           where: {
-            keyword: { analyticsId: analytics.id },
+            keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
             date: { gte: start, lte: end },
           },
           include: { keyword: true },
@@ -796,8 +1130,10 @@ export const campaignsRouter = router({
           keyword: r.keyword.keyword,
           date: r.date,
           averageRank: r.averageRank ?? 0,
-          impressions: r.searchVolume || 0,
-          clicks: 0,
+          impressions: r.impressions || 0,
+          // Null until the day is backfilled
+          clicks: r.clicks,
+          ctr: r.ctr,
           topRankingPageUrl: (() => {
             try { return r.topRankingPageUrl ? decodeURIComponent(r.topRankingPageUrl) : ''; } catch { return r.topRankingPageUrl || ''; }
           })(),
@@ -811,7 +1147,7 @@ export const campaignsRouter = router({
     }),
 
   // Get keywords with CTR < 5% for a selected month (Unused Potential)
-  getUnusedPotential: protectedProcedure
+  getUnusedPotential: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string().min(1),
@@ -822,13 +1158,7 @@ export const campaignsRouter = router({
       try {
         const { campaignId, selectedMonth } = input;
 
-        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId } });
-        if (!campaign) {
-          throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        }
-        if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') {
-          throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
-        }
+        const campaign = ctx.campaign;
 
         // Parse month input like "Oct 2025" or "October 2025" or with 2-digit year
         const parseMonth = (m: string) => {
@@ -853,11 +1183,12 @@ export const campaignsRouter = router({
         if (!analytics) {
           return { keywords: [] as any[] };
         }
+        const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaignId);
 
         // Get computed monthly rows for the selected month/year
         let rows = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
           where: {
-            keyword: { analyticsId: analytics.id },
+            keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
             month: monthNum,
             year: yearNum,
           },
@@ -870,7 +1201,7 @@ export const campaignsRouter = router({
             await analyticsService.computeAndPersistMonthlyMetrics(campaignId, monthNum, yearNum);
             rows = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
               where: {
-                keyword: { analyticsId: analytics.id },
+                keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
                 month: monthNum,
                 year: yearNum,
               },
@@ -912,7 +1243,7 @@ export const campaignsRouter = router({
     }),
 
   // Get all campaigns with pagination and filtering
-  getCampaigns: adminProcedure
+  getCampaigns: workspaceProcedure('ADMIN')
     .input(
       z.object({
         page: z.number().min(1).default(1),
@@ -922,13 +1253,13 @@ export const campaignsRouter = router({
         userId: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       try {
         const { page, limit, search, statusFilter, userId } = input;
         const skip = (page - 1) * limit;
 
         // Build where clause
-        const where: any = {};
+        const where: any = { ...workspaceScope(ctx) };
 
         if (search) {
           where.OR = [
@@ -967,13 +1298,14 @@ export const campaignsRouter = router({
                   email: true,
                 },
               },
+              campaignKeywords: activeKeywordsArgs,
             },
           }),
           prisma.campaign.count({ where }),
         ]);
 
         return {
-          campaigns,
+          campaigns: campaigns.map(withKeywordList),
           pagination: {
             page,
             limit,
@@ -992,12 +1324,13 @@ export const campaignsRouter = router({
     }),
 
   // Get performance metrics for all campaigns (weekly/monthly change and overall)
-  getCampaignPerformanceMetrics: adminProcedure
+  getCampaignPerformanceMetrics: workspaceProcedure('ADMIN')
     .input(z.object({}).optional())
-    .query(async () => {
+    .query(async ({ ctx }) => {
       try {
         // Fetch all campaigns (active and paused)
         const campaigns = await prisma.campaign.findMany({
+          where: workspaceScope(ctx),
           select: { id: true, searchConsoleSite: true },
         });
 
@@ -1026,6 +1359,10 @@ export const campaignsRouter = router({
             });
 
             if (!analytics) return base;
+            const keywordWhere = {
+              analyticsId: analytics.id,
+              keyword: { in: await campaignKeywordService.getActiveKeywords(campaign.id) },
+            };
 
             // ----- Monthly change using SearchConsoleKeywordMonthlyComputed -----
             let monthlyUp = 0;
@@ -1045,7 +1382,7 @@ export const campaignsRouter = router({
               const [currRows, prevRows] = await Promise.all([
                 prisma.searchConsoleKeywordMonthlyComputed.findMany({
                   where: {
-                    keyword: { analyticsId: analytics.id },
+                    keyword: keywordWhere,
                     month: currentMonth,
                     year: currentYear,
                   },
@@ -1053,7 +1390,7 @@ export const campaignsRouter = router({
                 }),
                 prisma.searchConsoleKeywordMonthlyComputed.findMany({
                   where: {
-                    keyword: { analyticsId: analytics.id },
+                    keyword: keywordWhere,
                     month: prevMonth,
                     year: prevYear,
                   },
@@ -1093,10 +1430,10 @@ export const campaignsRouter = router({
 
               const stats = await prisma.searchConsoleKeywordDailyStat.findMany({
                 where: {
-                  keyword: { analyticsId: analytics.id },
+                  keyword: keywordWhere,
                   date: { gte: prevStart, lte: endDate },
                 },
-                select: { keywordId: true, date: true, averageRank: true, searchVolume: true },
+                select: { keywordId: true, date: true, averageRank: true, impressions: true },
               });
 
               // Group by keyword and window
@@ -1104,7 +1441,7 @@ export const campaignsRouter = router({
               for (const s of stats) {
                 const key = s.keywordId;
                 if (!byKeyword[key]) byKeyword[key] = { prev: { wSum: 0, vSum: 0 }, curr: { wSum: 0, vSum: 0 } };
-                const vol = s.searchVolume || 0;
+                const vol = s.impressions || 0;
                 const rank = s.averageRank ?? 0;
                 const d = new Date(s.date);
                 if (d >= currStart) {
@@ -1163,21 +1500,23 @@ export const campaignsRouter = router({
     }),
 
   // Count of active campaigns
-  getActiveCampaignsCount: adminProcedure
+  getActiveCampaignsCount: workspaceProcedure('ADMIN')
     .input(z.void())
-    .query(async () => {
-      const count = await prisma.campaign.count({ where: { status: 'ACTIVE' } });
+    .query(async ({ ctx }) => {
+      const count = await prisma.campaign.count({
+        where: { status: 'ACTIVE', ...workspaceScope(ctx) },
+      });
       return count;
     }),
 
   // Overall visibility across all active campaigns (percentage 0-100)
-  getOverallVisibility: adminProcedure
+  getOverallVisibility: workspaceProcedure('ADMIN')
     .input(z.void())
-    .query(async () => {
+    .query(async ({ ctx }) => {
       // Collect analytics IDs for active campaigns' sites
       const activeCampaigns = await prisma.campaign.findMany({
-        where: { status: 'ACTIVE' },
-        select: { searchConsoleSite: true },
+        where: { status: 'ACTIVE', ...workspaceScope(ctx) },
+        select: { searchConsoleSite: true, campaignKeywords: activeKeywordsArgs },
       });
       if (activeCampaigns.length === 0) return 0;
 
@@ -1188,9 +1527,17 @@ export const campaignsRouter = router({
       });
       if (analytics.length === 0) return 0;
 
+      // Each campaign's keywords on its own site
+      const keywordWhere = {
+        OR: activeCampaigns.map((c) => ({
+          analytics: { siteUrl: c.searchConsoleSite },
+          keyword: { in: c.campaignKeywords.map((k) => k.keyword) },
+        })),
+      };
+
       // Latest month/year present in computed table for these analytics
       const latest = await prisma.searchConsoleKeywordMonthlyComputed.findFirst({
-        where: { keyword: { analyticsId: { in: analytics.map((a) => a.id) } } },
+        where: { keyword: keywordWhere },
         orderBy: [{ year: 'desc' }, { month: 'desc' }],
         select: { month: true, year: true },
       });
@@ -1198,7 +1545,7 @@ export const campaignsRouter = router({
 
       const rows = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
         where: {
-          keyword: { analyticsId: { in: analytics.map((a) => a.id) } },
+          keyword: keywordWhere,
           month: latest.month,
           year: latest.year,
         },
@@ -1207,47 +1554,31 @@ export const campaignsRouter = router({
       if (rows.length === 0) return 0;
 
       // Visibility weights by position ranges (per spec)
-      const weightFor = (pos: number) => {
-        if (pos <= 0 || !isFinite(pos)) return 0;
-        if (pos <= 10) return 1.0;
-        if (pos <= 20) return 0.8;
-        if (pos <= 30) return 0.5;
-        if (pos <= 50) return 0.3;
-        return 0.0;
-      };
-
       const total = rows.length;
-      const visibleSum = rows.reduce((acc, r) => acc + weightFor(r.averageRank), 0);
+      const visibleSum = rows.reduce((acc, r) => acc + visibilityWeight(r.averageRank), 0);
       const visibility = total > 0 ? (visibleSum / total) * 100 : 0;
       return Math.round(visibility * 10) / 10; // one decimal
     }),
 
   // Total keywords tracked across all active campaigns
-  getKeywordsTrackedCount: adminProcedure
+  getKeywordsTrackedCount: workspaceProcedure('ADMIN')
     .input(z.void())
-    .query(async () => {
-      const activeCampaigns = await prisma.campaign.findMany({
-        where: { status: 'ACTIVE' },
-        select: { searchConsoleSite: true },
-      });
-      if (activeCampaigns.length === 0) return { count: 0 };
-      const sites = activeCampaigns.map((c) => c.searchConsoleSite);
-      const analytics = await prisma.searchConsoleKeywordAnalytics.findMany({
-        where: { siteUrl: { in: sites } },
-        select: { id: true },
-      });
-      if (analytics.length === 0) return { count: 0 };
-      const count = await prisma.searchConsoleKeyword.count({
-        where: { analyticsId: { in: analytics.map((a) => a.id) } },
+    .query(async ({ ctx }) => {
+      const count = await prisma.campaignKeyword.count({
+        where: {
+          removedAt: null,
+          campaign: { status: 'ACTIVE', ...workspaceScope(ctx) },
+        },
       });
       return { count };
     }),
 
   // Top performing campaign score (0-100%) per spec
-  getTopPerformingCampaign: adminProcedure
+  getTopPerformingCampaign: workspaceProcedure('ADMIN')
     .input(z.void())
-    .query(async () => {
+    .query(async ({ ctx }) => {
       const campaigns = await prisma.campaign.findMany({
+        where: workspaceScope(ctx),
         select: { id: true, searchConsoleSite: true },
       });
       if (campaigns.length === 0) return { score: 0 };
@@ -1270,14 +1601,18 @@ export const campaignsRouter = router({
           select: { id: true },
         });
         if (!analytics) continue;
+        const keywordWhere = {
+          analyticsId: analytics.id,
+          keyword: { in: await campaignKeywordService.getActiveKeywords(c.id) },
+        };
 
         const [currRows, prevRows] = await Promise.all([
           prisma.searchConsoleKeywordMonthlyComputed.findMany({
-            where: { keyword: { analyticsId: analytics.id }, month: latest.month, year: latest.year },
+            where: { keyword: keywordWhere, month: latest.month, year: latest.year },
             select: { keywordId: true, averageRank: true },
           }),
           prisma.searchConsoleKeywordMonthlyComputed.findMany({
-            where: { keyword: { analyticsId: analytics.id }, month: prevMonth, year: prevYear },
+            where: { keyword: keywordWhere, month: prevMonth, year: prevYear },
             select: { keywordId: true, averageRank: true },
           }),
         ]);
@@ -1316,7 +1651,7 @@ export const campaignsRouter = router({
     }),
 
   // Get a single campaign by ID
-  getCampaign: adminProcedure
+  getCampaign: campaignProcedure('VIEWER', 'id')
     .input(z.object({ id: z.string() }))
     .query(async ({ input }) => {
       try {
@@ -1337,6 +1672,7 @@ export const campaignsRouter = router({
                 email: true,
               },
             },
+            campaignKeywords: activeKeywordsArgs,
           },
         });
 
@@ -1347,7 +1683,7 @@ export const campaignsRouter = router({
           });
         }
 
-        return campaign;
+        return withKeywordList(campaign);
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -1359,24 +1695,91 @@ export const campaignsRouter = router({
       }
     }),
 
-  // Update a campaign
-  updateCampaign: adminProcedure
-    .input(updateCampaignSchema)
-    .mutation(async ({ input }) => {
+  // The campaign's keywords with their target pages and added/removed dates
+  getCampaignKeywords: campaignProcedure()
+    .input(
+      z.object({
+        campaignId: z.string().min(1, 'Campaign ID is required'),
+        includeRemoved: z.boolean().default(false),
+      })
+    )
+    .query(async ({ input }) => {
       try {
-        const { id, ...updateData } = input;
+        return await campaignKeywordService.getKeywords(input.campaignId, input.includeRemoved);
+      } catch (error) {
+        console.error('Error in getCampaignKeywords:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch campaign keywords' });
+      }
+    }),
 
-        // Check if campaign exists
-        const existingCampaign = await prisma.campaign.findFirst({
-          where: { id },
+  // Pages a keyword ranked with per day, and the days its top page changed
+  getKeywordPageHistory: campaignProcedure()
+    .input(
+      z.object({
+        campaignId: z.string().min(1, 'Campaign ID is required'),
+        keyword: z.string().min(1, 'Keyword is required'),
+        startDate: z.coerce.date().optional(), // Defaults to 90 days before endDate
+        endDate: z.coerce.date().optional(), // Defaults to today
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        const keyword = normalizeKeyword(input.keyword);
+        const tracked = await prisma.campaignKeyword.findUnique({
+          where: { campaignId_keyword: { campaignId: input.campaignId, keyword } },
+          select: { targetUrl: true },
         });
+        if (!tracked) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Keyword not found' });
+        }
 
-        if (!existingCampaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
-          });
+        const history = await keywordPageHistoryService.getKeywordPageHistory(
+          ctx.campaign.searchConsoleSite,
+          keyword,
+          { from: input.startDate, to: input.endDate }
+        );
+        return { ...history, targetUrl: tracked.targetUrl };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error in getKeywordPageHistory:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch keyword page history' });
+      }
+    }),
+
+  // Set or clear the page a keyword is meant to rank with
+  setKeywordTargetUrl: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string().min(1, 'Campaign ID is required'),
+        keyword: z.string().min(1, 'Keyword is required'),
+        targetUrl: z.string().url('Target URL must be a valid URL').nullable(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const keyword = await campaignKeywordService.setTargetUrl(
+          input.campaignId,
+          input.keyword,
+          input.targetUrl
+        );
+        ctx.audit.recordChanges({ keyword: keyword.keyword, targetUrl: input.targetUrl });
+        return keyword;
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Keyword not found') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Keyword not found' });
         }
+        console.error('Error in setKeywordTargetUrl:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to update keyword target URL' });
+      }
+    }),
+
+  // Update a campaign
+  updateCampaign: campaignProcedure('ADMIN', 'id')
+    .input(updateCampaignSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { id, ...updateData } = input;
+        const existingCampaign = ctx.campaign;
 
         // Check if starting date is being updated
         const isStartingDateChanged =
@@ -1384,35 +1787,75 @@ export const campaignsRouter = router({
           existingCampaign.startingDate.getTime() !==
           updateData.startingDate.getTime();
 
-        // Check if keywords are being updated
-        const isKeywordsChanged =
-          updateData.keywords &&
-          existingCampaign.keywords !== updateData.keywords;
+        // Check if the tracked segments are being updated
+        const isSegmentConfigChanged =
+          updateData.segmentConfig !== undefined &&
+          JSON.stringify(updateData.segmentConfig) !==
+          JSON.stringify(existingCampaign.segmentConfig);
 
         // Extract whatsappGroupIds from updateData before updating campaign
-        const { whatsappGroupIds, ...campaignUpdateData } = updateData;
+        const {
+          whatsappGroupIds,
+          searchConsoleSite,
+          segmentConfig,
+          ...otherUpdateData
+        } = updateData;
+        const campaignUpdateData = {
+          ...otherUpdateData,
+          ...(searchConsoleSite !== undefined
+            ? await validateSearchConsoleSite(
+                existingCampaign.googleAccountId,
+                searchConsoleSite
+              )
+            : {}),
+        };
 
-        // Update the campaign
-        const campaign = await prisma.campaign.update({
-          where: { id },
-          data: campaignUpdateData,
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
+        const { keywords: newKeywords, ...fieldUpdates } = campaignUpdateData;
+        ctx.audit.recordChanges(
+          diffFields(existingCampaign, { ...fieldUpdates, segmentConfig })
+        );
+
+        // Update the campaign and its keywords together
+        const { campaign, keywordChanges } = await prisma.$transaction(async (tx) => {
+          const keywordChanges =
+            newKeywords !== undefined
+              ? await campaignKeywordService.syncKeywords(id, parseKeywordList(newKeywords), tx)
+              : null;
+          const campaign = await tx.campaign.update({
+            where: { id },
+            data: {
+              ...fieldUpdates,
+              // Json columns are cleared with DbNull rather than null
+              ...(segmentConfig !== undefined
+                ? { segmentConfig: segmentConfig ?? Prisma.DbNull }
+                : {}),
             },
-            googleAccount: {
-              select: {
-                id: true,
-                accountName: true,
-                email: true,
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+              googleAccount: {
+                select: {
+                  id: true,
+                  accountName: true,
+                  email: true,
+                },
               },
+              campaignKeywords: activeKeywordsArgs,
             },
-          },
+          });
+          return { campaign: withKeywordList(campaign), keywordChanges };
         });
+        const isKeywordsChanged =
+          !!keywordChanges &&
+          (keywordChanges.added.length > 0 || keywordChanges.removed.length > 0);
+        if (isKeywordsChanged) {
+          ctx.audit.recordChanges({ keywords: keywordChanges });
+        }
 
         // Update WhatsApp groups if provided
         if (whatsappGroupIds !== undefined) {
@@ -1425,9 +1868,9 @@ export const campaignsRouter = router({
           if (whatsappGroupIds.length > 0) {
             const groupAssociations = [];
             for (const groupId of whatsappGroupIds) {
-              // Verify group exists in our database
+              // Verify group exists in the campaign's workspace
               const group = await prisma.whatsAppGroup.findFirst({
-                where: { groupId },
+                where: { groupId, workspaceId: existingCampaign.workspaceId },
               });
 
               if (group) {
@@ -1447,11 +1890,11 @@ export const campaignsRouter = router({
         }
 
         // Handle keyword changes asynchronously
-        if (isKeywordsChanged) {
+        if (keywordChanges && isKeywordsChanged) {
           // Run keyword changes handling asynchronously without blocking the response
           setImmediate(async () => {
             try {
-              await handleKeywordChanges(existingCampaign, campaign);
+              await handleKeywordChanges(campaign, keywordChanges);
             } catch (error) {
               console.error(
                 'Error handling keyword changes asynchronously:',
@@ -1481,6 +1924,19 @@ export const campaignsRouter = router({
           });
         }
 
+        // Fetch stats for newly tracked segments; each segment continues
+        // from its last stored day, so unchanged segments cost little
+        if (isStartingDateChanged || isSegmentConfigChanged) {
+          analyticsService
+            .fetchSegmentedDailyData({
+              campaignId: campaign.id,
+              waitForAllData: true,
+            })
+            .catch((error) =>
+              console.error(`Error fetching segmented data for campaign ${campaign.id}:`, error)
+            );
+        }
+
         return campaign;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -1494,22 +1950,19 @@ export const campaignsRouter = router({
     }),
 
   // Delete a campaign
-  deleteCampaign: adminProcedure
+  deleteCampaign: campaignProcedure('ADMIN', 'id')
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        // Check if campaign exists
-        const existingCampaign = await prisma.campaign.findFirst({
-          where: { id: input.id },
+        // The ID alone means nothing once the row is gone
+        ctx.audit.recordChanges({
+          deleted: {
+            name: ctx.campaign.name,
+            searchConsoleSite: ctx.campaign.searchConsoleSite,
+            userId: ctx.campaign.userId,
+          },
         });
 
-        if (!existingCampaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
-          });
-        }
-
         // Delete the campaign
         await prisma.campaign.delete({
           where: { id: input.id },
@@ -1528,7 +1981,7 @@ export const campaignsRouter = router({
     }),
 
   // Get campaigns by user ID with pagination (admin only)
-  getCampaignsByUser: adminProcedure
+  getCampaignsByUser: workspaceProcedure('ADMIN')
     .input(
       z.object({
         userId: z.string(),
@@ -1538,13 +1991,13 @@ export const campaignsRouter = router({
         statusFilter: z.enum(['all', 'ACTIVE', 'PAUSED']).default('all'),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       try {
         const { userId, page, limit, search, statusFilter } = input;
         const skip = (page - 1) * limit;
 
         // Build where clause
-        const where: any = { userId };
+        const where: any = { userId, ...workspaceScope(ctx) };
 
         if (search) {
           where.OR = [
@@ -1579,13 +2032,14 @@ export const campaignsRouter = router({
                 email: true,
               },
             },
+            campaignKeywords: activeKeywordsArgs,
           },
           skip,
           take: limit,
         });
 
         return {
-          campaigns,
+          campaigns: campaigns.map(withKeywordList),
           pagination: {
             page,
             limit,
@@ -1619,14 +2073,32 @@ export const campaignsRouter = router({
         const skip = (page - 1) * limit;
         const userId = ctx.user.id;
 
-        // Build where clause - always filter by current user
-        const where: any = { userId };
+        // Build where clause - campaigns the user owns, is an active member of,
+        // or can see through a workspace membership
+        const where: any = {
+          AND: [
+            {
+              OR: [
+                { userId },
+                { campaignUsers: { some: { userId, isActive: true } } },
+                { workspace: { members: { some: { userId } } } },
+              ],
+            },
+          ],
+        };
+
+        // Campaign-limited API keys only see their own campaigns
+        if (ctx.apiKey?.campaignIds) {
+          where.AND.push({ id: { in: ctx.apiKey.campaignIds } });
+        }
 
         if (search) {
-          where.OR = [
-            { name: { contains: search, mode: 'insensitive' } },
-            { searchConsoleSite: { contains: search, mode: 'insensitive' } },
-          ];
+          where.AND.push({
+            OR: [
+              { name: { contains: search, mode: 'insensitive' } },
+              { searchConsoleSite: { contains: search, mode: 'insensitive' } },
+            ],
+          });
         }
 
         if (statusFilter !== 'all') {
@@ -1655,13 +2127,14 @@ export const campaignsRouter = router({
                 email: true,
               },
             },
+            campaignKeywords: activeKeywordsArgs,
           },
           skip,
           take: limit,
         });
 
         return {
-          campaigns,
+          campaigns: campaigns.map(withKeywordList),
           pagination: {
             page,
             limit,
@@ -1680,21 +2153,11 @@ export const campaignsRouter = router({
     }),
 
   // Toggle campaign status (ACTIVE <-> PAUSED)
-  toggleCampaignStatus: adminProcedure
+  toggleCampaignStatus: campaignProcedure('ADMIN', 'id')
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        // Check if campaign exists
-        const existingCampaign = await prisma.campaign.findFirst({
-          where: { id: input.id },
-        });
-
-        if (!existingCampaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
-          });
-        }
+        const existingCampaign = ctx.campaign;
 
         // Toggle the status
         const newStatus =
@@ -1719,10 +2182,11 @@ export const campaignsRouter = router({
                 email: true,
               },
             },
+            campaignKeywords: activeKeywordsArgs,
           },
         });
 
-        return campaign;
+        return withKeywordList(campaign);
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -1737,42 +2201,44 @@ export const campaignsRouter = router({
   // Get analytics data for a campaign
   // This endpoint fetches both keyword data and top-ranking page data together
   // The top-ranking page is determined by the page with the highest impressions for each keyword
-  getCampaignAnalytics: protectedProcedure
+  getCampaignAnalytics: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
         selectedMonth: z.string().optional(), // Add selected month parameter
+        segment: segmentFilterSchema.optional(), // Search type, device and country
+        groupId: z.string().optional(), // Only the keywords of this keyword group
       })
     )
     .query(async ({ input, ctx }) => {
       // Modified to fetch both keyword data and top-ranking page data together
       try {
-        // Get the campaign
-        const campaign = await prisma.campaign.findFirst({
-          where: { id: input.campaignId },
-        });
+        // Access is resolved by campaignProcedure (owner, member or admin)
+        const campaign = ctx.campaign;
 
-        if (!campaign) {
+        const segment = resolveSegment(campaign, input.segment);
+        if (segment && !segmentSupportsKeywords(segment)) {
           throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
+            code: 'BAD_REQUEST',
+            message: `Search type ${segment.searchType} has no keyword data`,
           });
         }
 
-        // Check if user has access to this campaign
-        // Admins can access any campaign, regular users can only access their own
-        if (ctx.user.role !== 'ADMIN' && campaign.userId !== ctx.user.id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to access this campaign',
-          });
-        }
+        // The campaign's keywords with their target pages
+        const groupKeywords = await resolveGroupKeywords(campaign.id, input.groupId);
+        const campaignKeywords = (await campaignKeywordService.getKeywords(campaign.id)).filter(
+          ({ keyword }) => !groupKeywords || groupKeywords.includes(keyword)
+        );
+        const targetUrls = new Map(
+          campaignKeywords.map(({ keyword, targetUrl }) => [keyword, targetUrl])
+        );
 
         // Get analytics data with daily stats
         const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
           where: { siteUrl: campaign.searchConsoleSite },
           include: {
             keywords: {
+              where: { keyword: { in: [...targetUrls.keys()] } },
               include: {
                 dailyStats: {
                   orderBy: { date: 'asc' },
@@ -1789,26 +2255,51 @@ export const campaignsRouter = router({
           };
         }
 
+        // A segment's daily stats replace the default ones, and its monthly
+        // values are computed from them below
+        const segmentStatsByKeyword = new Map<string, SearchConsoleKeywordSegmentDailyStat[]>();
+        if (segment) {
+          const segmentStats =
+            await prisma.searchConsoleKeywordSegmentDailyStat.findMany({
+              where: {
+                keywordId: { in: analytics.keywords.map((keyword) => keyword.id) },
+                ...segmentColumns(segment),
+              },
+              orderBy: { date: 'asc' },
+            });
+          segmentStats.forEach((stat) => {
+            const stats = segmentStatsByKeyword.get(stat.keywordId) || [];
+            stats.push(stat);
+            segmentStatsByKeyword.set(stat.keywordId, stats);
+          });
+        }
+        const analyticsKeywords = segment
+          ? analytics.keywords.map((keyword) => ({
+            ...keyword,
+            dailyStats: segmentStatsByKeyword.get(keyword.id) || [],
+          }))
+          : analytics.keywords;
+
         // Process the data for the frontend using daily records
         const keywords = await Promise.all(
-          analytics.keywords.map(async (keyword) => {
+          analyticsKeywords.map(async (keyword) => {
             try {
               const monthlyData: Record<string, number | null> = {};
               // Per-month aggregates for full-month search volume and top page (by impressions)
               const monthlySearchVolumeByMonthKey: Record<string, number> = {};
               const monthlyTopPageByMonthKey: Record<string, string> = {};
-              const currentMonth = new Date().getMonth() + 1;
-              const currentYear = new Date().getFullYear();
+              const currentMonth = new Date().getUTCMonth() + 1;
+              const currentYear = new Date().getUTCFullYear();
 
               // Initialize all months with null (excluding current month due to 3-day delay)
               for (
-                let year = new Date(campaign.startingDate).getFullYear();
+                let year = new Date(campaign.startingDate).getUTCFullYear();
                 year <= currentYear;
                 year++
               ) {
                 const startMonth =
-                  year === new Date(campaign.startingDate).getFullYear()
-                    ? new Date(campaign.startingDate).getMonth() + 1
+                  year === new Date(campaign.startingDate).getUTCFullYear()
+                    ? new Date(campaign.startingDate).getUTCMonth() + 1
                     : 1;
                 // Include current month (we'll handle the 3-day delay in the calculation)
                 const endMonth = year === currentYear ? currentMonth : 12;
@@ -1832,12 +2323,13 @@ export const campaignsRouter = router({
               if (keyword.dailyStats && Array.isArray(keyword.dailyStats)) {
                 const dailyStatsByMonth: Record<string, any[]> = {};
 
-                // Group daily stats by month
+                // Group daily stats by UTC month, as they are stored at
+                // UTC midnight
                 keyword.dailyStats.forEach((stat) => {
                   if (stat && stat.date) {
                     const date = new Date(stat.date);
-                    const monthKey = `${date.getMonth() + 1
-                      }/${date.getFullYear()}`;
+                    const monthKey = `${date.getUTCMonth() + 1
+                      }/${date.getUTCFullYear()}`;
 
                     if (!dailyStatsByMonth[monthKey]) {
                       dailyStatsByMonth[monthKey] = [];
@@ -1852,8 +2344,13 @@ export const campaignsRouter = router({
 
                   try {
                     // Check if we have monthly stat data for this month
-                    const computedData =
-                      await prisma.searchConsoleKeywordMonthlyStat.findUnique(
+                    const computedData = segment
+                      ? summarizeSegmentKeywordMonth(
+                        dailyStatsByMonth[monthKey],
+                        month,
+                        year
+                      )
+                      : await prisma.searchConsoleKeywordMonthlyStat.findUnique(
                         {
                           where: {
                             keywordId_month_year: {
@@ -1935,14 +2432,14 @@ export const campaignsRouter = router({
                       if (!stat || !stat.date) return false;
                       const d = new Date(stat.date);
                       return (
-                        d.getMonth() + 1 === selectedMonthNum &&
-                        d.getFullYear() === parseInt(selectedYear)
+                        d.getUTCMonth() + 1 === selectedMonthNum &&
+                        d.getUTCFullYear() === parseInt(selectedYear)
                       );
                     }
                   );
 
                   const monthSearchVolume = selectedMonthStats.reduce(
-                    (sum, s) => sum + (s.searchVolume || 0),
+                    (sum, s) => sum + (s.impressions || 0),
                     0
                   );
                   // Position already computed from raw GSC
@@ -2008,12 +2505,13 @@ export const campaignsRouter = router({
                             if (!s || !s.date) return false;
                             const d = new Date(s.date);
                             return (
-                              d.getMonth() + 1 === m && d.getFullYear() === y
+                              d.getUTCMonth() + 1 === m &&
+                              d.getUTCFullYear() === y
                             );
                           }
                         );
                         return stats.reduce(
-                          (sum, s) => sum + (s.searchVolume || 0),
+                          (sum, s) => sum + (s.impressions || 0),
                           0
                         );
                       } catch {
@@ -2110,6 +2608,10 @@ export const campaignsRouter = router({
 
               // Calculate search volume for the whole month (or all available days for current month)
               let searchVolume = 0;
+              let captured: { clicks: number | null; ctr: number | null } = {
+                clicks: null,
+                ctr: null,
+              };
               try {
                 if (input.selectedMonth) {
                   const selectedMonthParts = input.selectedMonth.split(' ');
@@ -2135,14 +2637,15 @@ export const campaignsRouter = router({
                     if (!s || !s.date) return false;
                     const d = new Date(s.date);
                     return (
-                      d.getMonth() + 1 === selectedMonthNum &&
-                      d.getFullYear() === parseInt(selectedYear)
+                      d.getUTCMonth() + 1 === selectedMonthNum &&
+                      d.getUTCFullYear() === parseInt(selectedYear)
                     );
                   });
                   searchVolume = stats.reduce(
-                    (sum, s) => sum + (s.searchVolume || 0),
+                    (sum, s) => sum + (s.impressions || 0),
                     0
                   );
+                  captured = sumCapturedClicks(stats);
                 } else {
                   const availableMonthKeys = Object.keys(monthlyData)
                     .filter((k) => monthlyData[k] !== null)
@@ -2157,15 +2660,19 @@ export const campaignsRouter = router({
                   const stats = (keyword.dailyStats || []).filter((s) => {
                     if (!s || !s.date) return false;
                     const d = new Date(s.date);
-                    return d.getMonth() + 1 === m && d.getFullYear() === y;
+                    return (
+                      d.getUTCMonth() + 1 === m && d.getUTCFullYear() === y
+                    );
                   });
                   searchVolume = stats.reduce(
-                    (sum, s) => sum + (s.searchVolume || 0),
+                    (sum, s) => sum + (s.impressions || 0),
                     0
                   );
+                  captured = sumCapturedClicks(stats);
                 }
               } catch {
                 searchVolume = 0;
+                captured = { clicks: null, ctr: null };
               }
 
               // Ensure we always return the top-ranking page data along with keyword data
@@ -2212,7 +2719,11 @@ export const campaignsRouter = router({
                 monthlyChange,
                 overallChange,
                 position: currentStat?.averageRank || 0,
+                // searchVolume is the same as impressions; kept for existing clients
                 searchVolume: searchVolume,
+                impressions: searchVolume,
+                clicks: captured.clicks,
+                ctr: captured.ctr,
                 // Process and return the top-ranking page URL for this keyword
                 topPageLink: (() => {
                   try {
@@ -2234,6 +2745,7 @@ export const campaignsRouter = router({
                 })(),
                 // Add the comparison result for frontend use
                 isTopPageChanged: isTopPageChanged,
+                targetUrl: targetUrls.get(normalizeKeyword(keyword.keyword)) ?? null,
               };
             } catch (error) {
               console.error(
@@ -2253,9 +2765,13 @@ export const campaignsRouter = router({
                 overallChange: 0,
                 position: 0,
                 searchVolume: 0,
+                impressions: 0,
+                clicks: null,
+                ctr: null,
                 topPageLink: '', // Empty string for top page link in error cases
                 previousTopPageLink: '', // Maintain shape: empty previous link in error cases
                 isTopPageChanged: false, // Default to false in error cases
+                targetUrl: targetUrls.get(normalizeKeyword(keyword.keyword)) ?? null,
               };
             }
           })
@@ -2309,7 +2825,7 @@ export const campaignsRouter = router({
     }),
 
   // Toggle a favorite keyword for the current user
-  toggleFavoriteKeyword: protectedProcedure
+  toggleFavoriteKeyword: campaignProcedure()
     .input(
       z.object({
         keywordId: z.string().min(1, 'Keyword ID is required'),
@@ -2331,28 +2847,14 @@ export const campaignsRouter = router({
           });
         }
 
-        // Verify campaign exists and belongs to the current user
-        const campaign = await prisma.campaign.findFirst({
-          where: { id: input.campaignId },
-        });
-
-        if (!campaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found for keyword',
-          });
-        }
-
-        // Allow campaign owner OR ADMIN to favorite
-        if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'No access to this keyword',
-          });
-        }
+        const campaign = ctx.campaign;
 
         // Ensure this keyword belongs to this campaign/site
-        if (campaign.searchConsoleSite !== keyword.analytics.siteUrl) {
+        const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
+        if (
+          campaign.searchConsoleSite !== keyword.analytics.siteUrl ||
+          !campaignKeywords.includes(normalizeKeyword(keyword.keyword))
+        ) {
           throw new TRPCError({
             code: 'FORBIDDEN',
             message: 'Keyword does not belong to this campaign',
@@ -2417,7 +2919,7 @@ export const campaignsRouter = router({
     }),
 
   // Get user's favorite keywords for a campaign, with same data shape as analytics keywords
-  getUserFavoriteKeywords: protectedProcedure
+  getUserFavoriteKeywords: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
@@ -2426,27 +2928,15 @@ export const campaignsRouter = router({
     )
     .query(async ({ input, ctx }) => {
       try {
-        const campaign = await prisma.campaign.findFirst({
-          where: { id: input.campaignId },
-        });
-        if (!campaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
-          });
-        }
-        if (ctx.user.role !== 'ADMIN' && campaign.userId !== ctx.user.id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have permission to access this campaign',
-          });
-        }
+        const campaign = ctx.campaign;
 
         // Get analytics for this campaign/site
+        const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
         const analytics = await prisma.searchConsoleKeywordAnalytics.findFirst({
           where: { siteUrl: campaign.searchConsoleSite },
           include: {
             keywords: {
+              where: { keyword: { in: campaignKeywords } },
               include: { dailyStats: { orderBy: { date: 'asc' } } },
             },
           },
@@ -2567,7 +3057,7 @@ export const campaignsRouter = router({
                   Object.keys(dailyStatsByMonth).forEach((monthKey) => {
                     const stats = dailyStatsByMonth[monthKey];
                     const monthTotalSearchVolume = stats.reduce(
-                      (sum: number, s: any) => sum + (s.searchVolume || 0),
+                      (sum: number, s: any) => sum + (s.impressions || 0),
                       0
                     );
                     monthlySearchVolumeByMonthKey[monthKey] =
@@ -2577,7 +3067,7 @@ export const campaignsRouter = router({
                       const url = s.topRankingPageUrl || '';
                       if (!url) return;
                       pageToImpressions[url] =
-                        (pageToImpressions[url] || 0) + (s.searchVolume || 0);
+                        (pageToImpressions[url] || 0) + (s.impressions || 0);
                     });
                     let topPageUrl = '';
                     let topPageImpressions = -1;
@@ -2629,7 +3119,7 @@ export const campaignsRouter = router({
                       );
                     });
                     const monthSearchVolume = selectedMonthStats.reduce(
-                      (sum, s) => sum + (s.searchVolume || 0),
+                      (sum, s) => sum + (s.impressions || 0),
                       0
                     );
                     const pageToImpressions: Record<string, number> = {};
@@ -2637,7 +3127,7 @@ export const campaignsRouter = router({
                       const url = s.topRankingPageUrl || '';
                       if (!url) return;
                       pageToImpressions[url] =
-                        (pageToImpressions[url] || 0) + (s.searchVolume || 0);
+                        (pageToImpressions[url] || 0) + (s.impressions || 0);
                     });
                     let monthTopPageUrl = '';
                     let topImpr = -1;
@@ -2693,7 +3183,7 @@ export const campaignsRouter = router({
                             }
                           );
                           return stats.reduce(
-                            (sum, s) => sum + (s.searchVolume || 0),
+                            (sum, s) => sum + (s.impressions || 0),
                             0
                           );
                         } catch {
@@ -2731,7 +3221,7 @@ export const campaignsRouter = router({
                             if (!url) return;
                             pageToImpressions[url] =
                               (pageToImpressions[url] || 0) +
-                              (s.searchVolume || 0);
+                              (s.impressions || 0);
                           });
                           let best = '';
                           let bestImpr = -1;
@@ -2834,7 +3324,7 @@ export const campaignsRouter = router({
                       );
                     });
                     searchVolume = stats.reduce(
-                      (sum, s) => sum + (s.searchVolume || 0),
+                      (sum, s) => sum + (s.impressions || 0),
                       0
                     );
                   } else {
@@ -2854,7 +3344,7 @@ export const campaignsRouter = router({
                       return d.getMonth() + 1 === m && d.getFullYear() === y;
                     });
                     searchVolume = stats.reduce(
-                      (sum, s) => sum + (s.searchVolume || 0),
+                      (sum, s) => sum + (s.impressions || 0),
                       0
                     );
                   }
@@ -2965,11 +3455,12 @@ export const campaignsRouter = router({
     }),
 
   // Get traffic data for a campaign
-  getCampaignTrafficData: protectedProcedure
+  getCampaignTrafficData: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string().min(1, 'Campaign ID is required'),
         month: z.string().optional(),
+        segment: segmentFilterSchema.optional(), // Search type, device and country
       })
     )
     .query(async ({ input, ctx }) => {
@@ -2979,9 +3470,7 @@ export const campaignsRouter = router({
           include: { googleAccount: true },
         });
         if (!campaign) throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') {
-          throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
-        }
+        const segment = resolveSegment(campaign, input.segment);
 
         const parseMonth = (m?: string) => {
           if (!m) { const d = new Date(); return { m0: d.getMonth(), y: d.getFullYear() }; }
@@ -3002,6 +3491,11 @@ export const campaignsRouter = router({
           trafficAnalytics = await prisma.searchConsoleTrafficAnalytics.findFirst({ where: { siteUrl: campaign.searchConsoleSite } });
         }
 
+        // Segments are read from stored rows only; the cron job fills them
+        if (segment) {
+          return await getSegmentTrafficData(trafficAnalytics!.id, segment, targetYear, targetMonth0);
+        }
+
         // If daily rows for selected month are missing, fetch-and-save
         const dailyCount = await prisma.searchConsoleTrafficDaily.count({
           where: {
@@ -3174,18 +3668,18 @@ export const campaignsRouter = router({
         return { monthly, daily, percentageChange };
       } catch (error) {
         console.error('Error in getCampaignTrafficData:', error);
+        if (error instanceof TRPCError) throw error;
         throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch campaign traffic data' });
       }
     }),
 
   // Organic Traffic (This Month) histogram with selected month support
-  getCurrentMonthTrafficData: protectedProcedure
+  getCurrentMonthTrafficData: campaignProcedure()
     .input(z.object({ campaignId: z.string().min(1, 'Campaign ID is required'), month: z.string().min(1) }))
     .query(async ({ input, ctx }) => {
       try {
         const campaign = await prisma.campaign.findFirst({ where: { id: input.campaignId }, include: { googleAccount: true } });
         if (!campaign) throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
         const abbr = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'];
         const full = ['January','February','March','April','May','June','July','August','September','October','November','December'];
         const [ms, ys] = input.month.split(' ');
@@ -3239,15 +3733,49 @@ export const campaignsRouter = router({
       }
     }),
 
+  // Sitemaps of the campaign's property from the latest daily snapshot, with
+  // the change since the snapshot before and 30 days of totals
+  getCampaignSitemaps: campaignProcedure()
+    .input(z.object({ campaignId: z.string().min(1, 'Campaign ID is required') }))
+    .query(async ({ input }) => {
+      try {
+        const campaign = await prisma.campaign.findFirst({ where: { id: input.campaignId } });
+        if (!campaign) throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+        return await sitemapMonitorService.getCampaignSitemaps(campaign);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error in getCampaignSitemaps:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch campaign sitemaps' });
+      }
+    }),
+
+  // Snapshot the campaign's property now and alert admins about new sitemap
+  // errors, then return the sitemaps like getCampaignSitemaps
+  refreshCampaignSitemaps: campaignProcedure('ADMIN')
+    .input(z.object({ campaignId: z.string().min(1, 'Campaign ID is required') }))
+    .mutation(async ({ input }) => {
+      try {
+        const campaign = await prisma.campaign.findFirst({ where: { id: input.campaignId }, include: { googleAccount: true } });
+        if (!campaign) throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+        if (!campaign.googleAccount) throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Campaign has no Google account' });
+        await sitemapMonitorService.refreshCampaignProperty({ ...campaign, googleAccount: campaign.googleAccount });
+        return await sitemapMonitorService.getCampaignSitemaps(campaign);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error in refreshCampaignSitemaps:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to refresh campaign sitemaps' });
+      }
+    }),
+
   // Top keywords for selected month with DB-first → GSC fallback → store
-  getTopKeywordsThisMonth: protectedProcedure
-    .input(z.object({ campaignId: z.string().min(1), limit: z.number().min(1).max(500).default(100), month: z.string().optional() }))
+  getTopKeywordsThisMonth: campaignProcedure()
+    .input(z.object({ campaignId: z.string().min(1), limit: z.number().min(1).max(500).default(100), month: z.string().optional(), groupId: z.string().optional() }))
     .query(async ({ input, ctx }) => {
       try {
         const { campaignId, limit, month } = input;
+        const groupKeywords = await resolveGroupKeywords(campaignId, input.groupId);
         const campaign = await prisma.campaign.findFirst({ where: { id: campaignId }, include: { googleAccount: true } });
         if (!campaign) throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
         const parseMonth = (m?: string) => { if (!m) { const d = new Date(); return { m1: d.getMonth() + 1, y: d.getFullYear() }; } const ab = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec']; const fu = ['January','February','March','April','May','June','July','August','September','October','November','December']; const [ms, ys] = m.split(' '); let idx = ab.indexOf(ms); if (idx === -1) idx = fu.indexOf(ms); const yn = parseInt(ys,10); const y = ys.length===2?2000+yn:yn; return { m1: (idx<0?new Date().getMonth():idx)+1, y: Number.isNaN(y)?new Date().getFullYear():y }; };
         const { m1: targetMonth, y: targetYear } = parseMonth(month);
 
@@ -3275,6 +3803,10 @@ export const campaignsRouter = router({
           }
           rows = await prisma.topKeywordData.findMany({ where: { campaignId, month: targetMonth, year: targetYear }, orderBy: { clicks: 'desc' }, take: limit });
         }
+        // Limited to a keyword group after the fetch above, which stores the whole month
+        if (groupKeywords) {
+          rows = await prisma.topKeywordData.findMany({ where: { campaignId, month: targetMonth, year: targetYear, keyword: { in: groupKeywords } }, orderBy: { clicks: 'desc' }, take: limit });
+        }
         // Merge in tracked keywords from monthly computed stats to include newly added keywords
         const existingSet = new Set(rows.map((r: any) => r.keyword));
 
@@ -3292,9 +3824,10 @@ export const campaignsRouter = router({
           let prevYear = targetYear;
           if (prevMonth === 0) { prevMonth = 12; prevYear--; }
 
+          const campaignKeywords = groupKeywords || await campaignKeywordService.getActiveKeywords(campaign.id);
           const computedCurrent = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
             where: {
-              keyword: { analyticsId: analytics.id },
+              keyword: { analyticsId: analytics.id, keyword: { in: campaignKeywords } },
               month: targetMonth,
               year: targetYear,
             },
@@ -3348,13 +3881,14 @@ export const campaignsRouter = router({
 
         return { keywords: merged };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error in getTopKeywordsThisMonth:', error);
         throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch top keywords for this month' });
       }
     }),
 
 // Get keyword movement stats for a campaign
-getKeywordMovementStats: protectedProcedure
+getKeywordMovementStats: campaignProcedure()
   .input(
     z.object({
       campaignId: z.string(),
@@ -3386,14 +3920,6 @@ getKeywordMovementStats: protectedProcedure
         });
       }
 
-      // Check if user has access to this campaign
-      if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You do not have access to this campaign',
-        });
-      }
-
       // Determine target month/year
       const parseMonth = (m?: string) => {
         if (!m) {
@@ -3425,11 +3951,14 @@ getKeywordMovementStats: protectedProcedure
         return { improved: 0, declined: 0, unchanged: 0 };
       }
 
+      const campaignKeywords = await campaignKeywordService.getActiveKeywords(campaign.id);
+
       // Get current month keyword data
       const currentMonthData = await prisma.searchConsoleKeywordMonthlyComputed.findMany({
         where: {
           keyword: {
-            analyticsId: analytics.id
+            analyticsId: analytics.id,
+            keyword: { in: campaignKeywords },
           },
           month: currentMonth,
           year: currentYear,
@@ -3485,36 +4014,15 @@ getKeywordMovementStats: protectedProcedure
   }),
 
   // Check if milestone is achieved for a campaign
-  checkMilestoneAchievement: protectedProcedure
+  checkMilestoneAchievement: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
       })
     )
-    .query(async ({ input, ctx }) => {
+    .query(async ({ ctx }) => {
       try {
-        const { campaignId } = input;
-
-        // Verify campaign access
-        const campaign = await prisma.campaign.findUnique({
-          where: { id: campaignId },
-          include: { user: true },
-        });
-
-        if (!campaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
-          });
-        }
-
-        // Check if user has access to this campaign
-        if (ctx.user.role !== 'ADMIN' && campaign.userId !== ctx.user.id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have access to this campaign',
-          });
-        }
+        const campaign = ctx.campaign;
 
         // Get admin notification preferences to check click threshold
         const adminPrefs = await prisma.adminNotificationPreferences.findFirst();
@@ -3568,7 +4076,7 @@ getKeywordMovementStats: protectedProcedure
     }),
 
   // Get best-performing month (by clicks) and compare vs same month last year
-  getBestPerformingMonth: protectedProcedure
+  getBestPerformingMonth: campaignProcedure()
     .input(z.object({ campaignId: z.string().min(1) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -3581,12 +4089,6 @@ getKeywordMovementStats: protectedProcedure
         }
         
         console.log('Found campaign:', campaign.name, 'for user:', campaign.userId);
-        
-        // Check if user has access to this campaign
-        if (ctx.user.role !== 'ADMIN' && campaign.userId !== ctx.user.id) {
-          console.log('User does not have access to campaign. User role:', ctx.user.role, 'User ID:', ctx.user.id, 'Campaign user ID:', campaign.userId);
-          throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
-        }
 
         const analytics = await prisma.searchConsoleTrafficAnalytics.findFirst({ where: { siteUrl: campaign.searchConsoleSite } });
         if (!analytics) {
@@ -3669,7 +4171,7 @@ getKeywordMovementStats: protectedProcedure
     }),
 
   // Get top 4 best performing months with their total clicks and percentage contributions
-  getTop4BestPerformingMonths: protectedProcedure
+  getTop4BestPerformingMonths: campaignProcedure()
     .input(z.object({ campaignId: z.string().min(1) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -3680,12 +4182,6 @@ getKeywordMovementStats: protectedProcedure
           console.log('Campaign not found for ID:', input.campaignId);
           throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
         }
-        
-        // Check if user has access to this campaign
-        if (ctx.user.role !== 'ADMIN' && campaign.userId !== ctx.user.id) {
-          console.log('User does not have access to campaign. User role:', ctx.user.role, 'User ID:', ctx.user.id, 'Campaign user ID:', campaign.userId);
-          throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
-        }
 
         const analytics = await prisma.searchConsoleTrafficAnalytics.findFirst({ where: { siteUrl: campaign.searchConsoleSite } });
         if (!analytics) {
@@ -3731,17 +4227,11 @@ getKeywordMovementStats: protectedProcedure
     }),
 
   // Get total organic visits from Jan 1 of last year to today
-  getTotalOrganicVisits: protectedProcedure
+  getTotalOrganicVisits: campaignProcedure()
     .input(z.object({ campaignId: z.string().min(1) }))
-    .query(async ({ input, ctx }) => {
+    .query(async ({ ctx }) => {
       try {
-        const campaign = await prisma.campaign.findFirst({ where: { id: input.campaignId } });
-        if (!campaign) {
-          throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
-        }
-        if (campaign.userId !== ctx.user.id && ctx.user.role !== 'ADMIN') {
-          throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this campaign' });
-        }
+        const campaign = ctx.campaign;
 
         const analytics = await prisma.searchConsoleTrafficAnalytics.findFirst({ where: { siteUrl: campaign.searchConsoleSite } });
         if (!analytics) {
@@ -3765,4 +4255,225 @@ getKeywordMovementStats: protectedProcedure
         throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to fetch total organic visits' });
       }
     }),
+
+  // Email a signed invitation to join the campaign with the given role.
+  // Sending again to the same address replaces the earlier pending invite.
+  inviteMember: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string().min(1),
+        email: z.string().email(),
+        role: z.enum(['ADMIN', 'VIEWER']).default('VIEWER'),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const email = input.email.trim().toLowerCase();
+      const campaign = ctx.campaign;
+
+      const invitee = await prisma.user.findUnique({
+        where: { email },
+        include: {
+          settings: { select: { systemLanguage: true } },
+          campaignUsers: { where: { campaignId: campaign.id, isActive: true } },
+        },
+      });
+
+      if (invitee && invitee.id === campaign.userId) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'This user owns the campaign' });
+      }
+      if (invitee?.campaignUsers.some((member) => member.role === input.role)) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'This user is already a member of the campaign' });
+      }
+
+      await prisma.campaignInvite.updateMany({
+        where: { campaignId: campaign.id, email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      const invite = await prisma.campaignInvite.create({
+        data: {
+          campaignId: campaign.id,
+          email,
+          role: input.role,
+          invitedById: ctx.user.id,
+          expiresAt: campaignInviteExpiry(),
+        },
+      });
+
+      const inviter = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+        select: { firstName: true, name: true, settings: { select: { systemLanguage: true } } },
+      });
+
+      try {
+        await sendCampaignInviteEmail(
+          email,
+          inviter?.firstName || inviter?.name || ctx.user.email,
+          campaign.name,
+          invite.role,
+          signCampaignInviteToken(invite.id, invite.expiresAt),
+          Math.round((invite.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
+          invitee?.settings?.systemLanguage || inviter?.settings?.systemLanguage || 'en'
+        );
+      } catch (error) {
+        // Without the email nobody can use the invite, so don't leave it pending
+        await prisma.campaignInvite.update({
+          where: { id: invite.id },
+          data: { revokedAt: new Date() },
+        });
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to send the invitation email' });
+      }
+
+      return {
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+        status: getInviteStatus(invite),
+      };
+    }),
+
+  // List the campaign's invitations, newest first
+  getCampaignInvites: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string().min(1),
+        includeClosed: z.boolean().default(false),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const invites = await prisma.campaignInvite.findMany({
+        where: {
+          campaignId: ctx.campaign.id,
+          ...(input.includeClosed
+            ? {}
+            : { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } }),
+        },
+        include: {
+          invitedBy: { select: { id: true, email: true, name: true } },
+          acceptedBy: { select: { id: true, email: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return invites.map((invite) => ({
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        status: getInviteStatus(invite),
+        expiresAt: invite.expiresAt,
+        createdAt: invite.createdAt,
+        acceptedAt: invite.acceptedAt,
+        revokedAt: invite.revokedAt,
+        invitedBy: invite.invitedBy,
+        acceptedBy: invite.acceptedBy,
+      }));
+    }),
+
+  revokeInvite: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string().min(1),
+        inviteId: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const result = await prisma.campaignInvite.updateMany({
+        where: {
+          id: input.inviteId,
+          campaignId: ctx.campaign.id,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      if (result.count === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Pending invitation not found' });
+      }
+
+      return { success: true };
+    }),
+
+  // Details shown on the accept-invite page before the user commits
+  getInvite: publicProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input }) => {
+      const inviteId = verifyCampaignInviteToken(input.token);
+      const invite = assertPendingInvite(
+        inviteId
+          ? await prisma.campaignInvite.findUnique({
+              where: { id: inviteId },
+              include: { campaign: { select: { id: true, name: true } } },
+            })
+          : null
+      );
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: invite.email },
+        select: { id: true },
+      });
+
+      return {
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+        campaign: invite.campaign,
+        accountExists: !!existingUser,
+      };
+    }),
+
+  // Accept an invitation. An existing account with the invited email is added
+  // to the campaign; otherwise an account is created from the given password
+  // and signed in.
+  acceptInvite: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        password: z.string().min(6).optional(),
+        name: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const inviteId = verifyCampaignInviteToken(input.token);
+      const invite = assertPendingInvite(
+        inviteId
+          ? await prisma.campaignInvite.findUnique({ where: { id: inviteId } })
+          : null
+      );
+
+      const accepted = await acceptInvite({
+        invite,
+        password: input.password,
+        name: input.name,
+        client: ctx.client,
+        claim: (tx) =>
+          tx.campaignInvite.updateMany({
+            where: { id: invite.id, acceptedAt: null, revokedAt: null },
+            data: { acceptedAt: new Date() },
+          }),
+        join: async (tx, member) => {
+          await tx.campaignInvite.update({
+            where: { id: invite.id },
+            data: { acceptedById: member.id },
+          });
+
+          // Accepting never lowers the role of an active member
+          const membership = await tx.campaignUser.findUnique({
+            where: { campaignId_userId: { campaignId: invite.campaignId, userId: member.id } },
+            select: { role: true, isActive: true },
+          });
+          const role =
+            membership?.isActive && membership.role === 'ADMIN' ? 'ADMIN' : invite.role;
+
+          await tx.campaignUser.upsert({
+            where: { campaignId_userId: { campaignId: invite.campaignId, userId: member.id } },
+            create: { campaignId: invite.campaignId, userId: member.id, role },
+            update: { role, isActive: true },
+          });
+        },
+      });
+
+      return { campaignId: invite.campaignId, ...accepted };
+    }),
 });
\ No newline at end of file
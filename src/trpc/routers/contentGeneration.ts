@@ -1,4 +1,9 @@
-import { router, adminProcedure } from '../trpc-context';
+import { router, workspaceProcedure } from '../trpc-context';
+import {
+  assertBrandProfileInWorkspace,
+  assertContentPlanInWorkspace,
+  assertGeneratedContentInWorkspace,
+} from '../../utils/workspaceResources';
 import { contentGenerationService } from '../../services/contentGenerationService';
 import { contentReviewService, ReviewResult } from '../../services/contentReviewService';
 import { z } from 'zod';
@@ -10,14 +15,16 @@ export const contentGenerationRouter = router({
    * Generate article content using Gemini API
    * POST /content/generate
    */
-  generate: adminProcedure
+  generate: workspaceProcedure('ADMIN')
     .input(z.object({
       contentPlanId: z.string().min(1, 'Content plan ID is required'),
       brandProfileId: z.string().min(1, 'Brand profile ID is required'),
       style: z.enum(['מאמר', 'יח״צ', 'בקלינק']),
       language: z.string().optional().default('he') // Add language parameter
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertContentPlanInWorkspace(ctx.workspace?.id, input.contentPlanId);
+      await assertBrandProfileInWorkspace(ctx.workspace?.id, input.brandProfileId);
       try {
         const generatedContentId = await contentGenerationService.generateContent(
           input.contentPlanId,
@@ -41,11 +48,12 @@ export const contentGenerationRouter = router({
    * Retrieve generated content by ID
    * GET /content/:id
    */
-  getById: adminProcedure
+  getById: workspaceProcedure('ADMIN')
     .input(z.object({
       id: z.string().min(1, 'Generated content ID is required')
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      await assertGeneratedContentInWorkspace(ctx.workspace?.id, input.id);
       try {
         const content = await contentGenerationService.getGeneratedContentById(input.id);
         return {
@@ -65,7 +73,7 @@ export const contentGenerationRouter = router({
    * Update generated content
    * PUT /content/:id
    */
-  update: adminProcedure
+  update: workspaceProcedure('ADMIN')
     .input(z.object({
       id: z.string().min(1, 'Generated content ID is required'),
       updates: z.object({
@@ -81,7 +89,8 @@ export const contentGenerationRouter = router({
         finalized: z.boolean().optional()
       }).partial()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertGeneratedContentInWorkspace(ctx.workspace?.id, input.id);
       try {
         // Convert qnaSections to JSON string if provided
         const updatesToApply = { ...input.updates };
@@ -108,11 +117,12 @@ export const contentGenerationRouter = router({
    * Finalize generated content (mark as complete)
    * PUT /content/:id/finalize
    */
-  finalize: adminProcedure
+  finalize: workspaceProcedure('ADMIN')
     .input(z.object({
       id: z.string().min(1, 'Generated content ID is required')
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertGeneratedContentInWorkspace(ctx.workspace?.id, input.id);
       try {
         const finalizedContent = await contentGenerationService.finalizeContent(input.id);
         return {
@@ -129,11 +139,12 @@ export const contentGenerationRouter = router({
    * Review generated content for quality metrics
    * GET /content/:id/review
    */
-  review: adminProcedure
+  review: workspaceProcedure('ADMIN')
     .input(z.object({
       id: z.string().min(1, 'Generated content ID is required')
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      await assertGeneratedContentInWorkspace(ctx.workspace?.id, input.id);
       try {
         const reviewResult: ReviewResult = await contentReviewService.review(input.id);
         return {
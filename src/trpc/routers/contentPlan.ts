@@ -1,4 +1,9 @@
-import { router, publicProcedure } from '../trpc-context';
+import { router, workspaceProcedure } from '../trpc-context';
+import {
+  assertBrandProfileInWorkspace,
+  assertContentPlanInWorkspace,
+  assertKeywordAnalysisInWorkspace,
+} from '../../utils/workspaceResources';
 import { contentPlanService } from '../../services/contentPlanService';
 import { articleStructureService } from '../../services/articleStructureService';
 import { ArticleStructure } from '../../services/articleStructureService';
@@ -10,12 +15,16 @@ const contentPlanRouter = router({
    * Generate a content plan from keyword analysis
    * POST /content/plan
    */
-  generate: publicProcedure
+  generate: workspaceProcedure()
     .input(z.object({
       keywordAnalysisId: z.string().min(1, 'Keyword analysis ID is required'),
       brandProfileId: z.string().optional()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertKeywordAnalysisInWorkspace(ctx.workspace?.id, input.keywordAnalysisId);
+      if (input.brandProfileId) {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.brandProfileId);
+      }
       try {
         const contentPlanId = await contentPlanService.generateContentPlan(
           input.keywordAnalysisId,
@@ -37,12 +46,16 @@ const contentPlanRouter = router({
    * Generate article structure (goal, headline, and structured subheadings)
    * POST /content/plan/structure
    */
-  generateStructure: publicProcedure
+  generateStructure: workspaceProcedure()
     .input(z.object({
       keywordAnalysisId: z.string().min(1, 'Keyword analysis ID is required'),
       brandProfileId: z.string().optional()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertKeywordAnalysisInWorkspace(ctx.workspace?.id, input.keywordAnalysisId);
+      if (input.brandProfileId) {
+        await assertBrandProfileInWorkspace(ctx.workspace?.id, input.brandProfileId);
+      }
       try {
         const structure: ArticleStructure = await articleStructureService.generateArticleStructure(
           input.keywordAnalysisId,
@@ -64,11 +77,12 @@ const contentPlanRouter = router({
    * Retrieve a content plan by ID
    * GET /content/plan/:id
    */
-  getById: publicProcedure
+  getById: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'Content plan ID is required')
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      await assertContentPlanInWorkspace(ctx.workspace?.id, input.id);
       try {
         const contentPlan = await contentPlanService.getContentPlanById(input.id);
 
@@ -86,7 +100,7 @@ const contentPlanRouter = router({
    * Update (approve/edit) a content plan
    * PUT /content/plan/:id
    */
-  update: publicProcedure
+  update: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'Content plan ID is required'),
       updates: z.object({
@@ -99,7 +113,8 @@ const contentPlanRouter = router({
       }).optional(),
       adminApproved: z.boolean().optional()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertContentPlanInWorkspace(ctx.workspace?.id, input.id);
       try {
         const updates = input.updates || {};
         const adminApproved = input.adminApproved ?? false;
@@ -1,14 +1,76 @@
 import { z } from 'zod';
-import { router, adminProcedure } from '../trpc-context';
-import { PrismaClient } from '@prisma/client';
-import { google } from 'googleapis';
-import { searchConsoleService } from '../../services/searchConsole';
+import {
+  router,
+  protectedProcedure,
+  workspaceProcedure,
+  workspaceScope,
+  requireWorkspace,
+  resolveWorkspaceRole,
+} from '../trpc-context';
+import { PrismaClient, GoogleAccount } from '@prisma/client';
+import { google, Auth } from 'googleapis';
+import {
+  searchConsoleService,
+  authorizeServiceAccount,
+  decryptServiceAccountKey,
+  parseServiceAccountKey,
+} from '../../services/searchConsole';
+import { googleAccountHealthService } from '../../services/googleAccountHealth';
+import { searchConsoleScheduler } from '../../services/searchConsoleScheduler';
 import { TRPCError } from '@trpc/server';
+import {
+  createGoogleOAuthUrl,
+  createGoogleOAuthClient,
+  completeGoogleOAuth,
+  GoogleOAuthFlowError,
+} from '../../utils/googleOAuthState';
+import {
+  decryptSecret,
+  encryptSecret,
+  encryptGoogleTokens,
+} from '../../utils/tokenEncryption';
 
 const prisma = new PrismaClient();
 
+// Fields returned to clients. Tokens and keys are never selected, so they
+// can't reach a response whether or not they are encrypted yet.
+const googleAccountSelect = {
+  id: true,
+  email: true,
+  accountName: true,
+  credentialType: true,
+  isActive: true,
+  expiresAt: true,
+  lastSuccessAt: true,
+  lastErrorAt: true,
+  lastError: true,
+  errorClass: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Get new credentials for an account: OAuth accounts refresh their token,
+// service accounts mint one with their key
+const renewCredentials = async (
+  account: GoogleAccount
+): Promise<Auth.Credentials> => {
+  if (account.credentialType === 'SERVICE_ACCOUNT') {
+    return authorizeServiceAccount(decryptServiceAccountKey(account));
+  }
+  if (!account.refreshToken) {
+    throw new Error(`Google account ${account.email} has no refresh token`);
+  }
+
+  const oauth2Client = createGoogleOAuthClient();
+  oauth2Client.setCredentials({
+    refresh_token: decryptSecret(account.refreshToken),
+  });
+  const { credentials } = await oauth2Client.refreshAccessToken();
+  return credentials;
+};
+
 export const googleAccountsRouter = router({
-  getAccounts: adminProcedure
+  getAccounts: workspaceProcedure('ADMIN')
     .input(
       z.object({
         page: z.number().min(1).default(1),
@@ -16,13 +78,13 @@ export const googleAccountsRouter = router({
         search: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       try {
         const { page, limit, search } = input;
         const skip = (page - 1) * limit;
 
         // Build where clause for filtering
-        const where: any = {};
+        const where: any = { ...workspaceScope(ctx) };
 
         if (search) {
           where.OR = [
@@ -37,15 +99,7 @@ export const googleAccountsRouter = router({
         // Get paginated accounts
         const accounts = await prisma.googleAccount.findMany({
           where,
-          select: {
-            id: true,
-            email: true,
-            accountName: true,
-            isActive: true,
-            expiresAt: true,
-            createdAt: true,
-            updatedAt: true,
-          },
+          select: googleAccountSelect,
           skip,
           take: limit,
           orderBy: { createdAt: 'desc' },
@@ -71,7 +125,7 @@ export const googleAccountsRouter = router({
       }
     }),
 
-  updateAccount: adminProcedure
+  updateAccount: workspaceProcedure('ADMIN')
     .input(
       z.object({
         id: z.string(),
@@ -79,38 +133,26 @@ export const googleAccountsRouter = router({
         isActive: z.boolean().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
         const { id, ...updateData } = input;
 
-        // If trying to activate account, check if refresh token is valid
-        if (updateData.isActive === true) {
-          const existingAccount = await prisma.googleAccount.findUnique({
-            where: { id },
-          });
+        const existingAccount = await prisma.googleAccount.findFirst({
+          where: { id, ...workspaceScope(ctx) },
+        });
 
-          if (!existingAccount) {
-            throw new TRPCError({
-              code: 'NOT_FOUND',
-              message: 'Account not found',
-            });
-          }
+        if (!existingAccount) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Account not found',
+          });
+        }
 
+        // If trying to activate account, check if refresh token is valid
+        if (updateData.isActive === true) {
           // Test if refresh token is valid by attempting to refresh
           try {
-            const oauth2Client = new google.auth.OAuth2(
-              process.env.GOOGLE_CLIENT_ID,
-              process.env.GOOGLE_CLIENT_SECRET,
-              process.env.GOOGLE_REDIRECT_URI ||
-                'http://localhost:3001/auth/google/callback'
-            );
-
-            oauth2Client.setCredentials({
-              refresh_token: existingAccount.refreshToken,
-            });
-
-            // Try to refresh the token to validate it
-            await oauth2Client.refreshAccessToken();
+            await renewCredentials(existingAccount);
           } catch (error: any) {
             // If refresh token is invalid, don't allow activation
             if (error?.response?.data?.error === 'invalid_grant') {
@@ -126,15 +168,7 @@ export const googleAccountsRouter = router({
         const account = await prisma.googleAccount.update({
           where: { id },
           data: updateData,
-          select: {
-            id: true,
-            email: true,
-            accountName: true,
-            isActive: true,
-            expiresAt: true,
-            createdAt: true,
-            updatedAt: true,
-          },
+          select: googleAccountSelect,
         });
 
         return account;
@@ -150,17 +184,35 @@ export const googleAccountsRouter = router({
       }
     }),
 
-  deleteAccount: adminProcedure
+  deleteAccount: workspaceProcedure('ADMIN')
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        await prisma.googleAccount.delete({
-          where: { id: input.id },
+        const existingAccount = await prisma.googleAccount.findFirst({
+          where: { id: input.id, ...workspaceScope(ctx) },
+        });
+
+        if (!existingAccount) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Account not found',
+          });
+        }
+
+        const account = await prisma.googleAccount.delete({
+          where: { id: existingAccount.id },
+        });
+
+        ctx.audit.recordChanges({
+          deleted: { email: account.email, accountName: account.accountName },
         });
 
         return { success: true };
       } catch (error) {
         console.error('Error deleting Google account:', error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to delete Google account',
@@ -168,83 +220,61 @@ export const googleAccountsRouter = router({
       }
     }),
 
-  refreshToken: adminProcedure
+  refreshToken: workspaceProcedure('ADMIN')
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       let account: any = null;
 
       try {
-        account = await prisma.googleAccount.findUnique({
-          where: { id: input.id },
+        account = await prisma.googleAccount.findFirst({
+          where: { id: input.id, ...workspaceScope(ctx) },
         });
 
         if (!account) {
           throw new Error('Account not found');
         }
 
-        // Create OAuth2 client
-        const oauth2Client = new google.auth.OAuth2(
-          process.env.GOOGLE_CLIENT_ID,
-          process.env.GOOGLE_CLIENT_SECRET,
-          process.env.GOOGLE_REDIRECT_URI ||
-            'http://localhost:3001/auth/google/callback'
-        );
-
-        // Set credentials with refresh token
-        oauth2Client.setCredentials({
-          refresh_token: account.refreshToken,
-        });
-
         // Refresh the token
-        const { credentials } = await oauth2Client.refreshAccessToken();
+        const credentials = await renewCredentials(account);
 
         // Update account with new tokens
         await prisma.googleAccount.update({
           where: { id: input.id },
           data: {
-            accessToken: credentials.access_token!,
-            refreshToken: credentials.refresh_token || account.refreshToken,
+            accessToken: encryptSecret(credentials.access_token!),
+            refreshToken: credentials.refresh_token
+              ? encryptSecret(credentials.refresh_token)
+              : account.refreshToken,
             expiresAt: new Date(credentials.expiry_date!),
             isActive: true,
           },
         });
+        await googleAccountHealthService.recordSuccess(account.id);
 
         return { success: true, message: 'Token refreshed successfully' };
       } catch (error: any) {
         console.error('Token refresh error:', error);
 
-        // Check if it's an invalid_grant error (refresh token is invalid)
-        if (error?.response?.data?.error === 'invalid_grant' && account) {
-          console.log(
-            `Refresh token invalid for account ${account.email}. Marking as needing re-authentication.`
-          );
+        const errorClass = account
+          ? await googleAccountHealthService.recordFailure(account, error)
+          : null;
 
-          // Mark account as needing re-authentication
-          await prisma.googleAccount.update({
-            where: { id: input.id },
-            data: {
-              isActive: false,
-            },
+        // Revoked refresh token: the account was deactivated and needs
+        // re-authentication
+        if (errorClass === 'REVOKED' && account.credentialType === 'SERVICE_ACCOUNT') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `The service account key for ${account.email} is no longer valid. Add the service account again with a new key.`,
           });
+        }
 
-          // Get OAuth URL for re-authentication
-          const oauth2Client = new google.auth.OAuth2(
-            process.env.GOOGLE_CLIENT_ID,
-            process.env.GOOGLE_CLIENT_SECRET,
-            process.env.GOOGLE_REDIRECT_URI ||
-              'http://localhost:3001/auth/google/callback'
+        if (errorClass === 'REVOKED') {
+          console.log(
+            `Refresh token invalid for account ${account.email}. Marked as needing re-authentication.`
           );
 
-          const authUrl = oauth2Client.generateAuthUrl({
-            access_type: 'offline',
-            scope: [
-              'https://www.googleapis.com/auth/webmasters',
-              'https://www.googleapis.com/auth/webmasters.readonly',
-              'https://www.googleapis.com/auth/userinfo.email',
-              'https://www.googleapis.com/auth/userinfo.profile',
-            ],
-            prompt: 'consent', // Force consent to get refresh token
-          });
+          // Get OAuth URL for re-authentication
+          const authUrl = await createGoogleOAuthUrl(account.workspaceId, ctx.user.id);
 
           throw new TRPCError({
             code: 'BAD_REQUEST',
@@ -256,44 +286,194 @@ export const googleAccountsRouter = router({
       }
     }),
 
-  getOAuthUrl: adminProcedure.query(async () => {
+  getOAuthUrl: workspaceProcedure('ADMIN').query(async ({ ctx }) => {
     try {
+      // The connected account is created in the selected workspace
+      const workspace = requireWorkspace(ctx);
+
       if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
         throw new Error(
           'Google OAuth not configured. Please set up GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET.'
         );
       }
 
-      const oauth2Client = new google.auth.OAuth2(
-        process.env.GOOGLE_CLIENT_ID,
-        process.env.GOOGLE_CLIENT_SECRET,
-        process.env.GOOGLE_REDIRECT_URI ||
-          'http://localhost:3001/auth/google/callback'
-      );
-
-      const SCOPES = [
-        'https://www.googleapis.com/auth/webmasters',
-        'https://www.googleapis.com/auth/webmasters.readonly',
-        'https://www.googleapis.com/auth/userinfo.email',
-        'https://www.googleapis.com/auth/userinfo.profile',
-      ];
-
-      const authUrl = oauth2Client.generateAuthUrl({
-        access_type: 'offline',
-        scope: SCOPES,
-        prompt: 'consent', // Force consent to get refresh token
-      });
+      const authUrl = await createGoogleOAuthUrl(workspace.id, ctx.user.id);
 
       return { authUrl };
     } catch (error) {
       console.error('Error generating OAuth URL:', error);
+      if (error instanceof TRPCError) {
+        throw error;
+      }
       throw new Error('Failed to generate OAuth URL');
     }
   }),
 
-  getSearchConsoleSites: adminProcedure.query(async () => {
+  // Finish a connect flow after Google redirected back with oauth_state.
+  // Only the admin who started the flow can complete it, and only once.
+  completeOAuth: protectedProcedure
+    .input(z.object({ state: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { tokens, workspaceId } = await completeGoogleOAuth(
+          input.state,
+          ctx.user.id
+        );
+
+        if ((await resolveWorkspaceRole(ctx.user, workspaceId)) !== 'ADMIN') {
+          throw new GoogleOAuthFlowError('wrong_user');
+        }
+        if (!tokens.access_token || !tokens.refresh_token) {
+          throw new GoogleOAuthFlowError('missing_refresh_token');
+        }
+
+        // Get user info from Google
+        const oauth2Client = createGoogleOAuthClient();
+        oauth2Client.setCredentials(tokens);
+        const oauth2 = google.oauth2({ version: 'v2', auth: oauth2Client });
+        const userInfo = await oauth2.userinfo.get();
+        const email = userInfo.data.email!;
+
+        const existingAccount = await prisma.googleAccount.findUnique({
+          where: { email },
+        });
+
+        if (existingAccount && existingAccount.workspaceId !== workspaceId) {
+          throw new GoogleOAuthFlowError('account_in_other_workspace');
+        }
+
+        const data = {
+          ...encryptGoogleTokens({
+            accessToken: tokens.access_token,
+            refreshToken: tokens.refresh_token,
+          }),
+          expiresAt: new Date(tokens.expiry_date!),
+          isActive: true,
+        };
+
+        const account = existingAccount
+          ? await prisma.googleAccount.update({
+              where: { id: existingAccount.id },
+              data,
+              select: { id: true },
+            })
+          : await prisma.googleAccount.create({
+              data: {
+                ...data,
+                email,
+                accountName: userInfo.data.name || email,
+                workspaceId,
+              },
+              select: { id: true },
+            });
+
+        // Reconnecting clears the failure state of the account and its campaigns
+        await googleAccountHealthService.recordSuccess(account.id);
+
+        return { success: true, id: account.id, email, workspaceId };
+      } catch (error) {
+        // The error code is the message, so the frontend can show it as is
+        if (error instanceof GoogleOAuthFlowError) {
+          throw new TRPCError({
+            code: error.code === 'wrong_user' ? 'FORBIDDEN' : 'BAD_REQUEST',
+            message: error.code,
+          });
+        }
+        console.error('Error completing Google OAuth:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'oauth_failed',
+        });
+      }
+    }),
+
+  // Connect a Google Cloud service account with its JSON key. The service
+  // account's email must be added as a user on each Search Console property.
+  // Adding an existing service account again replaces its key.
+  addServiceAccount: workspaceProcedure('ADMIN')
+    .input(
+      z.object({
+        key: z.string().min(1),
+        accountName: z.string().min(1).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
+
+      let key;
+      try {
+        key = parseServiceAccountKey(input.key);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Invalid service account key',
+        });
+      }
+      const email = key.client_email.toLowerCase();
+
+      const existingAccount = await prisma.googleAccount.findUnique({
+        where: { email },
+      });
+      if (existingAccount && existingAccount.workspaceId !== workspace.id) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'This Google account is connected to another workspace',
+        });
+      }
+      if (existingAccount && existingAccount.credentialType !== 'SERVICE_ACCOUNT') {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'This Google account is already connected with OAuth',
+        });
+      }
+
+      // Minting a token proves the key works before it is stored
+      let credentials;
+      try {
+        credentials = await authorizeServiceAccount(key);
+      } catch (error) {
+        console.error('Service account authorization failed:', error);
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Google rejected the service account key',
+        });
+      }
+
+      const data = {
+        accessToken: encryptSecret(credentials.access_token!),
+        serviceAccountKey: encryptSecret(input.key),
+        expiresAt: new Date(credentials.expiry_date!),
+        isActive: true,
+      };
+      const account = existingAccount
+        ? await prisma.googleAccount.update({
+            where: { id: existingAccount.id },
+            data: {
+              ...data,
+              ...(input.accountName ? { accountName: input.accountName } : {}),
+            },
+            select: googleAccountSelect,
+          })
+        : await prisma.googleAccount.create({
+            data: {
+              ...data,
+              email,
+              accountName: input.accountName || email,
+              credentialType: 'SERVICE_ACCOUNT',
+              workspaceId: workspace.id,
+            },
+            select: googleAccountSelect,
+          });
+
+      // A new key clears the failure state of the account and its campaigns
+      await googleAccountHealthService.recordSuccess(account.id);
+
+      return account;
+    }),
+
+  getSearchConsoleSites: workspaceProcedure('ADMIN').query(async ({ ctx }) => {
     try {
-      const sites = await searchConsoleService.getAllSites();
+      const sites = await searchConsoleService.getAllSites(ctx.workspace?.id);
       return sites;
     } catch (error) {
       console.error('Error fetching Search Console sites:', error);
@@ -301,12 +481,31 @@ export const googleAccountsRouter = router({
     }
   }),
 
-  testAccount: adminProcedure
+  // Run the health check for one account now and return its health
+  checkAccountHealth: workspaceProcedure('ADMIN')
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const account = await prisma.googleAccount.findFirst({
+        where: { id: input.id, ...workspaceScope(ctx) },
+        select: { id: true },
+      });
+
+      if (!account) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Account not found',
+        });
+      }
+
+      return searchConsoleService.checkAccountHealth(account.id);
+    }),
+
+  testAccount: workspaceProcedure('ADMIN')
     .input(z.object({ accountId: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        const account = await prisma.googleAccount.findUnique({
-          where: { id: input.accountId },
+        const account = await prisma.googleAccount.findFirst({
+          where: { id: input.accountId, ...workspaceScope(ctx) },
         });
 
         if (!account) {
@@ -314,19 +513,10 @@ export const googleAccountsRouter = router({
         }
 
         // Test the account by trying to authenticate and get Search Console sites
-        const oauth2Client = new google.auth.OAuth2(
-          process.env.GOOGLE_CLIENT_ID,
-          process.env.GOOGLE_CLIENT_SECRET,
-          process.env.GOOGLE_REDIRECT_URI ||
-            'http://localhost:3001/auth/google/callback'
-        );
-
-        oauth2Client.setCredentials({
-          refresh_token: account.refreshToken,
-        });
+        const oauth2Client = createGoogleOAuthClient();
 
         // Try to refresh the token to validate it
-        const { credentials } = await oauth2Client.refreshAccessToken();
+        oauth2Client.setCredentials(await renewCredentials(account));
 
         // Create Search Console API client
         const searchConsole = google.searchconsole({
@@ -335,7 +525,10 @@ export const googleAccountsRouter = router({
         });
 
         // Get sites to test the connection
-        const response = await searchConsole.sites.list();
+        const response = await searchConsoleScheduler.schedule(
+          { accountId: account.id },
+          () => searchConsole.sites.list()
+        );
         const sites = response.data.siteEntry || [];
 
         return {
@@ -1,4 +1,4 @@
-import { router, publicProcedure } from '../trpc-context';
+import { router, workspaceProcedure, requireWorkspace } from '../trpc-context';
 import { keywordAnalysisService } from '../../services/keywordAnalysisService';
 import { z } from 'zod';
 import type { inferRouterOutputs, inferRouterInputs } from '@trpc/server';
@@ -8,15 +8,17 @@ export const keywordAnalysisRouter = router({
    * Submit a keyword for analysis
    * POST /keyword/analyze
    */
-  analyze: publicProcedure
+  analyze: workspaceProcedure()
     .input(z.object({
       keyword: z.string().min(1, 'Keyword is required'),
       campaignId: z.string().optional()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
       try {
         const analysisId = await keywordAnalysisService.analyzeKeyword(
           input.keyword,
+          workspace.id,
           input.campaignId
         );
         
@@ -35,13 +37,16 @@ export const keywordAnalysisRouter = router({
    * Retrieve stored analysis by ID
    * GET /keyword/analysis/:id
    */
-  getById: publicProcedure
+  getById: workspaceProcedure()
     .input(z.object({
       id: z.string().min(1, 'Analysis ID is required')
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       try {
-        const analysis = await keywordAnalysisService.getAnalysisById(input.id);
+        const analysis = await keywordAnalysisService.getAnalysisById(
+          input.id,
+          ctx.workspace?.id
+        );
         
         return {
           success: true,
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { router, adminProcedure } from '../trpc-context';
+import { router, campaignProcedure } from '../trpc-context';
 import { keywordCannibalizationService } from '../../services/keywordCannibalization';
 import { inferRouterOutputs } from '@trpc/server';
 
@@ -7,7 +7,7 @@ export const keywordCannibalizationRouter = router({
   /**
    * Run audit with custom date range
    */
-  runAudit: adminProcedure
+  runAudit: campaignProcedure('ADMIN')
     .input(
       z.object({
         campaignId: z.string(),
@@ -28,7 +28,7 @@ export const keywordCannibalizationRouter = router({
    * Get cannibalization results for a campaign
    * Defaults to last 3 months if no date range provided
    */
-  getResults: adminProcedure
+  getResults: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
@@ -64,7 +64,7 @@ export const keywordCannibalizationRouter = router({
       return results;
     }),
 
-  getKeywordDetails: adminProcedure
+  getKeywordDetails: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
@@ -99,7 +99,7 @@ export const keywordCannibalizationRouter = router({
   /**
    * Get cannibalization summary statistics for a campaign
    */
-  getSummary: adminProcedure
+  getSummary: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
@@ -189,7 +189,7 @@ export const keywordCannibalizationRouter = router({
   /**
    * Get top cannibalized keywords (highest overlap percentages)
    */
-  getTopCannibalized: adminProcedure
+  getTopCannibalized: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
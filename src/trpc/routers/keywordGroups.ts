@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, campaignProcedure } from '../trpc-context';
+import { prisma } from '../../utils/prisma';
+import { diffFields } from '../../utils/auditLog';
+import { normalizeKeyword } from '../../services/campaignKeywords';
+import { keywordGroupService } from '../../services/keywordGroups';
+
+const groupFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Group name is required').max(100),
+  description: z.string().max(1000).nullable().optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #1a2b3c')
+    .nullable()
+    .optional(),
+});
+
+const findGroupOrThrow = async (campaignId: string, groupId: string) => {
+  const group = await keywordGroupService.findGroup(campaignId, groupId);
+  if (!group) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Keyword group not found' });
+  }
+  return group;
+};
+
+const assertNameAvailable = async (campaignId: string, name: string, groupId?: string) => {
+  const existing = await prisma.keywordGroup.findFirst({
+    where: { campaignId, name, ...(groupId ? { id: { not: groupId } } : {}) },
+  });
+  if (existing) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `A keyword group named "${name}" already exists`,
+    });
+  }
+};
+
+// Keywords a group is set to must be active keywords of the campaign
+const resolveKeywordsOrThrow = async (campaignId: string, keywords: string[]) => {
+  const { ids, unknown } = await keywordGroupService.resolveKeywords(campaignId, keywords);
+  if (unknown.length > 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Not tracked by this campaign: ${unknown.join(', ')}`,
+    });
+  }
+  return ids;
+};
+
+export const keywordGroupsRouter = router({
+  /**
+   * The campaign's keyword groups with their keywords
+   */
+  listGroups: campaignProcedure()
+    .input(z.object({ campaignId: z.string() }))
+    .query(async ({ input }) => {
+      return keywordGroupService.listGroups(input.campaignId);
+    }),
+
+  /**
+   * Create a keyword group, optionally with its keywords
+   */
+  createGroup: campaignProcedure('ADMIN')
+    .input(
+      groupFieldsSchema.extend({
+        campaignId: z.string(),
+        keywords: z.array(z.string()).optional().default([]),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await assertNameAvailable(input.campaignId, input.name);
+      const keywordIds = await resolveKeywordsOrThrow(input.campaignId, input.keywords);
+
+      const group = await prisma.keywordGroup.create({
+        data: {
+          campaignId: input.campaignId,
+          name: input.name,
+          description: input.description ?? null,
+          color: input.color ?? null,
+          members: { create: keywordIds.map((keywordId) => ({ keywordId })) },
+        },
+      });
+      ctx.audit.addTargets(group.id);
+      return group;
+    }),
+
+  /**
+   * Rename a keyword group or change its description or color
+   */
+  updateGroup: campaignProcedure('ADMIN')
+    .input(
+      groupFieldsSchema.partial().extend({
+        campaignId: z.string(),
+        groupId: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { campaignId, groupId, ...data } = input;
+      const existing = await findGroupOrThrow(campaignId, groupId);
+      if (data.name !== undefined) {
+        await assertNameAvailable(campaignId, data.name, groupId);
+      }
+
+      const group = await prisma.keywordGroup.update({
+        where: { id: groupId },
+        data,
+      });
+      ctx.audit.addTargets(group.id);
+      ctx.audit.recordChanges(diffFields(existing, data));
+      return group;
+    }),
+
+  /**
+   * Delete a keyword group. Its keywords stay tracked.
+   */
+  deleteGroup: campaignProcedure('ADMIN')
+    .input(z.object({ campaignId: z.string(), groupId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const group = await findGroupOrThrow(input.campaignId, input.groupId);
+      await prisma.keywordGroup.delete({ where: { id: group.id } });
+      ctx.audit.addTargets(group.id);
+      ctx.audit.recordChanges({ name: group.name });
+      return { success: true };
+    }),
+
+  /**
+   * Replace the keywords of a keyword group
+   */
+  setGroupKeywords: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string(),
+        groupId: z.string(),
+        keywords: z.array(z.string()),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const group = await findGroupOrThrow(input.campaignId, input.groupId);
+      const before = await keywordGroupService.getGroupKeywords(input.campaignId, group.id);
+      const keywordIds = await resolveKeywordsOrThrow(input.campaignId, input.keywords);
+
+      await keywordGroupService.setGroupKeywords(group.id, keywordIds);
+      const keywords = (await keywordGroupService.getGroupKeywords(input.campaignId, group.id))!;
+
+      ctx.audit.addTargets(group.id);
+      ctx.audit.recordChanges({
+        added: keywords.filter((keyword) => !before?.includes(keyword)),
+        removed: (before || []).filter((keyword) => !keywords.includes(keyword)),
+      });
+      return { groupId: group.id, keywords };
+    }),
+
+  /**
+   * Monthly average position, impressions, clicks, CTR and visibility of a
+   * group's keywords, for the last 12 months unless a range is given
+   */
+  getGroupMetrics: campaignProcedure()
+    .input(
+      z.object({
+        campaignId: z.string(),
+        groupId: z.string(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const group = await findGroupOrThrow(input.campaignId, input.groupId);
+      const keywords = (await keywordGroupService.getGroupKeywords(input.campaignId, group.id))!;
+      const months = await keywordGroupService.getGroupMetrics(ctx.campaign, keywords, {
+        from: input.from,
+        to: input.to,
+      });
+      return { group, keywords: keywords.length, months };
+    }),
+
+  /**
+   * Tags used on the campaign's keywords, with how many keywords have each
+   */
+  listTags: campaignProcedure()
+    .input(z.object({ campaignId: z.string() }))
+    .query(async ({ input }) => {
+      return keywordGroupService.listTags(input.campaignId);
+    }),
+
+  /**
+   * Replace the tags of one of the campaign's keywords
+   */
+  setKeywordTags: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string(),
+        keyword: z.string().min(1, 'Keyword is required'),
+        tags: z.array(z.string().max(50)).max(20),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const keyword = await prisma.campaignKeyword.findFirst({
+        where: {
+          campaignId: input.campaignId,
+          keyword: normalizeKeyword(input.keyword),
+          removedAt: null,
+        },
+      });
+      if (!keyword) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Keyword not found' });
+      }
+
+      const tags = await keywordGroupService.setKeywordTags(keyword.id, input.tags);
+      ctx.audit.recordChanges({ keyword: keyword.keyword, tags });
+      return { keyword: keyword.keyword, tags };
+    }),
+});
@@ -1,6 +1,13 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { protectedProcedure, adminProcedure, router } from '../trpc-context';
+import {
+  protectedProcedure,
+  adminProcedure,
+  campaignProcedure,
+  workspaceProcedure,
+  requireWorkspace,
+  router,
+} from '../trpc-context';
 import { prisma } from '../../utils/prisma';
 import { MilestoneService } from '../../services/milestoneService';
 import { WhatsAppService } from '../../services/whatsappService';
@@ -30,28 +37,10 @@ export const milestonesRouter = router({
   }),
 
   // Get milestone preferences for a campaign
-  getCampaignMilestonePreferences: protectedProcedure
+  getCampaignMilestonePreferences: campaignProcedure()
     .input(z.object({ campaignId: z.string() }))
-    .query(async ({ input, ctx }) => {
+    .query(async ({ input }) => {
       try {
-        // Verify user has access to this campaign
-        const campaign = await prisma.campaign.findFirst({
-          where: {
-            id: input.campaignId,
-            OR: [
-              { userId: ctx.user.id },
-              { campaignUsers: { some: { userId: ctx.user.id } } },
-            ],
-          },
-        });
-
-        if (!campaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found or access denied',
-          });
-        }
-
         return await prisma.milestonePreference.findMany({
           where: { campaignId: input.campaignId },
           include: {
@@ -76,7 +65,7 @@ export const milestonesRouter = router({
     }),
 
   // Update milestone preferences for a campaign
-  updateCampaignMilestonePreferences: protectedProcedure
+  updateCampaignMilestonePreferences: campaignProcedure('ADMIN')
     .input(
       z.object({
         campaignId: z.string(),
@@ -90,33 +79,8 @@ export const milestonesRouter = router({
         ),
       })
     )
-    .mutation(async ({ input, ctx }) => {
+    .mutation(async ({ input }) => {
       try {
-        // Verify user has admin access to this campaign
-        const campaign = await prisma.campaign.findFirst({
-          where: {
-            id: input.campaignId,
-            OR: [
-              { userId: ctx.user.id },
-              { 
-                campaignUsers: { 
-                  some: { 
-                    userId: ctx.user.id,
-                    role: 'ADMIN',
-                  } 
-                } 
-              },
-            ],
-          },
-        });
-
-        if (!campaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found or insufficient permissions',
-          });
-        }
-
         // Update or create preferences
         const results = await Promise.all(
           input.preferences.map(async (pref) => {
@@ -159,10 +123,27 @@ export const milestonesRouter = router({
       }
     }),
 
-  // Get WhatsApp groups from Whapi API
-  getWhatsAppGroups: adminProcedure.query(async () => {
+  // Get WhatsApp groups from Whapi API, leaving out other workspaces' groups
+  getWhatsAppGroups: workspaceProcedure('ADMIN').query(async ({ ctx }) => {
     try {
-      return await whatsappService.getGroups();
+      const groups = await whatsappService.getGroups();
+      if (!ctx.workspace) {
+        return groups;
+      }
+
+      const claimedElsewhere = new Set(
+        (
+          await prisma.whatsAppGroup.findMany({
+            where: {
+              groupId: { in: groups.map((group) => group.id) },
+              workspaceId: { not: ctx.workspace.id },
+            },
+            select: { groupId: true },
+          })
+        ).map((group) => group.groupId)
+      );
+
+      return groups.filter((group) => !claimedElsewhere.has(group.id));
     } catch (error) {
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -171,11 +152,26 @@ export const milestonesRouter = router({
     }
   }),
 
-  // Sync WhatsApp groups with database
-  syncWhatsAppGroups: adminProcedure.mutation(async () => {
+  // Sync WhatsApp groups with database. New groups join the selected
+  // workspace; groups owned by another workspace are skipped.
+  syncWhatsAppGroups: workspaceProcedure('ADMIN').mutation(async ({ ctx }) => {
     try {
-      const groups = await whatsappService.getGroups();
-      
+      const workspace = requireWorkspace(ctx);
+      const allGroups = await whatsappService.getGroups();
+
+      const claimedElsewhere = new Set(
+        (
+          await prisma.whatsAppGroup.findMany({
+            where: {
+              groupId: { in: allGroups.map((group) => group.id) },
+              workspaceId: { not: workspace.id },
+            },
+            select: { groupId: true },
+          })
+        ).map((group) => group.groupId)
+      );
+      const groups = allGroups.filter((group) => !claimedElsewhere.has(group.id));
+
       const syncedGroups = await Promise.all(
         groups.map(async (group) => {
           return await prisma.whatsAppGroup.upsert({
@@ -190,6 +186,7 @@ export const milestonesRouter = router({
               name: group.name,
               description: group.description,
               isActive: true,
+              workspaceId: workspace.id,
             },
           });
         })
@@ -200,6 +197,9 @@ export const milestonesRouter = router({
         groups: syncedGroups,
       };
     } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
         message: error instanceof Error ? error.message : 'Failed to sync WhatsApp groups',
@@ -208,28 +208,10 @@ export const milestonesRouter = router({
   }),
 
   // Get WhatsApp groups connected to a campaign
-  getCampaignWhatsAppGroups: protectedProcedure
+  getCampaignWhatsAppGroups: campaignProcedure()
     .input(z.object({ campaignId: z.string() }))
-    .query(async ({ input, ctx }) => {
+    .query(async ({ input }) => {
       try {
-        // Verify user has access to this campaign
-        const campaign = await prisma.campaign.findFirst({
-          where: {
-            id: input.campaignId,
-            OR: [
-              { userId: ctx.user.id },
-              { campaignUsers: { some: { userId: ctx.user.id } } },
-            ],
-          },
-        });
-
-        if (!campaign) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found or access denied',
-          });
-        }
-
         return await prisma.campaignWhatsAppGroup.findMany({
           where: { campaignId: input.campaignId },
           include: {
@@ -249,7 +231,7 @@ export const milestonesRouter = router({
     }),
 
   // Connect WhatsApp groups to a campaign
-  connectWhatsAppGroupsToCampaign: protectedProcedure
+  connectWhatsAppGroupsToCampaign: campaignProcedure('ADMIN')
     .input(
       z.object({
         campaignId: z.string(),
@@ -257,31 +239,6 @@ export const milestonesRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      // Verify user has admin access to this campaign
-      const campaign = await prisma.campaign.findFirst({
-        where: {
-          id: input.campaignId,
-          OR: [
-            { userId: ctx.user.id },
-            { 
-              campaignUsers: { 
-                some: { 
-                  userId: ctx.user.id,
-                  role: 'ADMIN',
-                } 
-              } 
-            },
-          ],
-        },
-      });
-
-      if (!campaign) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Campaign not found or insufficient permissions',
-        });
-      }
-
       // Remove existing connections
       await prisma.campaignWhatsAppGroup.deleteMany({
         where: { campaignId: input.campaignId },
@@ -291,9 +248,9 @@ export const milestonesRouter = router({
       if (input.groupIds.length > 0) {
         const connections = await Promise.all(
           input.groupIds.map(async (groupId) => {
-            // Verify the WhatsApp group exists in our database
-            const whatsAppGroup = await prisma.whatsAppGroup.findUnique({
-              where: { id: groupId },
+            // Verify the WhatsApp group exists in the campaign's workspace
+            const whatsAppGroup = await prisma.whatsAppGroup.findFirst({
+              where: { id: groupId, workspaceId: ctx.campaign.workspaceId },
             });
 
             if (!whatsAppGroup) {
@@ -322,7 +279,7 @@ export const milestonesRouter = router({
     }),
 
   // Get sent milestones for a campaign
-  getCampaignSentMilestones: protectedProcedure
+  getCampaignSentMilestones: campaignProcedure()
     .input(
       z.object({
         campaignId: z.string(),
@@ -330,25 +287,7 @@ export const milestonesRouter = router({
         offset: z.number().optional().default(0),
       })
     )
-    .query(async ({ input, ctx }) => {
-      // Verify user has access to this campaign
-      const campaign = await prisma.campaign.findFirst({
-        where: {
-          id: input.campaignId,
-          OR: [
-            { userId: ctx.user.id },
-            { campaignUsers: { some: { userId: ctx.user.id } } },
-          ],
-        },
-      });
-
-      if (!campaign) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Campaign not found or access denied',
-        });
-      }
-
+    .query(async ({ input }) => {
       const [milestones, total] = await Promise.all([
         prisma.sentMilestone.findMany({
           where: { campaignId: input.campaignId },
@@ -373,7 +312,7 @@ export const milestonesRouter = router({
     }),
 
   // Manually trigger milestone check for a campaign
-  triggerCampaignMilestoneCheck: adminProcedure
+  triggerCampaignMilestoneCheck: campaignProcedure('ADMIN')
     .input(z.object({ campaignId: z.string() }))
     .mutation(async ({ input }) => {
       try {
@@ -414,27 +353,9 @@ export const milestonesRouter = router({
   }),
 
   // Get milestone statistics for a campaign
-  getCampaignMilestoneStats: protectedProcedure
+  getCampaignMilestoneStats: campaignProcedure()
     .input(z.object({ campaignId: z.string() }))
-    .query(async ({ input, ctx }) => {
-      // Verify user has access to this campaign
-      const campaign = await prisma.campaign.findFirst({
-        where: {
-          id: input.campaignId,
-          OR: [
-            { userId: ctx.user.id },
-            { campaignUsers: { some: { userId: ctx.user.id } } },
-          ],
-        },
-      });
-
-      if (!campaign) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Campaign not found or access denied',
-        });
-      }
-
+    .query(async ({ input }) => {
       const [totalMilestones, milestonesThisMonth, milestonesByType] = await Promise.all([
         prisma.sentMilestone.count({
           where: { campaignId: input.campaignId },
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import moment from 'moment';
+import { TRPCError } from '@trpc/server';
+import { router, campaignProcedure } from '../trpc-context';
+import { prisma } from '../../utils/prisma';
+import {
+  urlInspectionService,
+  INSPECT_NOW_COOLDOWN_MINUTES,
+} from '../../services/urlInspection';
+
+export const urlInspectionRouter = router({
+  /**
+   * Latest index status of the campaign's inspected pages, recently
+   * changed pages first
+   */
+  getInspections: campaignProcedure()
+    .input(
+      z.object({
+        campaignId: z.string(),
+        changedOnly: z.boolean().optional().default(false),
+      })
+    )
+    .query(async ({ input }) => {
+      const inspections = await prisma.urlInspection.findMany({
+        where: {
+          campaignId: input.campaignId,
+          ...(input.changedOnly ? { statusChangedAt: { not: null } } : {}),
+        },
+        orderBy: [{ statusChangedAt: { sort: 'desc', nulls: 'last' } }, { url: 'asc' }],
+        omit: { urlHash: true },
+      });
+      return inspections;
+    }),
+
+  /**
+   * Status changes detected for the campaign's pages, newest first
+   */
+  getChanges: campaignProcedure()
+    .input(
+      z.object({
+        campaignId: z.string(),
+        limit: z.number().min(1).max(200).optional().default(50),
+      })
+    )
+    .query(async ({ input }) => {
+      const changes = await prisma.urlInspectionChange.findMany({
+        where: { inspection: { campaignId: input.campaignId } },
+        orderBy: { detectedAt: 'desc' },
+        take: input.limit,
+        include: { inspection: { select: { id: true, url: true } } },
+      });
+      return changes;
+    }),
+
+  /**
+   * Inspect the campaign's top-ranking pages now instead of waiting for
+   * the daily job. Refused while a run is in progress and for an hour
+   * after the last inspection.
+   */
+  inspectNow: campaignProcedure('ADMIN')
+    .input(z.object({ campaignId: z.string() }))
+    .mutation(async ({ input }) => {
+      if (urlInspectionService.isRunning(input.campaignId)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Pages of this campaign are already being inspected',
+        });
+      }
+
+      const lastInspectedAt = await urlInspectionService.getLastInspectedAt(input.campaignId);
+      const availableAt = lastInspectedAt
+        ? moment(lastInspectedAt).add(INSPECT_NOW_COOLDOWN_MINUTES, 'minutes')
+        : null;
+      if (availableAt && availableAt.isAfter(moment())) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: `Pages were inspected recently. Try again in ${Math.ceil(
+            availableAt.diff(moment(), 'minutes', true)
+          )} minutes.`,
+        });
+      }
+
+      const pages = await urlInspectionService.getTopRankingPages(input.campaignId);
+
+      // Requests that pass the checks together join the same run
+      urlInspectionService.inspectCampaign(input.campaignId).catch((error) => {
+        console.error(
+          `💥 URL inspection failed for campaign ${input.campaignId}:`,
+          error
+        );
+      });
+
+      return { pages: pages.length };
+    }),
+});
@@ -1,7 +1,7 @@
 import { z } from 'zod';
-import { router, protectedProcedure, adminProcedure } from '../trpc-context';
+import { router, protectedProcedure, adminProcedure, sessionProcedure } from '../trpc-context';
 import { PrismaClient } from '@prisma/client';
-import { hashPassword } from '../../utils/auth';
+import { hashPassword, revokeUserSessions } from '../../utils/auth';
 import { sendTemporaryPassword } from '../../utils/email';
 import { inferRouterOutputs } from '@trpc/server';
 
@@ -75,6 +75,8 @@ export const usersRouter = router({
             role: true,
             status: true,
             createdAt: true,
+            twoFactorEnabled: true,
+            twoFactorRequired: true,
           },
           skip,
           take: limit,
@@ -207,6 +209,10 @@ export const usersRouter = router({
           },
         });
 
+        if (user.status === 'INACTIVE') {
+          await revokeUserSessions(user.id);
+        }
+
         return user;
       } catch (error) {
         console.error('Update user error:', error);
@@ -244,6 +250,10 @@ export const usersRouter = router({
           },
         });
 
+        if (user.status === 'INACTIVE') {
+          await revokeUserSessions(user.id);
+        }
+
         return user;
       } catch (error) {
         console.error('Update user status error:', error);
@@ -281,7 +291,7 @@ export const usersRouter = router({
       }
     }),
 
-  changePassword: protectedProcedure
+  changePassword: sessionProcedure
     .input(
       z.object({
         newPassword: z
@@ -309,6 +319,8 @@ export const usersRouter = router({
         },
       });
 
+      await revokeUserSessions(user.id, ctx.sessionId || undefined);
+
       return user;
     }),
 
@@ -350,6 +362,9 @@ export const usersRouter = router({
         },
       });
 
+      // The old password is gone, so are the sessions opened with it
+      await revokeUserSessions(user.id);
+
       // Send email with temporary password
       try {
         await sendTemporaryPassword(
@@ -373,6 +388,120 @@ export const usersRouter = router({
       };
     }),
 
+  // Require (or stop requiring) two-factor authentication for an account.
+  // Until the user enrolls, admin procedures are refused for them.
+  setTwoFactorRequirement: adminProcedure
+    .input(
+      z.object({
+        userId: z.string(),
+        required: z.boolean(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const user = await prisma.user.update({
+        where: { id: input.userId },
+        data: { twoFactorRequired: input.required },
+        select: {
+          id: true,
+          email: true,
+          twoFactorEnabled: true,
+          twoFactorRequired: true,
+        },
+      });
+
+      return user;
+    }),
+
+  // Remove a user's authenticator and backup codes (e.g. lost device)
+  resetUserTwoFactor: adminProcedure
+    .input(
+      z.object({
+        userId: z.string(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: input.userId },
+          data: { twoFactorEnabled: false, twoFactorSecret: null },
+        }),
+        prisma.twoFactorBackupCode.deleteMany({
+          where: { userId: input.userId },
+        }),
+      ]);
+
+      await revokeUserSessions(input.userId);
+
+      return { success: true };
+    }),
+
+  // Emails and IPs currently blocked by login throttling. Short backoff
+  // delays are included unless onlyLockouts is set.
+  getLoginLockouts: adminProcedure
+    .input(
+      z
+        .object({
+          onlyLockouts: z.boolean().default(false),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const now = new Date();
+      const blocks = await prisma.loginThrottle.findMany({
+        where: {
+          blockedUntil: { gt: now },
+          ...(input?.onlyLockouts ? { lockedAt: { not: null } } : {}),
+        },
+        orderBy: { blockedUntil: 'desc' },
+      });
+
+      const emails = blocks
+        .filter((block) => block.scope === 'ACCOUNT')
+        .map((block) => block.identifier);
+      const users = emails.length
+        ? await prisma.user.findMany({
+            where: { email: { in: emails } },
+            select: { id: true, email: true, name: true },
+          })
+        : [];
+      const usersByEmail = new Map(
+        users.map((user) => [user.email.toLowerCase(), user])
+      );
+
+      return blocks.map((block) => ({
+        id: block.id,
+        scope: block.scope,
+        identifier: block.identifier,
+        failedAttempts: block.failedAttempts,
+        lastFailedAt: block.lastFailedAt,
+        blockedUntil: block.blockedUntil,
+        isLockedOut: block.lockedAt !== null,
+        user:
+          block.scope === 'ACCOUNT'
+            ? usersByEmail.get(block.identifier) || null
+            : null,
+      }));
+    }),
+
+  // Lift a login lockout and forget its failed attempts
+  clearLoginLockout: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const result = await prisma.loginThrottle.deleteMany({
+        where: { id: input.id },
+      });
+
+      if (result.count === 0) {
+        throw new Error('Lockout not found');
+      }
+
+      return { success: true };
+    }),
+
   // Map user to campaigns for email notifications
   setCampaignEmailPreferences: adminProcedure
     .input(
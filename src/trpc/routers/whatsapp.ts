@@ -1,6 +1,11 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { adminProcedure, router } from '../trpc-context';
+import {
+  adminProcedure,
+  campaignProcedure,
+  workspaceProcedure,
+  router,
+} from '../trpc-context';
 import { prisma } from '../../utils/prisma';
 import { WhatsAppService } from '../../services/whatsappService';
 
@@ -14,8 +19,10 @@ const getWhatsAppService = () => {
 };
 
 export const whatsappRouter = router({
-  // Get available WhatsApp groups from WHAPI
-  getGroups: adminProcedure.query(async () => {
+  // Get the WhatsApp groups from WHAPI that belong to the selected workspace.
+  // Global admins without a workspace see every group with its workspace,
+  // null for groups not assigned yet; assignGroup assigns them.
+  getGroups: workspaceProcedure('ADMIN').query(async ({ ctx }) => {
     try {
       // Check if WHAPI_TOKEN is configured
       if (!process.env.WHAPI_TOKEN) {
@@ -36,28 +43,30 @@ export const whatsappRouter = router({
       }
 
       const groups = await whatsappService.getGroups();
-      
-      // Sync groups with database
-      for (const group of groups) {
-        await prisma.whatsAppGroup.upsert({
-          where: { groupId: group.id },
-          update: {
-            name: group.name,
-            description: group.description,
-            isActive: true,
-          },
-          create: {
-            groupId: group.id,
-            name: group.name,
-            description: group.description,
-            isActive: true,
-          },
-        });
+      const workspace = ctx.workspace;
+
+      const assignedGroups = new Map(
+        (
+          await prisma.whatsAppGroup.findMany({
+            where: workspace ? { workspaceId: workspace.id } : {},
+            select: { groupId: true, workspaceId: true },
+          })
+        ).map((group) => [group.groupId, group.workspaceId])
+      );
+
+      if (!workspace) {
+        return {
+          success: true,
+          data: groups.map((group) => ({
+            ...group,
+            workspaceId: assignedGroups.get(group.id) || null,
+          })),
+        };
       }
 
       return {
         success: true,
-        data: groups,
+        data: groups.filter((group) => assignedGroups.has(group.id)),
       };
     } catch (error) {
       console.error('Error fetching WhatsApp groups:', error);
@@ -70,30 +79,94 @@ export const whatsappRouter = router({
     }
   }),
 
-  // Save selected WhatsApp groups for a campaign
-  saveCampaignGroups: adminProcedure
+  // Assign a WHAPI group to a workspace so its admins can link it to
+  // campaigns. Groups already assigned elsewhere are not moved.
+  assignGroup: adminProcedure
     .input(
       z.object({
-        campaignId: z.string(),
-        groupIds: z.array(z.string()),
+        groupId: z.string().min(1),
+        workspaceId: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        const { campaignId, groupIds } = input;
+        const whatsappService = getWhatsAppService();
+        if (!process.env.WHAPI_TOKEN || !whatsappService) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: 'WhatsApp service unavailable',
+          });
+        }
 
-        // Verify campaign exists
-        const campaign = await prisma.campaign.findUnique({
-          where: { id: campaignId },
+        const workspace = await prisma.workspace.findUnique({
+          where: { id: input.workspaceId },
         });
+        if (!workspace) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Workspace not found' });
+        }
+
+        const group = (await whatsappService.getGroups()).find(
+          (candidate) => candidate.id === input.groupId
+        );
+        if (!group) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'WhatsApp group not found' });
+        }
 
-        if (!campaign) {
+        const existing = await prisma.whatsAppGroup.findUnique({
+          where: { groupId: group.id },
+        });
+        if (existing && existing.workspaceId !== workspace.id) {
           throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Campaign not found',
+            code: 'CONFLICT',
+            message: 'This group belongs to another workspace',
           });
         }
 
+        const saved = await prisma.whatsAppGroup.upsert({
+          where: { groupId: group.id },
+          update: {
+            name: group.name,
+            description: group.description,
+            isActive: true,
+          },
+          create: {
+            groupId: group.id,
+            name: group.name,
+            description: group.description,
+            isActive: true,
+            workspaceId: workspace.id,
+          },
+        });
+        ctx.audit.addTargets(saved.id, workspace.id);
+
+        return {
+          success: true,
+          data: saved,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error assigning WhatsApp group:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to assign WhatsApp group',
+        });
+      }
+    }),
+
+  // Save selected WhatsApp groups for a campaign
+  saveCampaignGroups: campaignProcedure('ADMIN')
+    .input(
+      z.object({
+        campaignId: z.string(),
+        groupIds: z.array(z.string()),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { campaignId, groupIds } = input;
+
         // Remove existing group associations
         await prisma.campaignWhatsAppGroup.deleteMany({
           where: { campaignId },
@@ -102,9 +175,9 @@ export const whatsappRouter = router({
         // Add new group associations
         const groupAssociations = [];
         for (const groupId of groupIds) {
-          // Verify group exists in our database
-          const group = await prisma.whatsAppGroup.findUnique({
-            where: { groupId },
+          // Verify group exists in the campaign's workspace
+          const group = await prisma.whatsAppGroup.findFirst({
+            where: { groupId, workspaceId: ctx.campaign.workspaceId },
           });
 
           if (group) {
@@ -141,7 +214,7 @@ export const whatsappRouter = router({
     }),
 
   // Get WhatsApp groups assigned to a campaign
-  getCampaignGroups: adminProcedure
+  getCampaignGroups: campaignProcedure()
     .input(z.object({ campaignId: z.string() }))
     .query(async ({ input }) => {
       try {
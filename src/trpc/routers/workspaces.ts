@@ -0,0 +1,384 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  router,
+  publicProcedure,
+  protectedProcedure,
+  adminProcedure,
+  workspaceProcedure,
+  requireWorkspace,
+  isSuperAdmin,
+} from '../trpc-context';
+import { prisma } from '../../utils/prisma';
+import { sendWorkspaceInviteEmail } from '../../utils/email';
+import {
+  workspaceInviteExpiry,
+  getInviteStatus,
+  signWorkspaceInviteToken,
+  verifyWorkspaceInviteToken,
+  assertPendingInvite,
+  acceptInvite,
+} from '../../utils/invites';
+
+const slugSchema = z
+  .string()
+  .min(2)
+  .max(60)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and dashes');
+
+export const workspacesRouter = router({
+  // Workspaces the caller can select. Super-admins see every workspace.
+  listMyWorkspaces: protectedProcedure.query(async ({ ctx }) => {
+    if (isSuperAdmin(ctx.user)) {
+      const workspaces = await prisma.workspace.findMany({
+        orderBy: { name: 'asc' },
+      });
+      return workspaces.map((workspace) => ({ ...workspace, role: 'ADMIN' as const }));
+    }
+
+    const memberships = await prisma.workspaceMember.findMany({
+      where: { userId: ctx.user.id },
+      include: { workspace: true },
+      orderBy: { workspace: { name: 'asc' } },
+    });
+    return memberships.map((membership) => ({
+      ...membership.workspace,
+      role: membership.role,
+    }));
+  }),
+
+  // Create a workspace, optionally naming its first admin
+  createWorkspace: adminProcedure
+    .input(
+      z.object({
+        name: z.string().min(1, 'Workspace name is required').max(100),
+        slug: slugSchema,
+        adminUserId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const existing = await prisma.workspace.findUnique({
+        where: { slug: input.slug },
+      });
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'A workspace with this slug already exists',
+        });
+      }
+
+      return prisma.workspace.create({
+        data: {
+          name: input.name,
+          slug: input.slug,
+          members: input.adminUserId
+            ? { create: { userId: input.adminUserId, role: 'ADMIN' } }
+            : undefined,
+        },
+      });
+    }),
+
+  getWorkspaceMembers: workspaceProcedure('ADMIN')
+    .input(z.object({ workspaceId: z.string().optional() }).optional())
+    .query(async ({ ctx }) => {
+      const workspace = requireWorkspace(ctx);
+      const members = await prisma.workspaceMember.findMany({
+        where: { workspaceId: workspace.id },
+        include: {
+          user: { select: { id: true, email: true, name: true, status: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return members.map((member) => ({
+        id: member.id,
+        role: member.role,
+        createdAt: member.createdAt,
+        user: member.user,
+      }));
+    }),
+
+  // Invite someone to the workspace by email. Whether the address has an
+  // account or is already a member, the response is the same; the invitee
+  // joins by accepting the emailed link.
+  inviteWorkspaceMember: workspaceProcedure('ADMIN')
+    .input(
+      z.object({
+        workspaceId: z.string().optional(),
+        email: z.string().email(),
+        role: z.enum(['ADMIN', 'MEMBER']).default('MEMBER'),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
+      const email = input.email.trim().toLowerCase();
+
+      await prisma.workspaceInvite.updateMany({
+        where: { workspaceId: workspace.id, email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      const invite = await prisma.workspaceInvite.create({
+        data: {
+          workspaceId: workspace.id,
+          email,
+          role: input.role,
+          invitedById: ctx.user.id,
+          expiresAt: workspaceInviteExpiry(),
+        },
+      });
+      ctx.audit.addTargets(invite.id, workspace.id);
+
+      const [inviter, invitee] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: ctx.user.id },
+          select: { firstName: true, name: true, settings: { select: { systemLanguage: true } } },
+        }),
+        prisma.user.findUnique({
+          where: { email },
+          select: { settings: { select: { systemLanguage: true } } },
+        }),
+      ]);
+
+      try {
+        await sendWorkspaceInviteEmail(
+          email,
+          inviter?.firstName || inviter?.name || ctx.user.email,
+          workspace.name,
+          invite.role,
+          signWorkspaceInviteToken(invite.id, invite.expiresAt),
+          Math.round((invite.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
+          invitee?.settings?.systemLanguage || inviter?.settings?.systemLanguage || 'en'
+        );
+      } catch (error) {
+        // Without the email nobody can use the invite, so don't leave it pending
+        await prisma.workspaceInvite.update({
+          where: { id: invite.id },
+          data: { revokedAt: new Date() },
+        });
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to send the invitation email' });
+      }
+
+      return {
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+      };
+    }),
+
+  // List the workspace's invitations, newest first
+  getWorkspaceInvites: workspaceProcedure('ADMIN')
+    .input(
+      z.object({
+        workspaceId: z.string().optional(),
+        includeClosed: z.boolean().default(false),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
+      const invites = await prisma.workspaceInvite.findMany({
+        where: {
+          workspaceId: workspace.id,
+          ...(input.includeClosed
+            ? {}
+            : { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } }),
+        },
+        include: {
+          invitedBy: { select: { id: true, email: true, name: true } },
+          acceptedBy: { select: { id: true, email: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return invites.map((invite) => ({
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        status: getInviteStatus(invite),
+        expiresAt: invite.expiresAt,
+        createdAt: invite.createdAt,
+        acceptedAt: invite.acceptedAt,
+        revokedAt: invite.revokedAt,
+        invitedBy: invite.invitedBy,
+        acceptedBy: invite.acceptedBy,
+      }));
+    }),
+
+  revokeWorkspaceInvite: workspaceProcedure('ADMIN')
+    .input(
+      z.object({
+        workspaceId: z.string().optional(),
+        inviteId: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
+      const result = await prisma.workspaceInvite.updateMany({
+        where: {
+          id: input.inviteId,
+          workspaceId: workspace.id,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      if (result.count === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Pending invitation not found' });
+      }
+
+      return { success: true };
+    }),
+
+  // Details shown on the accept-invite page before the user commits
+  getWorkspaceInvite: publicProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input }) => {
+      const inviteId = verifyWorkspaceInviteToken(input.token);
+      const invite = assertPendingInvite(
+        inviteId
+          ? await prisma.workspaceInvite.findUnique({
+              where: { id: inviteId },
+              include: { workspace: { select: { id: true, name: true } } },
+            })
+          : null
+      );
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: invite.email },
+        select: { id: true },
+      });
+
+      return {
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+        workspace: invite.workspace,
+        accountExists: !!existingUser,
+      };
+    }),
+
+  // Accept an invitation. An existing account with the invited email joins
+  // the workspace, never with a lower role than it has; otherwise an account
+  // is created from the given password and signed in.
+  acceptWorkspaceInvite: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        password: z.string().min(6).optional(),
+        name: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const inviteId = verifyWorkspaceInviteToken(input.token);
+      const invite = assertPendingInvite(
+        inviteId
+          ? await prisma.workspaceInvite.findUnique({ where: { id: inviteId } })
+          : null
+      );
+
+      const accepted = await acceptInvite({
+        invite,
+        password: input.password,
+        name: input.name,
+        client: ctx.client,
+        claim: (tx) =>
+          tx.workspaceInvite.updateMany({
+            where: { id: invite.id, acceptedAt: null, revokedAt: null },
+            data: { acceptedAt: new Date() },
+          }),
+        join: async (tx, member) => {
+          await tx.workspaceInvite.update({
+            where: { id: invite.id },
+            data: { acceptedById: member.id },
+          });
+
+          const membership = await tx.workspaceMember.findUnique({
+            where: { workspaceId_userId: { workspaceId: invite.workspaceId, userId: member.id } },
+            select: { role: true },
+          });
+          const role = membership?.role === 'ADMIN' ? 'ADMIN' : invite.role;
+
+          await tx.workspaceMember.upsert({
+            where: { workspaceId_userId: { workspaceId: invite.workspaceId, userId: member.id } },
+            create: { workspaceId: invite.workspaceId, userId: member.id, role },
+            update: { role },
+          });
+        },
+      });
+
+      return { workspaceId: invite.workspaceId, ...accepted };
+    }),
+
+  updateWorkspaceMemberRole: workspaceProcedure('ADMIN')
+    .input(
+      z.object({
+        workspaceId: z.string().optional(),
+        userId: z.string(),
+        role: z.enum(['ADMIN', 'MEMBER']),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
+      const member = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId: workspace.id, userId: input.userId } },
+      });
+      if (!member) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Workspace member not found',
+        });
+      }
+
+      if (member.role === 'ADMIN' && input.role !== 'ADMIN') {
+        await assertAnotherAdmin(workspace.id, input.userId);
+      }
+
+      ctx.audit.recordChanges({ role: { from: member.role, to: input.role } });
+      return prisma.workspaceMember.update({
+        where: { id: member.id },
+        data: { role: input.role },
+      });
+    }),
+
+  removeWorkspaceMember: workspaceProcedure('ADMIN')
+    .input(
+      z.object({
+        workspaceId: z.string().optional(),
+        userId: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const workspace = requireWorkspace(ctx);
+      const member = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId: workspace.id, userId: input.userId } },
+      });
+      if (!member) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Workspace member not found',
+        });
+      }
+
+      if (member.role === 'ADMIN') {
+        await assertAnotherAdmin(workspace.id, input.userId);
+      }
+
+      await prisma.workspaceMember.delete({ where: { id: member.id } });
+      return { success: true };
+    }),
+});
+
+// A workspace must keep at least one admin
+const assertAnotherAdmin = async (workspaceId: string, userId: string) => {
+  const otherAdmins = await prisma.workspaceMember.count({
+    where: { workspaceId, role: 'ADMIN', userId: { not: userId } },
+  });
+  if (otherAdmins === 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A workspace needs at least one admin',
+    });
+  }
+};
@@ -1,6 +1,19 @@
 import { initTRPC, TRPCError } from '@trpc/server';
-import { getUserFromToken } from '../utils/auth';
-import { PrismaClient } from '@prisma/client';
+import {
+  getUserFromToken,
+  getUserFromApiKey,
+  API_KEY_PREFIX,
+} from '../utils/auth';
+import { AuditRecorder, writeAuditLog } from '../utils/auditLog';
+import { SearchConsolePropertyError } from '../services/searchConsole';
+import {
+  PrismaClient,
+  Campaign,
+  CampaignUserRole,
+  ApiKeyScope,
+  Workspace,
+  WorkspaceRole,
+} from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -13,10 +26,41 @@ export interface TRPCContext {
     status: 'ACTIVE' | 'INACTIVE';
     hasChangedPassword: boolean;
     createdAt: Date;
+    twoFactorEnabled: boolean;
+    twoFactorRequired: boolean;
   } | null;
+  sessionId?: string | null;
+  // Set when the request authenticated with an API key instead of a session.
+  // campaignIds is null for keys that cover all of the owner's campaigns; an
+  // empty list reaches none.
+  apiKey?: {
+    id: string;
+    scope: ApiKeyScope;
+    campaignIds: string[] | null;
+  } | null;
+  // Workspace selected by the client through the X-Workspace-Id header
+  workspaceId?: string | null;
+  client: {
+    ipAddress: string | null;
+    userAgent: string | null;
+  };
   prisma: PrismaClient;
 }
 
+const toContextUser = (
+  user: NonNullable<TRPCContext['user']>
+): NonNullable<TRPCContext['user']> => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  status: user.status,
+  hasChangedPassword: user.hasChangedPassword,
+  createdAt: user.createdAt,
+  twoFactorEnabled: user.twoFactorEnabled,
+  twoFactorRequired: user.twoFactorRequired,
+});
+
 export const createContext = async ({
   req,
   res,
@@ -26,44 +70,121 @@ export const createContext = async ({
 }): Promise<TRPCContext> => {
   // Handle case where req or req.headers might be undefined
   if (!req || !req.headers) {
-    return { user: null, prisma };
+    return { user: null, client: { ipAddress: null, userAgent: null }, prisma };
   }
 
-  const token = req.headers.authorization?.replace('Bearer ', '');
+  const client = {
+    ipAddress: req.ip || req.socket?.remoteAddress || null,
+    userAgent: req.headers['user-agent'] || null,
+  };
+  const workspaceId: string | null = req.headers['x-workspace-id'] || null;
+
+  const token =
+    req.headers.authorization?.replace('Bearer ', '') ||
+    req.headers['x-api-key'];
   if (!token) {
-    return { user: null, prisma };
+    return { user: null, client, prisma };
+  }
+
+  if (token.startsWith(API_KEY_PREFIX)) {
+    const keyUser = await getUserFromApiKey(token);
+    if (!keyUser) {
+      return { user: null, client, prisma };
+    }
+
+    return {
+      user: toContextUser(keyUser),
+      sessionId: null,
+      apiKey: keyUser.apiKey,
+      workspaceId,
+      client,
+      prisma,
+    };
   }
 
+  // Rejects revoked/expired sessions and inactive users
   const user = await getUserFromToken(token);
   if (!user) {
-    return { user: null, prisma };
+    return { user: null, client, prisma };
   }
 
   return {
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      status: user.status,
-      hasChangedPassword: user.hasChangedPassword,
-      createdAt: user.createdAt,
-    },
+    user: toContextUser(user),
+    sessionId: user.sessionId,
+    workspaceId,
+    client,
     prisma,
   };
 };
 
-const t = initTRPC.context<TRPCContext>().create();
+const t = initTRPC.context<TRPCContext>().create({
+  // Validation failures the client can act on carry their details in
+  // `data.validation`, e.g. which Search Console property was rejected and why
+  errorFormatter({ shape, error }) {
+    const cause = error.cause;
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        validation:
+          cause instanceof SearchConsolePropertyError
+            ? { code: cause.code, ...cause.details }
+            : null,
+      },
+    };
+  },
+});
 
 export const router = t.router;
-export const publicProcedure = t.procedure;
+
+// Every mutation, successful or not, is written to the audit log. Procedures
+// can add targets or a before/after diff through ctx.audit.
+const auditedProcedure = t.procedure.use(
+  async ({ ctx, type, path, getRawInput, next }) => {
+    const audit = new AuditRecorder();
+    const result = await next({ ctx: { ...ctx, audit } });
+
+    if (type === 'mutation') {
+      const input = await getRawInput().catch(() => undefined);
+      await writeAuditLog({
+        actor: ctx.user,
+        apiKeyId: ctx.apiKey?.id,
+        procedure: path,
+        input,
+        result: result.ok ? result.data : undefined,
+        recorder: audit,
+        ok: result.ok,
+        errorCode: result.ok ? null : result.error.code,
+        client: ctx.client,
+      });
+    }
+
+    return result;
+  }
+);
+
+export const publicProcedure = auditedProcedure;
+
+// Read-only API keys may call queries only
+const assertApiKeyAllows = (
+  ctx: TRPCContext,
+  type: 'query' | 'mutation' | 'subscription'
+) => {
+  if (ctx.apiKey && ctx.apiKey.scope === 'READ' && type !== 'query') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This API key is read-only',
+    });
+  }
+};
 
 // Protected procedure that requires authentication
-export const protectedProcedure = t.procedure.use(
-  t.middleware(({ ctx, next }) => {
+export const protectedProcedure = auditedProcedure.use(
+  t.middleware(({ ctx, type, next }) => {
     if (!ctx.user) {
       throw new TRPCError({ code: 'UNAUTHORIZED' });
     }
+    assertApiKeyAllows(ctx, type);
     return next({
       ctx: {
         ...ctx,
@@ -73,18 +194,60 @@ export const protectedProcedure = t.procedure.use(
   })
 );
 
+// Procedures that manage the account's credentials (API keys, password,
+// two-factor) need a logged-in session, so a leaked API key can't take
+// over the account or lock its owner out
+export const sessionProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.apiKey) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This action is not available with an API key',
+    });
+  }
+  return next();
+});
+
+// Accounts required to use 2FA can't act as admin of anything without it
+const assertTwoFactorSatisfied = (user: NonNullable<TRPCContext['user']>) => {
+  if (user.twoFactorRequired && !user.twoFactorEnabled) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Two-factor authentication must be enabled for this account',
+    });
+  }
+};
+
+// Checks shared by global and workspace admin access
+const assertAdminAllowed = (ctx: TRPCContext & { user: NonNullable<TRPCContext['user']> }) => {
+  assertTwoFactorSatisfied(ctx.user);
+  // Admin procedures span campaigns, so campaign-limited keys can't use them
+  if (ctx.apiKey?.campaignIds) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This API key is limited to specific campaigns',
+    });
+  }
+};
+
+export const isSuperAdmin = (user: {
+  role: 'ADMIN' | 'USER';
+  status: 'ACTIVE' | 'INACTIVE';
+}) => user.role === 'ADMIN' && user.status === 'ACTIVE';
+
 // Admin-only procedure that requires admin role
-export const adminProcedure = t.procedure.use(
-  t.middleware(({ ctx, next }) => {
+export const adminProcedure = auditedProcedure.use(
+  t.middleware(({ ctx, type, next }) => {
     if (!ctx.user) {
       throw new TRPCError({ code: 'UNAUTHORIZED' });
     }
-    if (ctx.user.role !== 'ADMIN' || ctx.user.status !== 'ACTIVE') {
+    if (!isSuperAdmin(ctx.user)) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'Admin access required',
       });
     }
+    assertAdminAllowed({ ...ctx, user: ctx.user });
+    assertApiKeyAllows(ctx, type);
     return next({
       ctx: {
         ...ctx,
@@ -93,3 +256,226 @@ export const adminProcedure = t.procedure.use(
     });
   })
 );
+
+// Workspace roles ordered from least to most privileged
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  MEMBER: 0,
+  ADMIN: 1,
+};
+
+/**
+ * Resolve the role a user holds in a workspace. Global admins act as
+ * workspace ADMIN everywhere.
+ */
+export const resolveWorkspaceRole = async (
+  user: { id: string; role: 'ADMIN' | 'USER'; status: 'ACTIVE' | 'INACTIVE' },
+  workspaceId: string
+): Promise<WorkspaceRole | null> => {
+  if (isSuperAdmin(user)) {
+    return 'ADMIN';
+  }
+
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId: user.id } },
+    select: { role: true },
+  });
+
+  return membership?.role || null;
+};
+
+/**
+ * Procedure acting on resources a workspace owns. The workspace comes from a
+ * `workspaceId` input field or the X-Workspace-Id header, and the caller needs
+ * at least `minRole` in it. Global admins may omit it to act across all
+ * workspaces, in which case `ctx.workspace` is null; use `workspaceScope` to
+ * filter queries and `requireWorkspace` where a concrete workspace is needed.
+ */
+export const workspaceProcedure = (minRole: WorkspaceRole = 'MEMBER') =>
+  protectedProcedure.use(async ({ ctx, getRawInput, next }) => {
+    const rawInput = (await getRawInput()) as Record<string, unknown> | null;
+    const workspaceId =
+      typeof rawInput?.workspaceId === 'string'
+        ? rawInput.workspaceId
+        : ctx.workspaceId || null;
+
+    if (!workspaceId) {
+      if (!isSuperAdmin(ctx.user)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Workspace is required',
+        });
+      }
+      assertAdminAllowed(ctx);
+      return next({
+        ctx: {
+          ...ctx,
+          workspace: null as Workspace | null,
+          workspaceRole: 'ADMIN' as WorkspaceRole,
+        },
+      });
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+    });
+    if (!workspace) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Workspace not found',
+      });
+    }
+
+    const role = await resolveWorkspaceRole(ctx.user, workspace.id);
+    if (!role || WORKSPACE_ROLE_RANK[role] < WORKSPACE_ROLE_RANK[minRole]) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message:
+          minRole === 'ADMIN'
+            ? 'Workspace admin access required'
+            : 'You do not have access to this workspace',
+      });
+    }
+    if (role === 'ADMIN') {
+      assertAdminAllowed(ctx);
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        workspace: workspace as Workspace | null,
+        workspaceRole: role,
+      },
+    });
+  });
+
+// Prisma filter limiting a query to the selected workspace, if any
+export const workspaceScope = (ctx: { workspace: Workspace | null }) =>
+  ctx.workspace ? { workspaceId: ctx.workspace.id } : {};
+
+export const requireWorkspace = (ctx: {
+  workspace: Workspace | null;
+}): Workspace => {
+  if (!ctx.workspace) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Select a workspace first',
+    });
+  }
+  return ctx.workspace;
+};
+
+// Campaign roles ordered from least to most privileged
+const CAMPAIGN_ROLE_RANK: Record<CampaignUserRole, number> = {
+  VIEWER: 0,
+  ADMIN: 1,
+};
+
+/**
+ * Resolve the effective role a user holds on a campaign.
+ * Global admins, workspace admins and the campaign owner act as campaign
+ * ADMIN. Workspace members can view the workspace's campaigns, and an active
+ * CampaignUser membership grants its role.
+ */
+export const resolveCampaignAccess = async (
+  user: { id: string; role: 'ADMIN' | 'USER'; status: 'ACTIVE' | 'INACTIVE' },
+  campaignId: string
+): Promise<{ campaign: Campaign; role: CampaignUserRole | null } | null> => {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign) {
+    return null;
+  }
+
+  if (isSuperAdmin(user) || campaign.userId === user.id) {
+    return { campaign, role: 'ADMIN' };
+  }
+
+  const [membership, workspaceRole] = await Promise.all([
+    prisma.campaignUser.findUnique({
+      where: { campaignId_userId: { campaignId, userId: user.id } },
+      select: { role: true, isActive: true },
+    }),
+    resolveWorkspaceRole(user, campaign.workspaceId),
+  ]);
+
+  if (workspaceRole === 'ADMIN') {
+    return { campaign, role: 'ADMIN' };
+  }
+
+  const roles: CampaignUserRole[] = [];
+  if (membership && membership.isActive) roles.push(membership.role);
+  if (workspaceRole === 'MEMBER') roles.push('VIEWER');
+
+  return {
+    campaign,
+    role: roles.length
+      ? roles.reduce((best, role) =>
+          CAMPAIGN_ROLE_RANK[role] > CAMPAIGN_ROLE_RANK[best] ? role : best
+        )
+      : null,
+  };
+};
+
+/**
+ * Procedure scoped to a single campaign. Reads the campaign ID from the given
+ * input field, requires at least `minRole` on it and exposes the campaign and
+ * the caller's role as `ctx.campaign` / `ctx.campaignRole`.
+ */
+export const campaignProcedure = (
+  minRole: CampaignUserRole = 'VIEWER',
+  inputKey: 'campaignId' | 'id' = 'campaignId'
+) =>
+  protectedProcedure.use(async ({ ctx, getRawInput, next }) => {
+    const rawInput = (await getRawInput()) as Record<string, unknown> | null;
+    const campaignId = rawInput?.[inputKey];
+
+    if (typeof campaignId !== 'string' || campaignId.length === 0) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Campaign ID is required',
+      });
+    }
+
+    if (ctx.apiKey?.campaignIds && !ctx.apiKey.campaignIds.includes(campaignId)) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'This API key does not cover this campaign',
+      });
+    }
+
+    const access = await resolveCampaignAccess(ctx.user, campaignId);
+
+    if (!access) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Campaign not found',
+      });
+    }
+
+    if (
+      !access.role ||
+      CAMPAIGN_ROLE_RANK[access.role] < CAMPAIGN_ROLE_RANK[minRole]
+    ) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message:
+          minRole === 'ADMIN'
+            ? 'Campaign admin access required'
+            : 'You do not have access to this campaign',
+      });
+    }
+    // Campaign-limited keys were checked above, so only 2FA applies here
+    if (minRole === 'ADMIN' || access.role === 'ADMIN') {
+      assertTwoFactorSatisfied(ctx.user);
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        campaign: access.campaign,
+        campaignRole: access.role,
+      },
+    });
+  });
@@ -0,0 +1,146 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const REDACTED = '[REDACTED]';
+// Input fields whose values never reach the audit log
+const SENSITIVE_KEY_PATTERN =
+  /password|token|secret|^code$|^key$|apikey|credential|privatekey/i;
+// Long free-text values (keyword lists, article bodies) are cut down
+const MAX_STRING_LENGTH = 1000;
+const MAX_DEPTH = 6;
+
+/**
+ * Collects details a procedure wants on its audit entry beyond what the
+ * middleware can read from the input, e.g. the before/after of an update.
+ */
+export class AuditRecorder {
+  readonly targetIds = new Set<string>();
+  changes: Record<string, unknown> | null = null;
+
+  addTargets(...ids: Array<string | null | undefined>) {
+    for (const id of ids) {
+      if (id) this.targetIds.add(id);
+    }
+  }
+
+  recordChanges(changes: Record<string, unknown>) {
+    this.changes = { ...(this.changes || {}), ...changes };
+  }
+}
+
+export const redactAuditValue = (value: unknown, depth = 0): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactAuditValue(item, depth + 1));
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    redacted[key] = SENSITIVE_KEY_PATTERN.test(key)
+      ? REDACTED
+      : redactAuditValue(entry, depth + 1);
+  }
+  return redacted;
+};
+
+// IDs named by the input: `id`, `*Id` and `*Ids` fields at the top level
+const collectInputTargetIds = (input: unknown): string[] => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return [];
+  }
+
+  const ids: string[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    if (key !== 'id' && !/Ids?$/.test(key)) continue;
+    if (typeof value === 'string') {
+      ids.push(value);
+    } else if (Array.isArray(value)) {
+      ids.push(...value.filter((item): item is string => typeof item === 'string'));
+    }
+  }
+  return ids;
+};
+
+/**
+ * Compare two records field by field and return `{ field: { from, to } }`
+ * for the fields that differ
+ */
+export const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, { from: unknown; to: unknown }> => {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of Object.keys(after)) {
+    if (after[key] === undefined) continue;
+    const from = before[key] instanceof Date ? (before[key] as Date).toISOString() : before[key];
+    const to = after[key] instanceof Date ? (after[key] as Date).toISOString() : after[key];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+};
+
+export const writeAuditLog = async (entry: {
+  actor?: { id: string; email: string } | null;
+  apiKeyId?: string | null;
+  procedure: string;
+  input: unknown;
+  result?: unknown;
+  recorder: AuditRecorder;
+  ok: boolean;
+  errorCode?: string | null;
+  client: { ipAddress: string | null; userAgent: string | null };
+}): Promise<void> => {
+  const targetIds = new Set([
+    ...collectInputTargetIds(entry.input),
+    ...entry.recorder.targetIds,
+  ]);
+  const resultId = (entry.result as { id?: unknown } | null | undefined)?.id;
+  if (entry.ok && typeof resultId === 'string') {
+    targetIds.add(resultId);
+  }
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        actorId: entry.actor?.id || null,
+        actorEmail: entry.actor?.email || null,
+        apiKeyId: entry.apiKeyId || null,
+        procedure: entry.procedure,
+        targetIds: [...targetIds],
+        input:
+          entry.input === undefined
+            ? Prisma.JsonNull
+            : (redactAuditValue(entry.input) as Prisma.InputJsonValue),
+        changes: entry.recorder.changes
+          ? (redactAuditValue(entry.recorder.changes) as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        status: entry.ok ? 'SUCCESS' : 'FAILURE',
+        errorCode: entry.errorCode || null,
+        ipAddress: entry.client.ipAddress,
+        userAgent: entry.client.userAgent,
+      },
+    });
+  } catch (error) {
+    // Losing an audit entry must not fail the request it describes
+    console.error('Failed to write audit log entry:', error);
+  }
+};
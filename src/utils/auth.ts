@@ -1,9 +1,38 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { PrismaClient, ApiKeyScope } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+const REFRESH_TOKEN_TTL_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_TTL_DAYS || '30',
+  10
+);
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(
+  process.env.PASSWORD_RESET_TTL_MINUTES || '60',
+  10
+);
+
+export interface SessionMeta {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// Prefix that tells API keys apart from JWTs in the Authorization header
+export const API_KEY_PREFIX = 'rk_';
+
+// Don't write lastUsedAt more often than this for a busy key
+const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  refreshTokenExpiresAt: Date;
+}
+
 export const hashPassword = async (password: string): Promise<string> => {
   return await bcrypt.hash(password, 12);
 };
@@ -15,40 +44,340 @@ export const comparePassword = async (
   return await bcrypt.compare(password, hashedPassword);
 };
 
-export const generateToken = (userId: string): string => {
+// Opaque tokens are random, so a fast hash is enough to keep them out of the DB
+const hashOpaqueToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const createOpaqueToken = (): string =>
+  crypto.randomBytes(48).toString('base64url');
+
+const refreshTokenExpiry = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const generateToken = (userId: string, sessionId: string): string => {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
     throw new Error('JWT_SECRET is not defined');
   }
-  return jwt.sign({ userId }, secret, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+  return jwt.sign({ userId, sessionId }, secret, {
+    expiresIn: process.env.JWT_ACCESS_EXPIRES_IN || '15m',
   } as jwt.SignOptions);
 };
 
-export const verifyToken = (token: string): { userId: string } => {
+export const verifyToken = (
+  token: string
+): { userId: string; sessionId?: string } => {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
     throw new Error('JWT_SECRET is not defined');
   }
-  return jwt.verify(token, secret) as { userId: string };
+  return jwt.verify(token, secret) as { userId: string; sessionId?: string };
+};
+
+/**
+ * Open a new login session and issue its first access/refresh token pair
+ */
+export const createSession = async (
+  userId: string,
+  meta: SessionMeta = {}
+): Promise<SessionTokens> => {
+  const refreshToken = createOpaqueToken();
+  const refreshTokenExpiresAt = refreshTokenExpiry();
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      refreshTokenHash: hashOpaqueToken(refreshToken),
+      userAgent: meta.userAgent || null,
+      ipAddress: meta.ipAddress || null,
+      expiresAt: refreshTokenExpiresAt,
+    },
+  });
+
+  return {
+    token: generateToken(userId, session.id),
+    refreshToken,
+    sessionId: session.id,
+    refreshTokenExpiresAt,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. The presented refresh token
+ * is retired; presenting any retired token of a session again revokes the
+ * whole session, since it means the token was copied.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  meta: SessionMeta = {}
+): Promise<SessionTokens | null> => {
+  const tokenHash = hashOpaqueToken(refreshToken);
+
+  const retired = await prisma.retiredRefreshToken.findUnique({
+    where: { tokenHash },
+    select: { sessionId: true },
+  });
+  if (retired) {
+    await revokeSession(retired.sessionId);
+    return null;
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: { user: { select: { status: true } } },
+  });
+
+  if (
+    !session ||
+    session.revokedAt ||
+    session.expiresAt < new Date() ||
+    session.user.status !== 'ACTIVE'
+  ) {
+    return null;
+  }
+
+  const nextRefreshToken = createOpaqueToken();
+  const refreshTokenExpiresAt = refreshTokenExpiry();
+
+  // Claim the token atomically: of two concurrent refreshes with the same
+  // token only one matches, and the other is treated as reuse
+  const claimed = await prisma.$transaction(async (tx) => {
+    const result = await tx.userSession.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashOpaqueToken(nextRefreshToken),
+        expiresAt: refreshTokenExpiresAt,
+        lastUsedAt: new Date(),
+        ipAddress: meta.ipAddress || session.ipAddress,
+        userAgent: meta.userAgent || session.userAgent,
+      },
+    });
+    if (result.count !== 1) {
+      return false;
+    }
+    await tx.retiredRefreshToken.create({
+      data: { sessionId: session.id, tokenHash },
+    });
+    return true;
+  });
+  if (!claimed) {
+    await revokeSession(session.id);
+    return null;
+  }
+
+  return {
+    token: generateToken(session.userId, session.id),
+    refreshToken: nextRefreshToken,
+    sessionId: session.id,
+    refreshTokenExpiresAt,
+  };
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Revoke every open session of a user, optionally keeping the current one
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+};
+
+/**
+ * Issue a password reset token for a user. Any earlier unused tokens are
+ * invalidated so only the most recent emailed link works.
+ */
+export const createPasswordResetToken = async (
+  userId: string
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = createOpaqueToken();
+  const expiresAt = new Date(
+    Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+  );
+
+  await prisma.passwordResetToken.updateMany({
+    where: { userId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  await prisma.passwordResetToken.create({
+    data: {
+      userId,
+      tokenHash: hashOpaqueToken(token),
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+};
+
+/**
+ * Mark a password reset token as used and return its user ID, or null when
+ * the token is unknown, expired or already used
+ */
+export const consumePasswordResetToken = async (
+  token: string
+): Promise<string | null> => {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashOpaqueToken(token) },
+  });
+
+  if (!resetToken || resetToken.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Conditional update so two concurrent requests cannot both use the token
+  const claimed = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return claimed.count === 1 ? resetToken.userId : null;
+};
+
+/**
+ * Create a personal API key. The plain key is returned once; afterwards only
+ * its hash and display prefix are known.
+ */
+export const createApiKey = async (
+  userId: string,
+  options: {
+    name: string;
+    scope: ApiKeyScope;
+    campaignIds?: string[];
+    expiresAt?: Date | null;
+  }
+) => {
+  const key = `${API_KEY_PREFIX}${createOpaqueToken()}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: options.name,
+      scope: options.scope,
+      keyPrefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashOpaqueToken(key),
+      expiresAt: options.expiresAt || null,
+      allCampaigns: !options.campaignIds?.length,
+      campaigns: {
+        create: (options.campaignIds || []).map((campaignId) => ({
+          campaignId,
+        })),
+      },
+    },
+  });
+
+  return { key, apiKey };
+};
+
+const authUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  status: true,
+  hasChangedPassword: true,
+  createdAt: true,
+  twoFactorEnabled: true,
+  twoFactorRequired: true,
+} as const;
+
+/**
+ * Resolve an API key to its owner and the limits of the key, recording the
+ * use. Revoked or expired keys and inactive owners resolve to null.
+ */
+export const getUserFromApiKey = async (key: string) => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashOpaqueToken(key) },
+    include: {
+      user: { select: authUserSelect },
+      campaigns: { select: { campaignId: true } },
+    },
+  });
+
+  if (
+    !apiKey ||
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt < new Date()) ||
+    apiKey.user.status !== 'ACTIVE'
+  ) {
+    return null;
+  }
+
+  const now = new Date();
+  await prisma.apiKey.updateMany({
+    where: {
+      id: apiKey.id,
+      OR: [
+        { lastUsedAt: null },
+        {
+          lastUsedAt: {
+            lt: new Date(now.getTime() - API_KEY_LAST_USED_RESOLUTION_MS),
+          },
+        },
+      ],
+    },
+    data: { lastUsedAt: now },
+  });
+
+  return {
+    ...apiKey.user,
+    apiKey: {
+      id: apiKey.id,
+      scope: apiKey.scope,
+      // A limited key whose campaigns were all deleted reaches nothing
+      campaignIds: apiKey.allCampaigns
+        ? null
+        : apiKey.campaigns.map((campaign) => campaign.campaignId),
+    },
+  };
 };
 
 export const getUserFromToken = async (token: string) => {
   try {
     const decoded = verifyToken(token);
+    // Tokens issued before sessions existed cannot be revoked, so refuse them
+    if (!decoded.sessionId) {
+      return null;
+    }
+
+    const session = await prisma.userSession.findUnique({
+      where: { id: decoded.sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+    if (
+      !session ||
+      session.userId !== decoded.userId ||
+      session.revokedAt ||
+      session.expiresAt < new Date()
+    ) {
+      return null;
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        status: true,
-        hasChangedPassword: true,
-        createdAt: true,
-      },
+      select: authUserSelect,
     });
-    return user;
+    if (!user || user.status !== 'ACTIVE') {
+      return null;
+    }
+
+    return { ...user, sessionId: decoded.sessionId };
   } catch (error) {
     return null;
   }
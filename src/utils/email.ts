@@ -136,3 +136,470 @@ export const sendTestEmail = async (email: string) => {
     throw new Error('Failed to send test email');
   }
 };
+
+// Localized copy for the password reset email, keyed by UserSettings.systemLanguage
+const passwordResetCopy: Record<
+  string,
+  {
+    dir: 'ltr' | 'rtl';
+    subject: string;
+    greeting: (name: string) => string;
+    intro: string;
+    button: string;
+    expiry: (minutes: number) => string;
+    ignore: string;
+    copyLink: string;
+    signature: string;
+  }
+> = {
+  en: {
+    dir: 'ltr',
+    subject: 'Rankify - Reset Your Password',
+    greeting: (name) => `Hello ${name},`,
+    intro: 'We received a request to reset the password for your Rankify account.',
+    button: 'Reset Password',
+    expiry: (minutes) => `This link can be used once and expires in ${minutes} minutes.`,
+    ignore: "If you didn't request a password reset, you can safely ignore this email.",
+    copyLink: 'Or copy and paste this link:',
+    signature: 'Best regards,<br>The Rankify Team',
+  },
+  he: {
+    dir: 'rtl',
+    subject: 'Rankify - איפוס סיסמה',
+    greeting: (name) => `שלום ${name},`,
+    intro: 'קיבלנו בקשה לאיפוס הסיסמה של חשבון Rankify שלך.',
+    button: 'איפוס סיסמה',
+    expiry: (minutes) => `ניתן להשתמש בקישור פעם אחת בלבד, והוא יפוג בעוד ${minutes} דקות.`,
+    ignore: 'אם לא ביקשת לאפס את הסיסמה, ניתן להתעלם מהודעה זו.',
+    copyLink: 'או העתק והדבק את הקישור:',
+    signature: 'בברכה,<br>צוות Rankify',
+  },
+};
+
+export const sendPasswordResetEmail = async (
+  email: string,
+  name: string,
+  resetToken: string,
+  expiresInMinutes: number,
+  language: string = 'en'
+) => {
+  try {
+    const transporter = createTransporter();
+    const copy = passwordResetCopy[language] || passwordResetCopy.en;
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const resetUrl = `${frontendUrl}/reset-password?token=${encodeURIComponent(
+      resetToken
+    )}`;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || '"Rankify Team" <noreply@rankify.com>',
+      to: email,
+      subject: copy.subject,
+      html: `
+        <div dir="${copy.dir}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8b5cf6;">${copy.subject}</h2>
+          <p>${copy.greeting(name)}</p>
+          <p>${copy.intro}</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}" style="background-color: #8b5cf6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${copy.button}
+            </a>
+          </div>
+          <p style="text-align: center; color: #666; font-size: 14px;">
+            ${copy.copyLink} <a href="${resetUrl}" style="color: #8b5cf6;">${resetUrl}</a>
+          </p>
+          <p>${copy.expiry(expiresInMinutes)}</p>
+          <p>${copy.ignore}</p>
+          <p>${copy.signature}</p>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+
+    console.log('Password reset email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    throw new Error('Failed to send password reset email');
+  }
+};
+
+// Localized copy for campaign invitations, keyed by UserSettings.systemLanguage
+const campaignInviteCopy: Record<
+  string,
+  {
+    dir: 'ltr' | 'rtl';
+    subject: (campaignName: string) => string;
+    intro: (inviterName: string, campaignName: string) => string;
+    role: (role: string) => string;
+    button: string;
+    expiry: (days: number) => string;
+    ignore: string;
+    copyLink: string;
+    signature: string;
+  }
+> = {
+  en: {
+    dir: 'ltr',
+    subject: (campaignName) => `Rankify - You're invited to ${campaignName}`,
+    intro: (inviterName, campaignName) =>
+      `${inviterName} has invited you to join the <strong>${campaignName}</strong> campaign on Rankify.`,
+    role: (role) => `You will join as: <strong>${role === 'ADMIN' ? 'Admin' : 'Viewer'}</strong>`,
+    button: 'Accept Invitation',
+    expiry: (days) => `This invitation expires in ${days} day${days === 1 ? '' : 's'}.`,
+    ignore: "If you weren't expecting this invitation, you can safely ignore this email.",
+    copyLink: 'Or copy and paste this link:',
+    signature: 'Best regards,<br>The Rankify Team',
+  },
+  he: {
+    dir: 'rtl',
+    subject: (campaignName) => `Rankify - הזמנה לקמפיין ${campaignName}`,
+    intro: (inviterName, campaignName) =>
+      `${inviterName} הזמין/ה אותך להצטרף לקמפיין <strong>${campaignName}</strong> ב-Rankify.`,
+    role: (role) => `התפקיד שלך: <strong>${role === 'ADMIN' ? 'מנהל' : 'צופה'}</strong>`,
+    button: 'קבלת ההזמנה',
+    expiry: (days) => `תוקף ההזמנה יפוג בעוד ${days} ימים.`,
+    ignore: 'אם לא ציפית להזמנה זו, ניתן להתעלם מהודעה זו.',
+    copyLink: 'או העתק והדבק את הקישור:',
+    signature: 'בברכה,<br>צוות Rankify',
+  },
+};
+
+export const sendCampaignInviteEmail = async (
+  email: string,
+  inviterName: string,
+  campaignName: string,
+  role: string,
+  inviteToken: string,
+  expiresInDays: number,
+  language: string = 'en'
+) => {
+  try {
+    const transporter = createTransporter();
+    const copy = campaignInviteCopy[language] || campaignInviteCopy.en;
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const inviteUrl = `${frontendUrl}/accept-invite?token=${encodeURIComponent(
+      inviteToken
+    )}`;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || '"Rankify Team" <noreply@rankify.com>',
+      to: email,
+      subject: copy.subject(campaignName),
+      html: `
+        <div dir="${copy.dir}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8b5cf6;">${copy.subject(campaignName)}</h2>
+          <p>${copy.intro(inviterName, campaignName)}</p>
+          <p>${copy.role(role)}</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${inviteUrl}" style="background-color: #8b5cf6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${copy.button}
+            </a>
+          </div>
+          <p style="text-align: center; color: #666; font-size: 14px;">
+            ${copy.copyLink} <a href="${inviteUrl}" style="color: #8b5cf6;">${inviteUrl}</a>
+          </p>
+          <p>${copy.expiry(expiresInDays)}</p>
+          <p>${copy.ignore}</p>
+          <p>${copy.signature}</p>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+
+    console.log('Campaign invite email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending campaign invite email:', error);
+    throw new Error('Failed to send campaign invite email');
+  }
+};
+
+// Localized copy for workspace invitations, keyed by UserSettings.systemLanguage
+const workspaceInviteCopy: Record<
+  string,
+  {
+    dir: 'ltr' | 'rtl';
+    subject: (workspaceName: string) => string;
+    intro: (inviterName: string, workspaceName: string) => string;
+    role: (role: string) => string;
+    button: string;
+    expiry: (days: number) => string;
+    ignore: string;
+    copyLink: string;
+    signature: string;
+  }
+> = {
+  en: {
+    dir: 'ltr',
+    subject: (workspaceName) => `Rankify - You're invited to ${workspaceName}`,
+    intro: (inviterName, workspaceName) =>
+      `${inviterName} has invited you to join the <strong>${workspaceName}</strong> workspace on Rankify.`,
+    role: (role) => `You will join as: <strong>${role === 'ADMIN' ? 'Admin' : 'Member'}</strong>`,
+    button: 'Accept Invitation',
+    expiry: (days) => `This invitation expires in ${days} day${days === 1 ? '' : 's'}.`,
+    ignore: "If you weren't expecting this invitation, you can safely ignore this email.",
+    copyLink: 'Or copy and paste this link:',
+    signature: 'Best regards,<br>The Rankify Team',
+  },
+  he: {
+    dir: 'rtl',
+    subject: (workspaceName) => `Rankify - הזמנה לסביבת העבודה ${workspaceName}`,
+    intro: (inviterName, workspaceName) =>
+      `${inviterName} הזמין/ה אותך להצטרף לסביבת העבודה <strong>${workspaceName}</strong> ב-Rankify.`,
+    role: (role) => `התפקיד שלך: <strong>${role === 'ADMIN' ? 'מנהל' : 'חבר'}</strong>`,
+    button: 'קבלת ההזמנה',
+    expiry: (days) => `תוקף ההזמנה יפוג בעוד ${days} ימים.`,
+    ignore: 'אם לא ציפית להזמנה זו, ניתן להתעלם מהודעה זו.',
+    copyLink: 'או העתק והדבק את הקישור:',
+    signature: 'בברכה,<br>צוות Rankify',
+  },
+};
+
+export const sendWorkspaceInviteEmail = async (
+  email: string,
+  inviterName: string,
+  workspaceName: string,
+  role: string,
+  inviteToken: string,
+  expiresInDays: number,
+  language: string = 'en'
+) => {
+  try {
+    const transporter = createTransporter();
+    const copy = workspaceInviteCopy[language] || workspaceInviteCopy.en;
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const inviteUrl = `${frontendUrl}/accept-workspace-invite?token=${encodeURIComponent(
+      inviteToken
+    )}`;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || '"Rankify Team" <noreply@rankify.com>',
+      to: email,
+      subject: copy.subject(workspaceName),
+      html: `
+        <div dir="${copy.dir}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8b5cf6;">${copy.subject(workspaceName)}</h2>
+          <p>${copy.intro(inviterName, workspaceName)}</p>
+          <p>${copy.role(role)}</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${inviteUrl}" style="background-color: #8b5cf6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${copy.button}
+            </a>
+          </div>
+          <p style="text-align: center; color: #666; font-size: 14px;">
+            ${copy.copyLink} <a href="${inviteUrl}" style="color: #8b5cf6;">${inviteUrl}</a>
+          </p>
+          <p>${copy.expiry(expiresInDays)}</p>
+          <p>${copy.ignore}</p>
+          <p>${copy.signature}</p>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+
+    console.log('Workspace invite email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending workspace invite email:', error);
+    throw new Error('Failed to send workspace invite email');
+  }
+};
+
+// Localized copy for broken Google account alerts, keyed by UserSettings.systemLanguage
+const googleAccountAlertCopy: Record<
+  string,
+  {
+    dir: 'ltr' | 'rtl';
+    subject: (accountEmail: string) => string;
+    intro: (accountEmail: string) => string;
+    reason: (errorClass: string) => string;
+    campaigns: (count: number) => string;
+    button: string;
+    expiry: string;
+    copyLink: string;
+    signature: string;
+  }
+> = {
+  en: {
+    dir: 'ltr',
+    subject: (accountEmail) => `Rankify - Google account ${accountEmail} needs attention`,
+    intro: (accountEmail) =>
+      `Rankify can no longer access Search Console through <strong>${accountEmail}</strong>.`,
+    reason: (errorClass) =>
+      errorClass === 'INSUFFICIENT_SCOPE'
+        ? 'The account no longer grants the permissions Rankify needs.'
+        : 'Access to the account was revoked or has expired.',
+    campaigns: (count) =>
+      `${count} campaign${count === 1 ? '' : 's'} using this account will not update until it is reconnected:`,
+    button: 'Reconnect Google Account',
+    expiry: 'This link is valid for 24 hours. You can also reconnect from the Google accounts page.',
+    copyLink: 'Or copy and paste this link:',
+    signature: 'Best regards,<br>The Rankify Team',
+  },
+  he: {
+    dir: 'rtl',
+    subject: (accountEmail) => `Rankify - חשבון Google ${accountEmail} דורש טיפול`,
+    intro: (accountEmail) =>
+      `ל-Rankify אין יותר גישה ל-Search Console דרך <strong>${accountEmail}</strong>.`,
+    reason: (errorClass) =>
+      errorClass === 'INSUFFICIENT_SCOPE'
+        ? 'החשבון אינו מעניק עוד את ההרשאות הנדרשות.'
+        : 'הגישה לחשבון בוטלה או פגה.',
+    campaigns: (count) =>
+      `${count} קמפיינים המשתמשים בחשבון זה לא יתעדכנו עד לחיבור מחדש:`,
+    button: 'חיבור מחדש של חשבון Google',
+    expiry: 'הקישור תקף ל-24 שעות. ניתן גם להתחבר מחדש מעמוד חשבונות Google.',
+    copyLink: 'או העתק והדבק את הקישור:',
+    signature: 'בברכה,<br>צוות Rankify',
+  },
+};
+
+export const sendGoogleAccountAlertEmail = async (
+  email: string,
+  accountEmail: string,
+  errorClass: string,
+  campaignNames: string[],
+  reauthUrl: string,
+  language: string = 'en'
+) => {
+  try {
+    const transporter = createTransporter();
+    const copy = googleAccountAlertCopy[language] || googleAccountAlertCopy.en;
+
+    const campaignList = campaignNames.length
+      ? `<p>${copy.campaigns(campaignNames.length)}</p><ul>${campaignNames
+          .map((name) => `<li>${name}</li>`)
+          .join('')}</ul>`
+      : '';
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || '"Rankify Team" <noreply@rankify.com>',
+      to: email,
+      subject: copy.subject(accountEmail),
+      html: `
+        <div dir="${copy.dir}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8b5cf6;">${copy.subject(accountEmail)}</h2>
+          <p>${copy.intro(accountEmail)}</p>
+          <p>${copy.reason(errorClass)}</p>
+          ${campaignList}
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${reauthUrl}" style="background-color: #8b5cf6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${copy.button}
+            </a>
+          </div>
+          <p style="text-align: center; color: #666; font-size: 14px;">
+            ${copy.copyLink} <a href="${reauthUrl}" style="color: #8b5cf6;">${reauthUrl}</a>
+          </p>
+          <p>${copy.expiry}</p>
+          <p>${copy.signature}</p>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+
+    console.log('Google account alert email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending Google account alert email:', error);
+    throw new Error('Failed to send Google account alert email');
+  }
+};
+
+// Localized copy for sitemap error alerts, keyed by UserSettings.systemLanguage
+const sitemapAlertCopy: Record<
+  string,
+  {
+    dir: 'ltr' | 'rtl';
+    subject: (siteUrl: string) => string;
+    intro: (siteUrl: string) => string;
+    errors: (errors: number, previousErrors: number) => string;
+    campaigns: (count: number) => string;
+    button: string;
+    signature: string;
+  }
+> = {
+  en: {
+    dir: 'ltr',
+    subject: (siteUrl) => `Rankify - Sitemap errors on ${siteUrl}`,
+    intro: (siteUrl) =>
+      `Search Console reports new sitemap errors for <strong>${siteUrl}</strong>:`,
+    errors: (errors, previousErrors) =>
+      `${errors} error${errors === 1 ? '' : 's'} (was ${previousErrors})`,
+    campaigns: (count) =>
+      `${count} campaign${count === 1 ? '' : 's'} track${count === 1 ? 's' : ''} this property:`,
+    button: 'Open Campaign Dashboard',
+    signature: 'Best regards,<br>The Rankify Team',
+  },
+  he: {
+    dir: 'rtl',
+    subject: (siteUrl) => `Rankify - שגיאות במפת האתר של ${siteUrl}`,
+    intro: (siteUrl) =>
+      `Search Console מדווח על שגיאות חדשות במפות האתר של <strong>${siteUrl}</strong>:`,
+    errors: (errors, previousErrors) => `${errors} שגיאות (לפני כן ${previousErrors})`,
+    campaigns: (count) => `${count} קמפיינים עוקבים אחר נכס זה:`,
+    button: 'פתיחת לוח הבקרה של הקמפיין',
+    signature: 'בברכה,<br>צוות Rankify',
+  },
+};
+
+export const sendSitemapAlertEmail = async (
+  email: string,
+  siteUrl: string,
+  sitemaps: { path: string; errors: number; previousErrors: number }[],
+  campaignNames: string[],
+  dashboardUrl: string,
+  language: string = 'en'
+) => {
+  try {
+    const transporter = createTransporter();
+    const copy = sitemapAlertCopy[language] || sitemapAlertCopy.en;
+
+    const sitemapList = `<ul>${sitemaps
+      .map(
+        (sitemap) =>
+          `<li>${sitemap.path}: ${copy.errors(sitemap.errors, sitemap.previousErrors)}</li>`
+      )
+      .join('')}</ul>`;
+    const campaignList = campaignNames.length
+      ? `<p>${copy.campaigns(campaignNames.length)}</p><ul>${campaignNames
+          .map((name) => `<li>${name}</li>`)
+          .join('')}</ul>`
+      : '';
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || '"Rankify Team" <noreply@rankify.com>',
+      to: email,
+      subject: copy.subject(siteUrl),
+      html: `
+        <div dir="${copy.dir}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #8b5cf6;">${copy.subject(siteUrl)}</h2>
+          <p>${copy.intro(siteUrl)}</p>
+          ${sitemapList}
+          ${campaignList}
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${dashboardUrl}" style="background-color: #8b5cf6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${copy.button}
+            </a>
+          </div>
+          <p>${copy.signature}</p>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+
+    console.log('Sitemap alert email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending sitemap alert email:', error);
+    throw new Error('Failed to send sitemap alert email');
+  }
+};
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { google, Auth } from 'googleapis';
+import { PrismaClient } from '@prisma/client';
+import { decryptSecret, encryptSecret } from './tokenEncryption';
+
+const prisma = new PrismaClient();
+
+// How long an admin has to finish the Google consent screen
+const STATE_TTL_MINUTES = 10;
+
+// Scopes needed for Google Search Console API
+export const GOOGLE_OAUTH_SCOPES = [
+  'https://www.googleapis.com/auth/webmasters',
+  'https://www.googleapis.com/auth/webmasters.readonly',
+  'https://www.googleapis.com/auth/userinfo.email',
+  'https://www.googleapis.com/auth/userinfo.profile',
+];
+
+// Error codes sent to the frontend when a connect flow fails
+export type GoogleOAuthErrorCode =
+  | 'oauth_denied'
+  | 'missing_code'
+  | 'invalid_state'
+  | 'state_expired'
+  | 'state_used'
+  | 'wrong_user'
+  | 'missing_refresh_token'
+  | 'account_in_other_workspace'
+  | 'oauth_failed';
+
+export class GoogleOAuthFlowError extends Error {
+  constructor(public readonly code: GoogleOAuthErrorCode) {
+    super(`Google OAuth flow failed: ${code}`);
+    this.name = 'GoogleOAuthFlowError';
+  }
+}
+
+export const createGoogleOAuthClient = () =>
+  new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI ||
+      'http://localhost:3001/auth/google/callback'
+  );
+
+// Only a hash of the state is stored, like other opaque tokens
+const hashState = (state: string): string =>
+  crypto.createHash('sha256').update(state).digest('hex');
+
+/**
+ * Start a connect flow: store a single-use state bound to the admin and
+ * workspace, with a PKCE code verifier, and return the Google consent URL
+ * connecting (or reconnecting) a Search Console account
+ */
+export const createGoogleOAuthUrl = async (
+  workspaceId: string,
+  userId: string,
+  ttlMinutes: number = STATE_TTL_MINUTES
+): Promise<string> => {
+  // Drop finished and expired flows
+  await prisma.googleOAuthState.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: new Date() } }, { completedAt: { not: null } }],
+    },
+  });
+
+  const oauth2Client = createGoogleOAuthClient();
+  const state = crypto.randomBytes(32).toString('base64url');
+  const { codeVerifier, codeChallenge } =
+    await oauth2Client.generateCodeVerifierAsync();
+
+  await prisma.googleOAuthState.create({
+    data: {
+      stateHash: hashState(state),
+      userId,
+      workspaceId,
+      codeVerifier: encryptSecret(codeVerifier),
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    },
+  });
+
+  return oauth2Client.generateAuthUrl({
+    access_type: 'offline',
+    scope: GOOGLE_OAUTH_SCOPES,
+    prompt: 'consent', // Force consent to get refresh token
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: Auth.CodeChallengeMethod.S256,
+  });
+};
+
+/**
+ * Accept Google's redirect for a state: check it exists, is unexpired and
+ * has not been used, then keep the authorization code until the admin who
+ * started the flow completes it
+ */
+export const recordGoogleOAuthCallback = async (
+  state: string,
+  code: string
+): Promise<void> => {
+  const record = await prisma.googleOAuthState.findUnique({
+    where: { stateHash: hashState(state) },
+  });
+
+  if (!record) {
+    throw new GoogleOAuthFlowError('invalid_state');
+  }
+  if (record.callbackAt) {
+    throw new GoogleOAuthFlowError('state_used');
+  }
+  if (record.expiresAt < new Date()) {
+    throw new GoogleOAuthFlowError('state_expired');
+  }
+
+  const claimed = await prisma.googleOAuthState.updateMany({
+    where: { id: record.id, callbackAt: null },
+    data: { callbackAt: new Date(), authCode: encryptSecret(code) },
+  });
+  if (claimed.count === 0) {
+    throw new GoogleOAuthFlowError('state_used');
+  }
+};
+
+/**
+ * Finish a flow as the given user: only the admin who started it can, and
+ * only once. Exchanges the code with the PKCE verifier and returns the
+ * tokens with the workspace the account is connected to.
+ */
+export const completeGoogleOAuth = async (state: string, userId: string) => {
+  const record = await prisma.googleOAuthState.findUnique({
+    where: { stateHash: hashState(state) },
+  });
+
+  if (!record || !record.callbackAt || !record.authCode) {
+    throw new GoogleOAuthFlowError('invalid_state');
+  }
+  if (record.userId !== userId) {
+    throw new GoogleOAuthFlowError('wrong_user');
+  }
+  if (record.completedAt) {
+    throw new GoogleOAuthFlowError('state_used');
+  }
+  if (record.expiresAt < new Date()) {
+    throw new GoogleOAuthFlowError('state_expired');
+  }
+
+  const claimed = await prisma.googleOAuthState.updateMany({
+    where: { id: record.id, completedAt: null },
+    data: { completedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new GoogleOAuthFlowError('state_used');
+  }
+
+  const oauth2Client = createGoogleOAuthClient();
+  try {
+    const { tokens } = await oauth2Client.getToken({
+      code: decryptSecret(record.authCode),
+      codeVerifier: decryptSecret(record.codeVerifier),
+    });
+    return { tokens, workspaceId: record.workspaceId };
+  } catch (error) {
+    console.error('Google OAuth code exchange failed:', error);
+    throw new GoogleOAuthFlowError('oauth_failed');
+  }
+};
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { google } from 'googleapis';
+import { PrismaClient, User } from '@prisma/client';
+import { hashPassword } from './auth';
+
+const prisma = new PrismaClient();
+
+export type GoogleSignInErrorCode =
+  | 'INVALID_TOKEN'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'DOMAIN_NOT_ALLOWED'
+  | 'NO_ACCOUNT'
+  | 'ACCOUNT_LINKED_ELSEWHERE';
+
+export class GoogleSignInError extends Error {
+  constructor(
+    public readonly code: GoogleSignInErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GoogleSignInError';
+  }
+}
+
+export interface GoogleIdentity {
+  googleId: string;
+  email: string;
+  name: string | null;
+}
+
+export const normalizeEmailDomain = (domain: string): string =>
+  domain.trim().toLowerCase().replace(/^@/, '');
+
+const emailDomain = (email: string): string =>
+  normalizeEmailDomain(email.slice(email.lastIndexOf('@') + 1));
+
+/**
+ * Verify a Google ID token (from Google Identity Services on the frontend)
+ * against our OAuth client ID and return the identity it asserts
+ */
+export const verifyGoogleIdToken = async (
+  idToken: string
+): Promise<GoogleIdentity> => {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('GOOGLE_CLIENT_ID is not defined');
+  }
+
+  let payload;
+  try {
+    const ticket = await new google.auth.OAuth2(clientId).verifyIdToken({
+      idToken,
+      audience: clientId,
+    });
+    payload = ticket.getPayload();
+  } catch {
+    payload = undefined;
+  }
+
+  if (!payload?.sub || !payload.email) {
+    throw new GoogleSignInError('INVALID_TOKEN', 'Invalid Google sign-in');
+  }
+  // Accounts are linked by email, so an unverified address proves nothing
+  if (!payload.email_verified) {
+    throw new GoogleSignInError(
+      'EMAIL_NOT_VERIFIED',
+      'Your Google account email is not verified'
+    );
+  }
+
+  return {
+    googleId: payload.sub,
+    email: payload.email.toLowerCase(),
+    name: payload.name || null,
+  };
+};
+
+/**
+ * Find the platform user for a Google identity.
+ *
+ * - A user already linked to the Google account signs in directly.
+ * - Otherwise a user with the same (verified) email is linked to it.
+ * - Otherwise an account is created, but only for an allowed domain.
+ *
+ * When admins have configured allowed domains, emails outside them cannot
+ * sign in with Google at all. With no domains configured, only existing
+ * users can.
+ */
+export const resolveGoogleSignInUser = async (
+  identity: GoogleIdentity
+): Promise<User> => {
+  const allowedDomains = await prisma.googleSignInDomain.findMany({
+    select: { domain: true },
+  });
+  const domainAllowed = allowedDomains.some(
+    ({ domain }) => domain === emailDomain(identity.email)
+  );
+
+  if (allowedDomains.length > 0 && !domainAllowed) {
+    throw new GoogleSignInError(
+      'DOMAIN_NOT_ALLOWED',
+      'Google sign-in is not enabled for this email domain'
+    );
+  }
+
+  const linkedUser = await prisma.user.findUnique({
+    where: { googleId: identity.googleId },
+  });
+  if (linkedUser) {
+    return linkedUser;
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: identity.email },
+  });
+  if (existingUser) {
+    if (existingUser.googleId) {
+      throw new GoogleSignInError(
+        'ACCOUNT_LINKED_ELSEWHERE',
+        'This account is linked to a different Google account'
+      );
+    }
+    return prisma.user.update({
+      where: { id: existingUser.id },
+      data: { googleId: identity.googleId },
+    });
+  }
+
+  if (!domainAllowed) {
+    throw new GoogleSignInError(
+      'NO_ACCOUNT',
+      'No account exists for this email'
+    );
+  }
+
+  // Google users have no usable password until they reset it
+  return prisma.user.create({
+    data: {
+      email: identity.email,
+      name: identity.name,
+      password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+      googleId: identity.googleId,
+      role: 'USER',
+      status: 'ACTIVE',
+      hasChangedPassword: true,
+    },
+  });
+};
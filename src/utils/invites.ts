@@ -0,0 +1,186 @@
+import jwt from 'jsonwebtoken';
+import { TRPCError } from '@trpc/server';
+import { CampaignInvite, Prisma, User } from '@prisma/client';
+import { prisma } from './prisma';
+import { createSession, hashPassword, SessionMeta } from './auth';
+
+// Campaign and workspace invites share their lifecycle fields and accept
+// flow; only what the invite grants differs.
+
+const CAMPAIGN_INVITE_TTL_DAYS = parseInt(
+  process.env.CAMPAIGN_INVITE_TTL_DAYS || '7',
+  10
+);
+
+const WORKSPACE_INVITE_TTL_DAYS = parseInt(
+  process.env.WORKSPACE_INVITE_TTL_DAYS || '7',
+  10
+);
+
+export type InviteStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+
+type InviteLifecycle = Pick<CampaignInvite, 'acceptedAt' | 'revokedAt' | 'expiresAt'>;
+
+const daysFromNow = (days: number): Date =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+export const campaignInviteExpiry = (): Date =>
+  daysFromNow(CAMPAIGN_INVITE_TTL_DAYS);
+
+export const workspaceInviteExpiry = (): Date =>
+  daysFromNow(WORKSPACE_INVITE_TTL_DAYS);
+
+type InvitePurpose = 'campaign_invite' | 'workspace_invite';
+
+/**
+ * Sign the token embedded in an invite link. It only names the invite, so
+ * revoking or accepting the invite row invalidates the link as well.
+ */
+const signInviteToken = (
+  inviteId: string,
+  expiresAt: Date,
+  purpose: InvitePurpose
+): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwt.sign(
+    {
+      inviteId,
+      purpose,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    },
+    secret
+  );
+};
+
+const verifyInviteToken = (token: string, purpose: InvitePurpose): string | null => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  try {
+    const decoded = jwt.verify(token, secret) as {
+      inviteId: string;
+      purpose?: string;
+    };
+    return decoded.purpose === purpose ? decoded.inviteId : null;
+  } catch {
+    return null;
+  }
+};
+
+export const signCampaignInviteToken = (inviteId: string, expiresAt: Date) =>
+  signInviteToken(inviteId, expiresAt, 'campaign_invite');
+
+export const verifyCampaignInviteToken = (token: string) =>
+  verifyInviteToken(token, 'campaign_invite');
+
+export const signWorkspaceInviteToken = (inviteId: string, expiresAt: Date) =>
+  signInviteToken(inviteId, expiresAt, 'workspace_invite');
+
+export const verifyWorkspaceInviteToken = (token: string) =>
+  verifyInviteToken(token, 'workspace_invite');
+
+export const getInviteStatus = (invite: InviteLifecycle): InviteStatus => {
+  if (invite.acceptedAt) return 'ACCEPTED';
+  if (invite.revokedAt) return 'REVOKED';
+  if (invite.expiresAt < new Date()) return 'EXPIRED';
+  return 'PENDING';
+};
+
+const invalidInvite = () =>
+  new TRPCError({ code: 'NOT_FOUND', message: 'This invitation is invalid or has expired' });
+
+// Missing, accepted, revoked and expired invites all look the same to the caller
+export const assertPendingInvite = <T extends InviteLifecycle>(invite: T | null): T => {
+  if (!invite || getInviteStatus(invite) !== 'PENDING') {
+    throw invalidInvite();
+  }
+  return invite;
+};
+
+export interface InviteAcceptance {
+  invite: Pick<CampaignInvite, 'id' | 'email'>;
+  password?: string;
+  name?: string;
+  client: SessionMeta;
+  // Mark the invite accepted, only while it is still pending
+  claim: (tx: Prisma.TransactionClient) => Promise<Prisma.BatchPayload>;
+  // Record who accepted the invite and grant what it is for
+  join: (tx: Prisma.TransactionClient, user: User) => Promise<void>;
+}
+
+/**
+ * Accept a pending invite. An existing account with the invited email joins
+ * as it is; otherwise an account is created from the given password and
+ * signed in.
+ */
+export const acceptInvite = async ({
+  invite,
+  password,
+  name,
+  client,
+  claim,
+  join,
+}: InviteAcceptance) => {
+  const existingUser = await prisma.user.findUnique({ where: { email: invite.email } });
+  if (existingUser && existingUser.status !== 'ACTIVE') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Account is inactive' });
+  }
+  if (!existingUser && !password) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'A password is required to create your account' });
+  }
+
+  const hashedPassword = existingUser ? null : await hashPassword(password!);
+
+  const { user, created } = await prisma.$transaction(async (tx) => {
+    // Claim the invite first so two concurrent accepts cannot both succeed
+    const claimed = await claim(tx);
+    if (claimed.count === 0) {
+      throw invalidInvite();
+    }
+
+    const member =
+      existingUser ||
+      (await tx.user.create({
+        data: {
+          email: invite.email,
+          password: hashedPassword!,
+          name,
+          role: 'USER',
+          status: 'ACTIVE',
+          // The user picked this password themselves
+          hasChangedPassword: true,
+        },
+      }));
+
+    await join(tx, member);
+
+    return { user: member, created: !existingUser };
+  });
+
+  // Existing accounts sign in as usual; new ones get a session right away
+  if (!created) {
+    return { accountCreated: false as const };
+  }
+
+  const { token, refreshToken } = await createSession(user.id, client);
+
+  return {
+    accountCreated: true as const,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      status: user.status,
+      hasChangedPassword: user.hasChangedPassword,
+      createdAt: user.createdAt,
+      twoFactorEnabled: user.twoFactorEnabled,
+    },
+    token,
+    refreshToken,
+  };
+};
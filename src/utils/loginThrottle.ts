@@ -0,0 +1,148 @@
+import { PrismaClient, LoginThrottleScope } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const readIntEnv = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+// Failures allowed before each further attempt is delayed
+const BACKOFF_AFTER_ATTEMPTS = readIntEnv('LOGIN_BACKOFF_AFTER_ATTEMPTS', 3);
+const BACKOFF_BASE_SECONDS = readIntEnv('LOGIN_BACKOFF_BASE_SECONDS', 2);
+const BACKOFF_MAX_SECONDS = readIntEnv('LOGIN_BACKOFF_MAX_SECONDS', 300);
+// Failures that trigger a temporary lockout. An IP can front many users
+// (offices, NAT), so it gets a higher limit than a single account.
+const ACCOUNT_LOCKOUT_ATTEMPTS = readIntEnv('LOGIN_ACCOUNT_LOCKOUT_ATTEMPTS', 10);
+const IP_LOCKOUT_ATTEMPTS = readIntEnv('LOGIN_IP_LOCKOUT_ATTEMPTS', 50);
+const LOCKOUT_MINUTES = readIntEnv('LOGIN_LOCKOUT_MINUTES', 15);
+// Counters start over once no failure has been seen for this long
+const FAILURE_WINDOW_MINUTES = readIntEnv('LOGIN_FAILURE_WINDOW_MINUTES', 60);
+
+export interface LoginThrottleKey {
+  scope: LoginThrottleScope;
+  identifier: string;
+}
+
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+export class LoginThrottledError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(
+      `Too many failed login attempts. Please try again in ${formatWait(
+        retryAfterSeconds
+      )}.`
+    );
+    this.name = 'LoginThrottledError';
+  }
+}
+
+/**
+ * Throttle keys for a login attempt: the email being tried and, when known,
+ * the client IP it came from. Unknown emails are tracked too, so the
+ * response never reveals whether an account exists.
+ */
+export const loginThrottleKeys = (
+  email: string,
+  ipAddress?: string | null
+): LoginThrottleKey[] => {
+  const keys: LoginThrottleKey[] = [
+    { scope: 'ACCOUNT', identifier: email.trim().toLowerCase() },
+  ];
+  if (ipAddress) {
+    keys.push({ scope: 'IP', identifier: ipAddress });
+  }
+  return keys;
+};
+
+/**
+ * Throw LoginThrottledError if any of the keys is currently blocked
+ */
+export const assertLoginAllowed = async (
+  keys: LoginThrottleKey[]
+): Promise<void> => {
+  const now = new Date();
+  const blocked = await prisma.loginThrottle.findMany({
+    where: {
+      OR: keys.map((key) => ({ scope: key.scope, identifier: key.identifier })),
+      blockedUntil: { gt: now },
+    },
+    select: { blockedUntil: true },
+  });
+
+  if (blocked.length === 0) {
+    return;
+  }
+
+  const until = Math.max(...blocked.map((row) => row.blockedUntil!.getTime()));
+  throw new LoginThrottledError(Math.ceil((until - now.getTime()) / 1000));
+};
+
+const lockoutThreshold = (scope: LoginThrottleScope): number =>
+  scope === 'ACCOUNT' ? ACCOUNT_LOCKOUT_ATTEMPTS : IP_LOCKOUT_ATTEMPTS;
+
+/**
+ * Count a failed attempt against every key, blocking keys that have crossed
+ * the backoff or lockout thresholds
+ */
+export const recordLoginFailure = async (
+  keys: LoginThrottleKey[]
+): Promise<void> => {
+  const now = new Date();
+  const windowStart = new Date(
+    now.getTime() - FAILURE_WINDOW_MINUTES * 60 * 1000
+  );
+
+  for (const key of keys) {
+    // Forget failures that are older than the window
+    await prisma.loginThrottle.updateMany({
+      where: { ...key, lastFailedAt: { lt: windowStart } },
+      data: { failedAttempts: 0, lockedAt: null },
+    });
+
+    const record = await prisma.loginThrottle.upsert({
+      where: { scope_identifier: key },
+      create: { ...key, failedAttempts: 1, lastFailedAt: now },
+      update: { failedAttempts: { increment: 1 }, lastFailedAt: now },
+    });
+
+    let blockedUntil: Date | null = null;
+    let lockedAt: Date | null = record.lockedAt;
+
+    if (record.failedAttempts >= lockoutThreshold(key.scope)) {
+      blockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+      lockedAt = now;
+    } else if (record.failedAttempts >= BACKOFF_AFTER_ATTEMPTS) {
+      const exponent = record.failedAttempts - BACKOFF_AFTER_ATTEMPTS;
+      const delaySeconds = Math.min(
+        BACKOFF_BASE_SECONDS * 2 ** exponent,
+        BACKOFF_MAX_SECONDS
+      );
+      blockedUntil = new Date(now.getTime() + delaySeconds * 1000);
+    }
+
+    if (blockedUntil) {
+      await prisma.loginThrottle.update({
+        where: { id: record.id },
+        data: { blockedUntil, lockedAt },
+      });
+    }
+  }
+};
+
+/**
+ * Reset the failure counter of an account after a completed login
+ */
+export const clearAccountLoginFailures = async (
+  email: string
+): Promise<void> => {
+  await prisma.loginThrottle.deleteMany({
+    where: { scope: 'ACCOUNT', identifier: email.trim().toLowerCase() },
+  });
+};
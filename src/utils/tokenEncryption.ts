@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+
+// Stored format: enc:v1:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+// Each value gets its own random data key, which is encrypted ("wrapped")
+// with the master key named by keyId. All parts are base64url.
+const ENVELOPE_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Master keys from TOKEN_ENCRYPTION_KEYS: a comma separated list of
+ * `<keyId>:<base64 32-byte key>`. The first key encrypts new values; the
+ * others are only used to decrypt values written before a rotation.
+ */
+const loadMasterKeys = (): MasterKey[] => {
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!raw) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not defined');
+  }
+
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(
+          'TOKEN_ENCRYPTION_KEYS entries must look like <keyId>:<base64 32-byte key>'
+        );
+      }
+      return { id, key };
+    });
+};
+
+let masterKeys: MasterKey[] | null = null;
+const getMasterKeys = (): MasterKey[] => {
+  if (!masterKeys) {
+    masterKeys = loadMasterKeys();
+  }
+  return masterKeys;
+};
+
+const seal = (key: Buffer, plaintext: Buffer) => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+export const isEncryptedSecret = (value: string): boolean =>
+  value.startsWith(ENVELOPE_PREFIX);
+
+export const encryptSecret = (plaintext: string): string => {
+  const [primary] = getMasterKeys();
+  const dataKey = crypto.randomBytes(32);
+
+  const wrapped = seal(primary.key, dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return (
+    ENVELOPE_PREFIX +
+    [
+      primary.id,
+      Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString('base64url'),
+      sealed.iv.toString('base64url'),
+      sealed.tag.toString('base64url'),
+      sealed.ciphertext.toString('base64url'),
+    ].join(':')
+  );
+};
+
+/**
+ * Decrypt a value written by encryptSecret. Values stored before encryption
+ * was introduced are returned unchanged until they are re-encrypted.
+ */
+export const decryptSecret = (value: string): string => {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [keyId, wrappedKey, iv, tag, ciphertext] = value
+    .slice(ENVELOPE_PREFIX.length)
+    .split(':');
+  const masterKey = getMasterKeys().find((key) => key.id === keyId);
+  if (!masterKey) {
+    throw new Error(`Unknown token encryption key: ${keyId}`);
+  }
+
+  const wrapped = Buffer.from(wrappedKey, 'base64url');
+  const dataKey = open(
+    masterKey.key,
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + 16),
+    wrapped.subarray(IV_LENGTH + 16)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64url'),
+    Buffer.from(tag, 'base64url'),
+    Buffer.from(ciphertext, 'base64url')
+  ).toString('utf8');
+};
+
+// True for plaintext values and values wrapped with a retired key
+export const needsReencryption = (value: string): boolean => {
+  if (!isEncryptedSecret(value)) {
+    return true;
+  }
+  const keyId = value.slice(ENVELOPE_PREFIX.length).split(':')[0];
+  return keyId !== getMasterKeys()[0].id;
+};
+
+export const encryptGoogleTokens = (tokens: {
+  accessToken: string;
+  refreshToken: string;
+}) => ({
+  accessToken: encryptSecret(tokens.accessToken),
+  refreshToken: encryptSecret(tokens.refreshToken),
+});
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes from one step before/after to tolerate clock drift
+const TOTP_WINDOW = 1;
+const BACKUP_CODE_COUNT = 10;
+const CHALLENGE_EXPIRES_IN = '5m';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// RFC 4226 HOTP value for a counter
+const hotp = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotpSecret = (): string =>
+  base32Encode(crypto.randomBytes(20));
+
+/**
+ * Check a 6-digit authenticator code against a base32 secret (RFC 6238)
+ */
+export const verifyTotpCode = (secret: string, code: string): boolean => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return false;
+  }
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const expected = hotp(key, counter + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Build the otpauth:// URI authenticator apps scan, plus a QR code of it
+ */
+export const buildTotpEnrollment = async (
+  secret: string,
+  accountEmail: string
+): Promise<{ otpauthUrl: string; qrCodeDataUrl: string }> => {
+  const issuer = process.env.TWO_FACTOR_ISSUER || 'Rankify';
+  const label = encodeURIComponent(`${issuer}:${accountEmail}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+  return { otpauthUrl, qrCodeDataUrl };
+};
+
+const hashBackupCode = (code: string): string =>
+  crypto
+    .createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+
+/**
+ * Replace a user's backup codes with a fresh set and return them in plain
+ * text. They are only shown once.
+ */
+export const regenerateBackupCodes = async (
+  userId: string
+): Promise<string[]> => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorBackupCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashBackupCode(code) })),
+    }),
+  ]);
+
+  return codes;
+};
+
+/**
+ * Verify a second factor for a user: an authenticator code, or an unused
+ * backup code (which is consumed).
+ */
+export const verifySecondFactor = async (
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> => {
+  if (user.twoFactorSecret && verifyTotpCode(user.twoFactorSecret, code)) {
+    return true;
+  }
+
+  const consumed = await prisma.twoFactorBackupCode.updateMany({
+    where: { userId: user.id, codeHash: hashBackupCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return consumed.count === 1;
+};
+
+/**
+ * Short-lived token proving the password step of login succeeded. It carries
+ * no session, so it is never accepted as an access token.
+ */
+export const createTwoFactorChallenge = (userId: string): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwt.sign({ userId, purpose: 'two_factor' }, secret, {
+    expiresIn: CHALLENGE_EXPIRES_IN,
+  } as jwt.SignOptions);
+};
+
+export const verifyTwoFactorChallenge = (token: string): string | null => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  try {
+    const decoded = jwt.verify(token, secret) as {
+      userId: string;
+      purpose?: string;
+    };
+    return decoded.purpose === 'two_factor' ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+};
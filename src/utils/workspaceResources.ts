@@ -0,0 +1,65 @@
+import { TRPCError } from '@trpc/server';
+import { prisma } from './prisma';
+
+// Checks that a content resource belongs to the caller's workspace. A null
+// workspace (super-admin without a selected workspace) only checks that the
+// resource exists. Resources in other workspaces are reported as missing.
+
+const notFound = (message: string) =>
+  new TRPCError({ code: 'NOT_FOUND', message });
+
+export const assertBrandProfileInWorkspace = async (
+  workspaceId: string | null | undefined,
+  id: string
+): Promise<void> => {
+  const brandProfile = await prisma.brandProfile.findFirst({
+    where: workspaceId ? { id, workspaceId } : { id },
+    select: { id: true },
+  });
+  if (!brandProfile) {
+    throw notFound('Brand profile not found');
+  }
+};
+
+export const assertKeywordAnalysisInWorkspace = async (
+  workspaceId: string | null | undefined,
+  id: string
+): Promise<void> => {
+  const keywordAnalysis = await prisma.keywordAnalysis.findFirst({
+    where: workspaceId ? { id, workspaceId } : { id },
+    select: { id: true },
+  });
+  if (!keywordAnalysis) {
+    throw notFound('Keyword analysis not found');
+  }
+};
+
+// Content plans and generated content belong to the workspace of the
+// keyword analysis they were built from
+export const assertContentPlanInWorkspace = async (
+  workspaceId: string | null | undefined,
+  id: string
+): Promise<void> => {
+  const contentPlan = await prisma.contentPlan.findFirst({
+    where: workspaceId ? { id, keywordAnalysis: { workspaceId } } : { id },
+    select: { id: true },
+  });
+  if (!contentPlan) {
+    throw notFound('Content plan not found');
+  }
+};
+
+export const assertGeneratedContentInWorkspace = async (
+  workspaceId: string | null | undefined,
+  id: string
+): Promise<void> => {
+  const generatedContent = await prisma.generatedContent.findFirst({
+    where: workspaceId
+      ? { id, contentPlan: { keywordAnalysis: { workspaceId } } }
+      : { id },
+    select: { id: true },
+  });
+  if (!generatedContent) {
+    throw notFound('Generated content not found');
+  }
+};